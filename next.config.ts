@@ -2,6 +2,12 @@ import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
   output: 'standalone',
+  // DuckDB 네이티브 모듈은 번들하지 않고 런타임에 node_modules에서 불러옴
+  serverExternalPackages: ['@duckdb/node-api'],
+  outputFileTracingIncludes: {
+    // 분석 쿼리 실행 프로세스는 번들하지 않은 스크립트를 직접 실행
+    '/api/**': ['./node_modules/@duckdb/node-bindings-*/**', './src/lib/sandbox/**']
+  },
 };
 
 export default nextConfig;
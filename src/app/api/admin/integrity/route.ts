@@ -0,0 +1,31 @@
+import { NextResponse } from 'next/server';
+import { checkDatasetIntegrity, hasIntegrityIssues, repairDatasetIntegrity } from '@/lib/dataset-integrity';
+
+// GET: 데이터셋 테이블과 메타데이터 일치 여부 검사 (주인 없는 data_* 테이블, 없는 테이블, 남은 기록)
+export async function GET() {
+  try {
+    const report = checkDatasetIntegrity();
+    return NextResponse.json({ success: true, healthy: !hasIntegrityIssues(report), report });
+  } catch (error) {
+    console.error('무결성 검사 실패:', error);
+    return NextResponse.json(
+      { error: `무결성 검사 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 검사 후 발견한 문제 정리 (정리 전 검사 결과와 정리 내용을 함께 반환)
+export async function POST() {
+  try {
+    const report = checkDatasetIntegrity();
+    const repair = await repairDatasetIntegrity(report);
+    return NextResponse.json({ success: true, report, repair });
+  } catch (error) {
+    console.error('무결성 정리 실패:', error);
+    return NextResponse.json(
+      { error: `무결성 정리 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,26 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { restoreSnapshot, SnapshotRestoreError } from '@/lib/backups';
+
+// POST: 스냅샷으로 데이터베이스 복원
+// 파일 손상/스키마 버전/진행 중인 작업은 restoreSnapshot이 확인하고, 복원 전 상태는 before-restore 스냅샷으로 남김
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+
+    const result = await restoreSnapshot(name);
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    if (error instanceof SnapshotRestoreError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    console.error('스냅샷 복원 실패:', error);
+    return NextResponse.json(
+      { error: `스냅샷 복원 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
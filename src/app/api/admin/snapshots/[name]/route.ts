@@ -0,0 +1,64 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteSnapshot, getSnapshotPath } from '@/lib/backups';
+
+// GET: 스냅샷 파일 다운로드 (SQLite 데이터베이스 파일 그대로)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+
+    const filePath = getSnapshotPath(name);
+    if (!filePath) {
+      return NextResponse.json(
+        { error: '스냅샷을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const { size } = await fs.promises.stat(filePath);
+    return new NextResponse(Readable.toWeb(fs.createReadStream(filePath)) as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': 'application/vnd.sqlite3',
+        'Content-Length': String(size),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(name)}`
+      }
+    });
+
+  } catch (error) {
+    console.error('스냅샷 다운로드 실패:', error);
+    return NextResponse.json(
+      { error: `스냅샷 다운로드 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 스냅샷 삭제
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ name: string }> }
+) {
+  try {
+    const { name } = await params;
+
+    if (!await deleteSnapshot(name)) {
+      return NextResponse.json(
+        { error: '스냅샷을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('스냅샷 삭제 실패:', error);
+    return NextResponse.json(
+      { error: `스냅샷 삭제 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
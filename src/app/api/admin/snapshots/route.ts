@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createSnapshot, listSnapshots } from '@/lib/backups';
+
+// GET: 보관된 데이터베이스 스냅샷 목록 (최신순)
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, snapshots: listSnapshots() });
+  } catch (error) {
+    console.error('스냅샷 목록 조회 실패:', error);
+    return NextResponse.json(
+      { error: `스냅샷 목록 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 현재 데이터베이스(데이터셋, 메타데이터, 채팅 기록)의 스냅샷 생성 (?label=... 로 파일 이름에 설명 추가)
+// 서버 실행 중에도 온라인 백업으로 일관된 시점의 사본을 data/snapshots/에 저장
+export async function POST(request: NextRequest) {
+  try {
+    const label = request.nextUrl.searchParams.get('label') || undefined;
+    const snapshot = await createSnapshot(label);
+    return NextResponse.json({ success: true, snapshot }, { status: 201 });
+  } catch (error) {
+    console.error('스냅샷 생성 실패:', error);
+    return NextResponse.json(
+      { error: `스냅샷 생성 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,26 +1,29 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { getRecentChatHistory, getAllChatHistory, clearChatHistory, getChatHistoryCount, getChatHistoryPaginated } from '@/lib/chat-history';
+import { ChatScope } from '@/types';
 
-// GET: 특정 파일의 채팅 히스토리 조회
+// GET: 특정 파일(?fileId) 또는 워크스페이스(?workspaceId)의 채팅 히스토리 조회
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
-    const fileId = searchParams.get('fileId');
+    const workspaceId = searchParams.get('workspaceId');
+    const targetId = workspaceId || searchParams.get('fileId');
+    const scope: ChatScope = workspaceId ? 'workspace' : 'file';
     const all = searchParams.get('all') === 'true'; // 전체 히스토리 조회 여부
     const page = parseInt(searchParams.get('page') || '1', 10);
     const limit = parseInt(searchParams.get('limit') || '10', 10);
 
-    if (!fileId) {
+    if (!targetId) {
       return NextResponse.json(
-        { error: 'fileId 파라미터가 필요합니다.' },
+        { error: 'fileId 또는 workspaceId 파라미터가 필요합니다.' },
         { status: 400 }
       );
     }
 
     if (all) {
       // 전체 히스토리 조회 (기존 방식)
-      const history = await getAllChatHistory(fileId);
-      const totalCount = await getChatHistoryCount(fileId);
+      const history = await getAllChatHistory(targetId, scope);
+      const totalCount = await getChatHistoryCount(targetId, scope);
 
       return NextResponse.json({
         success: true,
@@ -31,7 +34,7 @@ export async function GET(request: NextRequest) {
       });
     } else if (page > 1 || limit !== 10) {
       // 페이지네이션 조회
-      const result = await getChatHistoryPaginated(fileId, page, limit);
+      const result = await getChatHistoryPaginated(targetId, page, limit, scope);
 
       return NextResponse.json({
         success: true,
@@ -44,8 +47,8 @@ export async function GET(request: NextRequest) {
       });
     } else {
       // 컨텍스트용 최근 히스토리만 조회 (기존 방식)
-      const history = await getRecentChatHistory(fileId);
-      const totalCount = await getChatHistoryCount(fileId);
+      const history = await getRecentChatHistory(targetId, scope);
+      const totalCount = await getChatHistoryCount(targetId, scope);
 
       return NextResponse.json({
         success: true,
@@ -65,23 +68,29 @@ export async function GET(request: NextRequest) {
   }
 }
 
-// DELETE: 특정 파일의 채팅 히스토리 삭제
+// DELETE: 특정 파일(fileId) 또는 워크스페이스(workspaceId)의 채팅 히스토리 삭제
 export async function DELETE(request: NextRequest) {
   try {
-    const { fileId } = await request.json();
+    const { fileId, workspaceId } = await request.json();
 
-    if (!fileId) {
+    if (!fileId && !workspaceId) {
       return NextResponse.json(
-        { error: 'fileId가 필요합니다.' },
+        { error: 'fileId 또는 workspaceId가 필요합니다.' },
         { status: 400 }
       );
     }
 
-    await clearChatHistory(fileId);
+    if (workspaceId) {
+      await clearChatHistory(workspaceId, 'workspace');
+    } else {
+      await clearChatHistory(fileId);
+    }
 
     return NextResponse.json({
       success: true,
-      message: `파일 ${fileId}의 채팅 히스토리가 삭제되었습니다.`
+      message: workspaceId
+        ? `워크스페이스 ${workspaceId}의 채팅 히스토리가 삭제되었습니다.`
+        : `파일 ${fileId}의 채팅 히스토리가 삭제되었습니다.`
     });
 
   } catch (error) {
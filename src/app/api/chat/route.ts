@@ -1,34 +1,39 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { processQueryWithEnhancedReAct } from '@/lib/react-agent';
 import { saveChatHistory } from '@/lib/chat-history';
-import { db } from '@/lib/database';
+import { getAnalysisScope } from '@/lib/workspaces';
+import { getCurrentVersion } from '@/lib/versions';
 
+// POST: 질문 분석 (fileId: 데이터셋 하나, workspaceId: 워크스페이스의 모든 데이터셋을 함께 분석)
 export async function POST(request: NextRequest) {
   try {
-    const { message, fileId } = await request.json();
+    const { message, fileId, workspaceId } = await request.json();
 
-    if (!message || !fileId) {
+    if (!message || (!fileId && !workspaceId)) {
       return NextResponse.json(
-        { error: 'message와 fileId가 필요합니다.' },
+        { error: 'message와 fileId(또는 workspaceId)가 필요합니다.' },
         { status: 400 }
       );
     }
 
-    // 파일 정보 조회
-    const result = db.selectOne('SELECT * FROM files WHERE id = ?', [fileId]);
+    // 분석 대상 조회 (워크스페이스면 속한 데이터셋 전체)
+    const scope = getAnalysisScope(workspaceId || fileId);
     
-    if (!result.success || !result.data?.[0]) {
+    if (!scope || scope.kind !== (workspaceId ? 'workspace' : 'file')) {
       return NextResponse.json(
-        { error: '파일을 찾을 수 없습니다.' },
+        { error: workspaceId ? '워크스페이스를 찾을 수 없습니다.' : '파일을 찾을 수 없습니다.' },
         { status: 404 }
       );
     }
-    
-    const fileData = result.data[0];
-
-    const fileName = (fileData.displayName as string) || (fileData.name as string);
-
+    if (scope.datasets.length === 0) {
+      return NextResponse.json(
+        { error: '워크스페이스에 데이터셋이 없습니다.' },
+        { status: 400 }
+      );
+    }
 
+    // 답변 기준이 되는 데이터셋 버전 (질문 시점, 워크스페이스 대화는 기록하지 않음)
+    const version = scope.kind === 'file' ? getCurrentVersion(fileId) : null;
 
     // 스트리밍 응답 설정
     const encoder = new TextEncoder();
@@ -44,8 +49,8 @@ export async function POST(request: NextRequest) {
           // Enhanced ReAct 에이전트를 사용한 분석 (reasoning 콜백 포함)
           const response = await processQueryWithEnhancedReAct(
             message, 
-            fileId, 
-            fileName, 
+            scope.id, 
+            scope.name, 
             onReasoning
           );
 
@@ -55,7 +60,7 @@ export async function POST(request: NextRequest) {
 
           // 채팅 히스토리 저장 (무제한)
           try {
-            await saveChatHistory(fileId, message, response);
+            await saveChatHistory(scope.id, message, response, version, scope.kind);
           } catch {
             // 히스토리 저장 실패는 사용자에게 영향을 주지 않음
           }
@@ -0,0 +1,47 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { exportDatasetBundle } from '@/lib/bundles';
+
+// GET: 데이터셋을 채팅 기록과 함께 번들 파일로 다운로드 (이전 버전 데이터 포함, 보관된 원본 파일 제외)
+// 받은 파일은 POST /api/files/bundle 로 다른 서버에 가져올 수 있음
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const fileResult = db.selectOne('SELECT name, displayName FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+    const fileData = fileResult.data[0];
+    const baseName = ((fileData.displayName || fileData.name) as string).replace(/\.[^.]+$/, '');
+
+    const bundlePath = exportDatasetBundle(id);
+    const { size } = await fs.promises.stat(bundlePath);
+    const stream = fs.createReadStream(bundlePath);
+    // 다 보내거나 연결이 끊기면 임시 파일 삭제
+    stream.on('close', () => fs.promises.rm(bundlePath, { force: true }).catch(() => {}));
+
+    return new NextResponse(Readable.toWeb(stream) as ReadableStream<Uint8Array>, {
+      headers: {
+        'Content-Type': 'application/vnd.sqlite3',
+        'Content-Length': String(size),
+        'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(`${baseName}.bundle.db`)}`
+      }
+    });
+
+  } catch (error) {
+    console.error('데이터셋 내보내기 실패:', error);
+    return NextResponse.json(
+      { error: `데이터셋 내보내기 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,75 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { createDerivedDataset, listDerivedDatasets, planDerivedDataset } from '@/lib/derived-datasets';
+
+// GET: 이 데이터셋에서 만든 파생 데이터셋 목록 (stale: 만든 뒤로 원본이 바뀜)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const fileResult = db.selectOne('SELECT id FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, derived: listDerivedDatasets(id) });
+
+  } catch (error) {
+    console.error('파생 데이터셋 조회 실패:', error);
+    return NextResponse.json(
+      { error: `파생 데이터셋 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 이 데이터셋에 대한 SELECT 쿼리를 새 데이터셋으로 저장
+// body: { name, query, kind?: 'view'(기본, 원본을 읽는 뷰) | 'table'(결과를 저장한 테이블) }
+// 쿼리는 이 데이터셋의 테이블만 읽어야 하고, 만든 데이터셋은 파일 목록에서 일반 데이터셋처럼 대화할 수 있음
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const fileResult = db.selectOne('SELECT id FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const plan = planDerivedDataset(await request.json());
+    if ('error' in plan) {
+      return NextResponse.json({ error: plan.error }, { status: 400 });
+    }
+
+    let created;
+    try {
+      created = createDerivedDataset(id, plan);
+    } catch (queryError) {
+      // 쿼리 검증/실행 오류는 요청을 고쳐서 다시 보내야 하는 오류
+      return NextResponse.json(
+        { error: queryError instanceof Error ? queryError.message : String(queryError) },
+        { status: 400 }
+      );
+    }
+
+    return NextResponse.json({ success: true, fileId: created.fileId, lineage: created.lineage }, { status: 201 });
+
+  } catch (error) {
+    console.error('파생 데이터셋 생성 실패:', error);
+    return NextResponse.json(
+      { error: `파생 데이터셋 생성 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
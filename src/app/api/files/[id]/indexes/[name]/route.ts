@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { getDatasetTables } from '@/lib/datasets';
+import { dropIndex } from '@/lib/indexes';
+
+// DELETE: 인덱스 삭제 (이 데이터셋 테이블에 걸린 인덱스만)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; name: string }> }
+) {
+  try {
+    const { id, name } = await params;
+
+    const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    if (!dropIndex(id, getDatasetTables(fileResult.data[0]), name)) {
+      return NextResponse.json(
+        { error: `인덱스를 찾을 수 없습니다: ${name}` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, name });
+
+  } catch (error) {
+    console.error('인덱스 삭제 실패:', error);
+    return NextResponse.json(
+      { error: `인덱스 삭제 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
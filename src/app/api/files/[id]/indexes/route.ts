@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { getDatasetTables } from '@/lib/datasets';
+import { getLineage } from '@/lib/derived-datasets';
+import { createIndex, getIndexSuggestions, listIndexes, planIndexColumns } from '@/lib/indexes';
+
+// GET: 시트별 인덱스 목록과 에이전트 쿼리의 전체 스캔 기록에서 나온 인덱스 제안
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+    const tables = getDatasetTables(fileResult.data[0]);
+
+    return NextResponse.json({
+      success: true,
+      indexes: listIndexes(id, tables),
+      suggestions: getIndexSuggestions(id, tables),
+      autoCreate: process.env.INDEX_AUTO_CREATE === 'true'
+    });
+
+  } catch (error) {
+    console.error('인덱스 조회 실패:', error);
+    return NextResponse.json(
+      { error: `인덱스 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 인덱스 생성
+// body: { sheet?: 시트 이름 (기본은 첫 시트), columns: [저장 컬럼명 또는 원본 컬럼명, ...] }
+// 같은 컬럼 구성의 인덱스가 이미 있으면 그대로 돌려줌 (created: false)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { sheet, columns } = await request.json() as { sheet?: string; columns: unknown };
+
+    const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    if (getLineage(id)?.kind === 'view') {
+      return NextResponse.json(
+        { error: '뷰로 만든 파생 데이터셋에는 인덱스를 만들 수 없습니다. 원본 데이터셋에 인덱스를 만들어주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const tables = getDatasetTables(fileResult.data[0]);
+    const table = sheet === undefined ? tables[0] : tables.find(t => t.name === sheet);
+    if (!table) {
+      return NextResponse.json(
+        { error: `시트를 찾을 수 없습니다: ${sheet}` },
+        { status: 404 }
+      );
+    }
+
+    const planned = planIndexColumns(table, columns);
+    if ('error' in planned) {
+      return NextResponse.json({ error: planned.error }, { status: 400 });
+    }
+
+    const { index, created } = createIndex(id, table, planned);
+
+    return NextResponse.json({ success: true, index, created }, { status: created ? 201 : 200 });
+
+  } catch (error) {
+    console.error('인덱스 생성 실패:', error);
+    return NextResponse.json(
+      { error: `인덱스 생성 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
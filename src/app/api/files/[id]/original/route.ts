@@ -0,0 +1,71 @@
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { getVersion } from '@/lib/versions';
+import { openStoredFile } from '@/lib/uploads';
+
+// GET: 보관된 원본 파일 다운로드 (?version=N 으로 추가/교체에 사용한 파일 지정, 기본은 최초 업로드)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const fileResult = db.selectOne('SELECT name, type, originalPath, checksum FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+    const fileData = fileResult.data[0];
+
+    let fileName = fileData.name as string;
+    let originalPath = fileData.originalPath as string | null;
+    let checksum = fileData.checksum as string | null;
+    let contentType = (fileData.type as string) || 'application/octet-stream';
+
+    const versionParam = request.nextUrl.searchParams.get('version');
+    if (versionParam !== null) {
+      const versionNumber = Number(versionParam);
+      const version = Number.isInteger(versionNumber) ? getVersion(id, versionNumber) : null;
+      if (!version) {
+        return NextResponse.json(
+          { error: `버전 ${versionParam}을 찾을 수 없습니다.` },
+          { status: 404 }
+        );
+      }
+      fileName = version.sourceFileName || fileName;
+      originalPath = version.originalPath;
+      checksum = version.checksum;
+      contentType = 'application/octet-stream';
+    }
+
+    const stored = originalPath ? openStoredFile(originalPath) : null;
+    if (!stored) {
+      return NextResponse.json(
+        { error: '원본 파일이 보관되어 있지 않습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const headers: Record<string, string> = {
+      'Content-Type': contentType,
+      'Content-Length': String(stored.size),
+      'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(fileName)}`
+    };
+    if (checksum) {
+      headers['X-Checksum-SHA256'] = checksum;
+    }
+
+    return new NextResponse(Readable.toWeb(stored.stream) as ReadableStream<Uint8Array>, { headers });
+
+  } catch (error) {
+    console.error('원본 파일 다운로드 실패:', error);
+    return NextResponse.json(
+      { error: `원본 파일 다운로드 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
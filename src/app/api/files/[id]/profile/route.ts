@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getDatasetTablesById } from '@/lib/datasets';
+import { getDatasetProfile } from '@/lib/profiling';
+
+// GET: 데이터셋 컬럼 프로필 조회 (시트별 결측/고유값/범위/상위값/히스토그램)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const tables = getDatasetTablesById(id);
+    if (!tables) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileId: id,
+      tables: getDatasetProfile(id, tables)
+    });
+
+  } catch (error) {
+    console.error('컬럼 프로필 조회 실패:', error);
+    return NextResponse.json(
+      { error: `컬럼 프로필 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getLineage, refreshDerivedDataset } from '@/lib/derived-datasets';
+
+// POST: 파생 데이터셋을 원본의 현재 버전으로 다시 만듦 (저장 테이블은 이전 결과를 버전으로 보관)
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!getLineage(id)) {
+      return NextResponse.json(
+        { error: '파생 데이터셋을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const { table, lineage } = await refreshDerivedDataset(id);
+    return NextResponse.json({ success: true, rowCount: table.rowCount, columns: table.columns, lineage });
+
+  } catch (error) {
+    console.error('파생 데이터셋 새로 고침 실패:', error);
+    return NextResponse.json(
+      { error: `파생 데이터셋 새로 고침 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { getCurrentVersion, getVersion } from '@/lib/versions';
+import { getRejectionSummary, listRejections, rejectionsToCsv } from '@/lib/rejections';
+
+// JSON 응답 한 번에 돌려주는 최대 건수 (전체는 CSV로 내려받음)
+const DEFAULT_LIMIT = 500;
+const MAX_LIMIT = 5000;
+
+// GET: 가져올 때 타입 변환에 실패한 값 보고서
+// ?version=N 으로 버전 지정 (기본은 현재 버전), ?format=csv 면 전체 목록을 CSV 파일로 내려받음
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+
+    const fileResult = db.selectOne('SELECT name FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+    const fileName = fileResult.data[0].name as string;
+
+    let version = getCurrentVersion(id);
+    const versionParam = searchParams.get('version');
+    if (versionParam !== null) {
+      const versionNumber = Number(versionParam);
+      if (!Number.isInteger(versionNumber) || !getVersion(id, versionNumber)) {
+        return NextResponse.json(
+          { error: `버전 ${versionParam}을 찾을 수 없습니다.` },
+          { status: 404 }
+        );
+      }
+      version = versionNumber;
+    }
+
+    if (searchParams.get('format') === 'csv') {
+      const csv = rejectionsToCsv(listRejections(id, version));
+      const downloadName = `${fileName.replace(/\.[^.]+$/, '')}_rejections_v${version}.csv`;
+      return new NextResponse(csv, {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename*=UTF-8''${encodeURIComponent(downloadName)}`
+        }
+      });
+    }
+
+    const limit = Math.min(Math.max(Number(searchParams.get('limit')) || DEFAULT_LIMIT, 1), MAX_LIMIT);
+    const offset = Math.max(Number(searchParams.get('offset')) || 0, 0);
+
+    return NextResponse.json({
+      version,
+      summary: getRejectionSummary(id, version),
+      rejections: listRejections(id, version, { limit, offset }),
+      limit,
+      offset
+    });
+
+  } catch (error) {
+    console.error('변환 실패 보고서 조회 실패:', error);
+    return NextResponse.json(
+      { error: `변환 실패 보고서 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/database';
-import { clearChatHistory } from '@/lib/chat-history';
+import { getDatasetTables } from '@/lib/datasets';
+import { getLineage } from '@/lib/derived-datasets';
+import { deleteDataset } from '@/lib/dataset-integrity';
 
-// DELETE: 파일 삭제
+// DELETE: 파일 삭제 (데이터 테이블, 이전 버전, 채팅 기록, 프로필 등을 한 번에 삭제)
 export async function DELETE(
   _request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
@@ -11,7 +13,7 @@ export async function DELETE(
     const { id } = await params;
 
     // 파일 정보 조회
-    const result = db.selectOne('SELECT * FROM files WHERE id = ?', [id]);
+    const result = db.selectOne('SELECT id FROM files WHERE id = ?', [id]);
     
     if (!result.success || !result.data?.[0]) {
       return NextResponse.json(
@@ -19,36 +21,8 @@ export async function DELETE(
         { status: 404 }
       );
     }
-    
-    const _fileData = result.data[0];
 
-    // 1. 채팅 히스토리 삭제
-    try {
-      await clearChatHistory(id);
-      console.log(`파일 ${id}의 채팅 히스토리가 삭제되었습니다.`);
-    } catch (historyError) {
-      console.error('채팅 히스토리 삭제 실패:', historyError);
-      // 히스토리 삭제 실패해도 파일 삭제는 계속 진행
-    }
-
-    // 2. 데이터 테이블 삭제
-    const tableName = `data_${id}`;
-    const dropResult = db.execute(`DROP TABLE IF EXISTS "${tableName}"`);
-    if (!dropResult.success) {
-      console.error(`테이블 ${tableName} 삭제 실패:`, dropResult.error);
-      throw new Error(dropResult.error);
-    } else {
-      console.log(`테이블 ${tableName}이 삭제되었습니다.`);
-    }
-
-    // 3. 파일 메타데이터 삭제
-    const deleteResult = db.execute('DELETE FROM files WHERE id = ?', [id]);
-    if (!deleteResult.success) {
-      console.error('파일 메타데이터 삭제 실패:', deleteResult.error);
-      throw new Error(deleteResult.error);
-    } else {
-      console.log(`파일 메타데이터가 삭제되었습니다. (${deleteResult.changes}개 행)`);
-    }
+    await deleteDataset(id);
 
     return NextResponse.json({
       success: true,
@@ -91,7 +65,13 @@ export async function GET(
         displayName: fileData.displayName,
         size: fileData.size,
         type: fileData.type,
-        uploadedAt: fileData.uploadedAt
+        uploadedAt: fileData.uploadedAt,
+        rowCount: fileData.rowCount,
+        columnCount: fileData.columnCount,
+        checksum: fileData.checksum || null,
+        hasOriginal: !!fileData.originalPath,
+        sheets: getDatasetTables(fileData).map(table => table.name),
+        lineage: getLineage(id) || undefined
       }
     });
 
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { getDatasetTables } from '@/lib/datasets';
+import { isDerivedDataset } from '@/lib/derived-datasets';
+import { getColumnTypes } from '@/lib/dataset-update';
+import { applySchemaEdits, getDatasetSchema, planSchemaEdits } from '@/lib/schema-edit';
+import { ColumnSchemaEdit } from '@/types';
+
+// GET: 시트별 컬럼 구성 (표시 이름, 저장 컬럼명, 타입)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      sheets: getDatasetSchema(getDatasetTables(fileResult.data[0]))
+    });
+
+  } catch (error) {
+    console.error('컬럼 구성 조회 실패:', error);
+    return NextResponse.json(
+      { error: `컬럼 구성 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: 컬럼 이름/표시 이름/타입 변경과 컬럼 삭제
+// body: { sheet?: 시트 이름 (기본은 첫 시트), edits: [{ column, name?, label?, type?, drop? }] }
+// 변경 전 데이터는 이전 버전으로 보관되고, 타입을 바꾸며 변환에 실패한 값은 새 버전의 변환 실패 보고서에 기록됨
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const { sheet, edits } = await request.json() as { sheet?: string; edits: ColumnSchemaEdit[] };
+
+    const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+    if (isDerivedDataset(id)) {
+      return NextResponse.json(
+        { error: '파생 데이터셋은 직접 수정할 수 없습니다. 원본 데이터셋을 수정한 뒤 새로 고침해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const tables = getDatasetTables(fileResult.data[0]);
+    const table = sheet === undefined ? tables[0] : tables.find(t => t.name === sheet);
+    if (!table) {
+      return NextResponse.json(
+        { error: `시트를 찾을 수 없습니다: ${sheet}` },
+        { status: 404 }
+      );
+    }
+
+    const planned = planSchemaEdits(table, getColumnTypes(table.tableName), edits);
+    if ('error' in planned) {
+      return NextResponse.json({ error: planned.error }, { status: 400 });
+    }
+
+    console.log(`[SCHEMA] 컬럼 수정 시작: ${id} (${table.name}, ${edits.length}개 컬럼)`);
+    const result = applySchemaEdits(id, table.name, planned);
+    console.log(`[SCHEMA] 컬럼 수정 완료: 버전 ${result.version}, 변환 실패 ${result.rejections.count}개`);
+
+    return NextResponse.json({ success: true, ...result });
+
+  } catch (error) {
+    console.error('컬럼 수정 실패:', error);
+    return NextResponse.json(
+      { error: `컬럼 수정 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { readableFromWeb, readUploadOptions } from '@/lib/ingestion';
+import { isDerivedDataset } from '@/lib/derived-datasets';
+import { createIngestJob, listIngestJobs } from '@/lib/ingest-jobs';
+import { getCurrentVersion } from '@/lib/versions';
+import { StoredUpload, deleteStoredFile, saveUploadedFile } from '@/lib/uploads';
+import { DATASET_UPDATE_MODES, DatasetUpdateMode } from '@/types';
+
+// POST: 기존 데이터셋에 업로드 (채팅 기록과 제목은 유지)
+// 새 업로드와 같은 파라미터에 &mode=append|replace 로 행 추가/데이터 교체를 지정
+// 파싱, 스키마 대조, 반영은 새 업로드와 같은 백그라운드 작업으로 진행되므로 202와 작업 ID를 돌려줌
+// 컬럼 타입이 맞지 않으면 작업이 대조 결과(result.changes, requiresConfirmation)와 함께 실패하므로 확인 후 &confirm=true 로 다시 요청
+// 갱신 전 데이터는 이전 버전으로 보관되고 갱신 결과가 새 버전이 됨 (원본은 uploads/<id>/v<버전>에 보관)
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const uploadStartTime = Date.now();
+  let stored: StoredUpload | null = null;
+  let queued = false;
+  const { id } = await params;
+
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json({ error: '파일을 찾을 수 없습니다.' }, { status: 404 });
+    }
+    const fileData = fileResult.data[0];
+    if (isDerivedDataset(id)) {
+      return NextResponse.json({ error: '파생 데이터셋은 직접 수정할 수 없습니다. 원본 데이터셋을 수정한 뒤 새로 고침해주세요.' }, { status: 400 });
+    }
+
+    if (!request.body) {
+      return NextResponse.json({ error: '파일이 제공되지 않았습니다.' }, { status: 400 });
+    }
+
+    const mode = searchParams.get('mode') as DatasetUpdateMode;
+    if (!DATASET_UPDATE_MODES.includes(mode)) {
+      return NextResponse.json({ error: '업로드 방식은 append 또는 replace여야 합니다.' }, { status: 400 });
+    }
+    const confirmed = searchParams.get('confirm') === 'true';
+
+    const options = readUploadOptions(searchParams);
+    if ('error' in options) {
+      return NextResponse.json({ error: options.error }, { status: 400 });
+    }
+    const { fileName, ...jobOptions } = options;
+
+    // 갱신은 현재 버전을 기준으로 하므로 같은 데이터셋의 작업이 끝난 뒤에만 받음
+    const activeJobs = listIngestJobs({ active: true, fileId: id, limit: 1 });
+    if (activeJobs.length > 0) {
+      return NextResponse.json(
+        { error: '이 데이터셋을 갱신하는 중인 작업이 끝난 뒤에 다시 업로드해주세요.', job: activeJobs[0] },
+        { status: 409 }
+      );
+    }
+
+    console.log(`[UPLOAD] 기존 데이터셋 갱신 시작: ${id} (${mode}, ${fileName})`);
+
+    // 원본을 새 버전 번호로 보관
+    stored = await saveUploadedFile(readableFromWeb(request.body), id, fileName, `v${getCurrentVersion(id) + 1}`);
+    console.log(`[UPLOAD] 원본 보관 완료: ${stored.relativePath} (sha256 ${stored.checksum})`);
+
+    const job = createIngestJob(id, fileName, fileData.type as string, stored, {
+      ...jobOptions,
+      update: { mode, confirmed }
+    });
+    queued = true;
+    console.log(`[UPLOAD] 갱신 작업 등록: ${job.id} (${Date.now() - uploadStartTime}ms)`);
+
+    return NextResponse.json({ success: true, jobId: job.id, fileId: id, job }, { status: 202 });
+
+  } catch (error) {
+    console.error('데이터셋 갱신 실패:', error);
+    return NextResponse.json(
+      { error: `데이터셋 갱신 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  } finally {
+    // 작업으로 넘기지 못했으면 보관한 원본도 남기지 않음
+    if (stored && !queued) {
+      await deleteStoredFile(stored.relativePath);
+    }
+  }
+}
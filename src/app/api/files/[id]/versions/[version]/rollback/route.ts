@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { isDerivedDataset } from '@/lib/derived-datasets';
+import { profileDataset } from '@/lib/profiling';
+import { getCurrentVersion, getVersion, rollbackToVersion } from '@/lib/versions';
+
+// POST: 지정한 버전으로 되돌리기 (현재 데이터는 보관되고 되돌린 결과가 새 버전이 됨)
+export async function POST(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  try {
+    const { id, version: versionParam } = await params;
+
+    const fileResult = db.selectOne('SELECT id FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+    if (isDerivedDataset(id)) {
+      return NextResponse.json(
+        { error: '파생 데이터셋은 직접 수정할 수 없습니다. 원본 데이터셋을 수정한 뒤 새로 고침해주세요.' },
+        { status: 400 }
+      );
+    }
+
+    const version = Number(versionParam);
+    if (!Number.isInteger(version) || version < 1) {
+      return NextResponse.json(
+        { error: '버전 번호가 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+    if (!getVersion(id, version)) {
+      return NextResponse.json(
+        { error: `버전 ${version}을 찾을 수 없습니다.` },
+        { status: 404 }
+      );
+    }
+    if (version === getCurrentVersion(id)) {
+      return NextResponse.json(
+        { error: '이미 현재 버전입니다.' },
+        { status: 400 }
+      );
+    }
+
+    const restored = rollbackToVersion(id, version);
+    console.log(`[VERSION] 버전 되돌리기 완료: ${id} v${version} → v${restored.version}`);
+
+    try {
+      profileDataset(id, restored.tables);
+    } catch (profileError) {
+      console.error('[VERSION] 컬럼 프로필 계산 실패:', profileError);
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileId: id,
+      restoredFrom: version,
+      version: restored.version,
+      rowCount: restored.rowCount,
+      sheets: restored.tables.map(table => ({
+        name: table.name,
+        rowCount: table.rowCount,
+        columnCount: table.columns.length
+      }))
+    });
+
+  } catch (error) {
+    console.error('버전 되돌리기 실패:', error);
+    return NextResponse.json(
+      { error: `버전 되돌리기 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
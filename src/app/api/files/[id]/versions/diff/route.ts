@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { diffVersions, getCurrentVersion, getVersion } from '@/lib/versions';
+
+// GET: 두 버전 비교 (?from=1&to=3, to를 생략하면 현재 버전)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+    const searchParams = request.nextUrl.searchParams;
+
+    const fileResult = db.selectOne('SELECT id FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const from = Number(searchParams.get('from'));
+    const to = searchParams.has('to') ? Number(searchParams.get('to')) : getCurrentVersion(id);
+    if (![from, to].every(version => Number.isInteger(version) && version >= 1)) {
+      return NextResponse.json(
+        { error: '비교할 버전 번호(from, to)가 올바르지 않습니다.' },
+        { status: 400 }
+      );
+    }
+
+    const missing = [from, to].find(version => !getVersion(id, version));
+    if (missing !== undefined) {
+      return NextResponse.json(
+        { error: `버전 ${missing}을 찾을 수 없습니다.` },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileId: id,
+      from,
+      to,
+      tables: diffVersions(id, from, to)
+    });
+
+  } catch (error) {
+    console.error('버전 비교 실패:', error);
+    return NextResponse.json(
+      { error: `버전 비교 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { db } from '@/lib/database';
+import { listVersions } from '@/lib/versions';
+
+// GET: 데이터셋 버전 목록 (최신순, 첫 항목이 현재 데이터)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const fileResult = db.selectOne('SELECT id FROM files WHERE id = ?', [id]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      return NextResponse.json(
+        { error: '파일을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const versions = listVersions(id);
+
+    return NextResponse.json({
+      success: true,
+      fileId: id,
+      currentVersion: versions[0].version,
+      versions: versions.map((version, index) => ({
+        version: version.version,
+        action: version.action,
+        sourceFileName: version.sourceFileName,
+        baseVersion: version.baseVersion,
+        rowCount: version.rowCount,
+        size: version.size,
+        createdAt: version.createdAt,
+        current: index === 0,
+        sheets: version.tables.map(table => ({
+          name: table.name,
+          rowCount: table.rowCount,
+          columnCount: table.columns.length
+        }))
+      }))
+    });
+
+  } catch (error) {
+    console.error('버전 목록 조회 실패:', error);
+    return NextResponse.json(
+      { error: `버전 목록 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
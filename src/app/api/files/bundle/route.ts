@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { importDatasetBundle } from '@/lib/bundles';
+import { readableFromWeb } from '@/lib/ingestion';
+
+// POST: 번들 파일(GET /api/files/{id}/bundle 로 받은 파일)을 새 데이터셋으로 가져옴
+// 업로드와 같이 multipart가 아닌 파일 원본 바이트를 본문으로 받음
+export async function POST(request: NextRequest) {
+  try {
+    if (!request.body) {
+      return NextResponse.json({ error: '파일이 제공되지 않았습니다.' }, { status: 400 });
+    }
+
+    const result = await importDatasetBundle(readableFromWeb(request.body));
+    return NextResponse.json({ success: true, ...result }, { status: 201 });
+
+  } catch (error) {
+    console.error('데이터셋 가져오기 실패:', error);
+    return NextResponse.json(
+      { error: `데이터셋 가져오기 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,7 @@
 import { NextResponse } from 'next/server';
 import { db } from '@/lib/database';
+import { getDatasetTables } from '@/lib/datasets';
+import { listLineages } from '@/lib/derived-datasets';
 
 export async function GET() {
   try {
@@ -11,6 +13,9 @@ export async function GET() {
       return NextResponse.json({ files: [] });
     }
 
+    // 파생 데이터셋은 원본과의 계보를 함께 반환
+    const lineages = listLineages();
+
     // 데이터 형식 변환
     const files = (result.data || []).map((file) => ({
       id: file.id,
@@ -22,7 +27,9 @@ export async function GET() {
       columnCount: file.columnCount,
       rowCount: file.rowCount,
       columnMapping: JSON.parse((file.columnMapping as string) || '{}'),
-      displayName: file.displayName as string || undefined
+      displayName: file.displayName as string || undefined,
+      sheets: getDatasetTables(file).map(table => table.name),
+      lineage: lineages.get(file.id as string)
     }));
 
     return NextResponse.json({ files });
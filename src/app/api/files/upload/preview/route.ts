@@ -0,0 +1,66 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { openUploadSources, previewRows, readableFromWeb, readUploadOptions } from '@/lib/ingestion';
+import { SheetPreview } from '@/types';
+
+const DEFAULT_PREVIEW_ROWS = 20;
+const MAX_PREVIEW_ROWS = 100;
+
+// POST: 업로드 미리보기 (저장하지 않고 감지/추론 결과와 앞부분 행만 반환)
+// 업로드와 같은 파라미터를 받으며, &rows=N 으로 미리보기 행 수,
+// &truncated=true 로 파일 앞부분만 보냈음을 알림 (마지막 행이 잘렸을 수 있음)
+export async function POST(request: NextRequest) {
+  try {
+    const searchParams = request.nextUrl.searchParams;
+
+    if (!request.body) {
+      return NextResponse.json({ error: '파일이 제공되지 않았습니다.' }, { status: 400 });
+    }
+
+    const options = readUploadOptions(searchParams);
+    if ('error' in options) {
+      return NextResponse.json({ error: options.error }, { status: 400 });
+    }
+    const { fileName, format, dialectOverrides, schemaOverrides, nested } = options;
+
+    const requestedRows = parseInt(searchParams.get('rows') || String(DEFAULT_PREVIEW_ROWS), 10);
+    const rowLimit = Math.min(Math.max(isNaN(requestedRows) ? DEFAULT_PREVIEW_ROWS : requestedRows, 1), MAX_PREVIEW_ROWS);
+    const truncated = searchParams.get('truncated') === 'true';
+
+    const source = readableFromWeb(request.body);
+    const { dialect, sheets } = await openUploadSources(fileName, format, source, dialectOverrides, { nested, truncated });
+
+    const previews: SheetPreview[] = [];
+    for (const sheet of sheets) {
+      // NDJSON은 잘린 마지막 줄을 파서에서 이미 건너뛰므로 CSV만 마지막 행 제외
+      const preview = await previewRows(
+        sheet.name,
+        sheet.rows,
+        rowLimit,
+        schemaOverrides[sheet.name],
+        truncated && format === 'csv'
+      );
+      if (preview.rows.length > 0) {
+        previews.push(preview);
+      }
+    }
+
+    if (previews.length === 0) {
+      return NextResponse.json({ error: '파일에 데이터가 없습니다.' }, { status: 400 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      fileName,
+      format,
+      dialect,
+      sheets: previews
+    });
+
+  } catch (error) {
+    console.error('업로드 미리보기 실패:', error);
+    return NextResponse.json(
+      { error: `업로드 미리보기 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,11 @@
 import { NextResponse } from 'next/server';
+import { db } from '@/lib/database';
 
 export async function GET() {
   return NextResponse.json({ 
     status: 'healthy',
     timestamp: new Date().toISOString(),
-    service: 'proba'
+    service: 'proba',
+    schemaVersion: db.getSchemaVersion()
   });
-} 
\ No newline at end of file
+}
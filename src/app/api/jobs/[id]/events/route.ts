@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIngestJob } from '@/lib/ingest-jobs';
+import { ACTIVE_INGEST_JOB_STATUSES } from '@/types';
+
+// 작업 상태를 다시 읽는 간격
+const POLL_INTERVAL_MS = 500;
+
+// GET: 가져오기 작업 진행 상태 스트림 (SSE, 상태가 바뀔 때마다 전송하고 끝나면 닫음)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+
+  if (!getIngestJob(id)) {
+    return NextResponse.json(
+      { error: '작업을 찾을 수 없습니다.' },
+      { status: 404 }
+    );
+  }
+
+  const encoder = new TextEncoder();
+  let timer: ReturnType<typeof setInterval> | null = null;
+  let closed = false;
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let lastUpdatedAt = '';
+
+      const finish = () => {
+        if (closed) return;
+        closed = true;
+        if (timer) clearInterval(timer);
+        controller.close();
+      };
+
+      const send = () => {
+        if (closed) return;
+        try {
+          const job = getIngestJob(id);
+          if (!job) {
+            finish();
+            return;
+          }
+
+          if (job.updatedAt !== lastUpdatedAt) {
+            lastUpdatedAt = job.updatedAt;
+            const data = JSON.stringify({ type: 'job', job });
+            controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          }
+
+          if (!ACTIVE_INGEST_JOB_STATUSES.includes(job.status)) {
+            finish();
+          }
+        } catch (error) {
+          const data = JSON.stringify({
+            type: 'error',
+            content: error instanceof Error ? error.message : String(error)
+          });
+          controller.enqueue(encoder.encode(`data: ${data}\n\n`));
+          finish();
+        }
+      };
+
+      timer = setInterval(send, POLL_INTERVAL_MS);
+      send();
+      // 클라이언트가 연결을 끊으면 더 읽지 않음
+      request.signal.addEventListener('abort', finish);
+    },
+    cancel() {
+      closed = true;
+      if (timer) clearInterval(timer);
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive',
+    },
+  });
+}
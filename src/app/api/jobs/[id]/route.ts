@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getIngestJob } from '@/lib/ingest-jobs';
+
+// GET: 가져오기 작업 상태 조회 (폴링용)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const job = getIngestJob(id);
+    if (!job) {
+      return NextResponse.json(
+        { error: '작업을 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, job });
+
+  } catch (error) {
+    console.error('작업 조회 실패:', error);
+    return NextResponse.json(
+      { error: `작업 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
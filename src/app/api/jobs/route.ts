@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { listIngestJobs } from '@/lib/ingest-jobs';
+
+// GET: 가져오기 작업 목록 (최신순, ?active=true 로 진행 중인 작업만)
+export async function GET(request: NextRequest) {
+  try {
+    const active = request.nextUrl.searchParams.get('active') === 'true';
+
+    return NextResponse.json({
+      success: true,
+      jobs: listIngestJobs({ active })
+    });
+
+  } catch (error) {
+    console.error('작업 목록 조회 실패:', error);
+    return NextResponse.json(
+      { error: `작업 목록 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
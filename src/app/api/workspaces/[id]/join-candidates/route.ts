@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { getAnalysisScope } from '@/lib/workspaces';
+import { detectJoinCandidates } from '@/lib/join-keys';
+
+// GET: 워크스페이스 데이터셋 사이의 조인 키 후보
+// 후보마다 겹치는 값 비율(containment)과 고유 값 비율(uniqueness), 1:1/1:N 관계를 함께 반환
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const scope = getAnalysisScope(id);
+    if (!scope || scope.kind !== 'workspace') {
+      return NextResponse.json(
+        { error: '워크스페이스를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, candidates: detectJoinCandidates(scope) });
+
+  } catch (error) {
+    console.error('조인 키 후보 조회 실패:', error);
+    return NextResponse.json(
+      { error: `조인 키 후보 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,29 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteRelationship } from '@/lib/workspaces';
+
+// DELETE: 조인 키 삭제
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; relationshipId: string }> }
+) {
+  try {
+    const { id, relationshipId } = await params;
+
+    const relationshipNumber = Number(relationshipId);
+    if (!Number.isInteger(relationshipNumber) || !deleteRelationship(id, relationshipNumber)) {
+      return NextResponse.json(
+        { error: '조인 키를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true });
+
+  } catch (error) {
+    console.error('조인 키 삭제 실패:', error);
+    return NextResponse.json(
+      { error: `조인 키 삭제 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
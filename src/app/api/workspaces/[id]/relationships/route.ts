@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { addRelationship, getWorkspace, planRelationship } from '@/lib/workspaces';
+
+// POST: 조인 키 지정
+// body: { leftTable, leftColumn, rightTable, rightColumn }
+// 테이블은 워크스페이스 데이터셋의 테이블명, 컬럼은 저장 컬럼명 또는 원본 컬럼명
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const workspace = getWorkspace(id);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: '워크스페이스를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    const planned = planRelationship(workspace, await request.json());
+    if ('error' in planned) {
+      return NextResponse.json({ error: planned.error }, { status: 400 });
+    }
+
+    const relationship = addRelationship(id, planned.left, planned.right);
+    console.log(`[WORKSPACE] 조인 키 지정: ${relationship.leftTable}.${relationship.leftColumn} = ${relationship.rightTable}.${relationship.rightColumn}`);
+
+    return NextResponse.json({ success: true, relationship }, { status: 201 });
+
+  } catch (error) {
+    console.error('조인 키 지정 실패:', error);
+    return NextResponse.json(
+      { error: `조인 키 지정 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { deleteWorkspace, getWorkspace, planWorkspace, updateWorkspace } from '@/lib/workspaces';
+
+// GET: 워크스페이스 상세 (데이터셋별 시트 컬럼 구성과 조인 키)
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const workspace = getWorkspace(id);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: '워크스페이스를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, workspace });
+
+  } catch (error) {
+    console.error('워크스페이스 조회 실패:', error);
+    return NextResponse.json(
+      { error: `워크스페이스 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH: 이름/설명/데이터셋 구성 수정
+// body: { name?, description?, fileIds? } (fileIds에서 빠진 데이터셋의 조인 키는 삭제됨)
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    const plan = planWorkspace(await request.json(), true);
+    if ('error' in plan) {
+      return NextResponse.json({ error: plan.error }, { status: 400 });
+    }
+
+    const workspace = updateWorkspace(id, plan);
+    if (!workspace) {
+      return NextResponse.json(
+        { error: '워크스페이스를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({ success: true, workspace });
+
+  } catch (error) {
+    console.error('워크스페이스 수정 실패:', error);
+    return NextResponse.json(
+      { error: `워크스페이스 수정 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE: 워크스페이스 삭제 (데이터셋은 삭제하지 않음)
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const { id } = await params;
+
+    if (!deleteWorkspace(id)) {
+      return NextResponse.json(
+        { error: '워크스페이스를 찾을 수 없습니다.' },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: '워크스페이스가 삭제되었습니다.'
+    });
+
+  } catch (error) {
+    console.error('워크스페이스 삭제 실패:', error);
+    return NextResponse.json(
+      { error: `워크스페이스 삭제 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { createWorkspace, listWorkspaces, planWorkspace } from '@/lib/workspaces';
+
+// GET: 워크스페이스 목록
+export async function GET() {
+  try {
+    return NextResponse.json({ success: true, workspaces: listWorkspaces() });
+
+  } catch (error) {
+    console.error('워크스페이스 목록 조회 실패:', error);
+    return NextResponse.json(
+      { error: `워크스페이스 목록 조회 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: 워크스페이스 생성
+// body: { name, description?, fileIds: [함께 분석할 데이터셋 ID, ...] }
+export async function POST(request: NextRequest) {
+  try {
+    const plan = planWorkspace(await request.json());
+    if ('error' in plan) {
+      return NextResponse.json({ error: plan.error }, { status: 400 });
+    }
+
+    return NextResponse.json({ success: true, workspace: createWorkspace(plan) }, { status: 201 });
+
+  } catch (error) {
+    console.error('워크스페이스 생성 실패:', error);
+    return NextResponse.json(
+      { error: `워크스페이스 생성 실패: ${error instanceof Error ? error.message : String(error)}` },
+      { status: 500 }
+    );
+  }
+}
@@ -10,9 +10,11 @@ import {
   Calendar,
   MessageSquare,
   Sparkles,
-  FileSpreadsheet
+  FileSpreadsheet,
+  Columns
 } from 'lucide-react';
 import { ChatInterface } from '@/features/chat-interface/ui/ChatInterface';
+import { SchemaEditor } from '@/features/schema-editor/ui/SchemaEditor';
 
 interface FileData {
   id: string;
@@ -29,13 +31,16 @@ export default function ChatPage() {
   const router = useRouter();
   const [file, setFile] = useState<FileData | null>(null);
   const [loading, setLoading] = useState(true);
+  const [isSchemaEditorOpen, setIsSchemaEditorOpen] = useState(false);
+  // 컬럼을 수정하면 헤더의 행/열 정보를 다시 조회
+  const [reloadKey, setReloadKey] = useState(0);
 
   const id = params.id as string;
 
   useEffect(() => {
     const fetchFileData = async () => {
       try {
-        setLoading(true);
+        if (reloadKey === 0) setLoading(true);
         
         // 개별 파일 정보 조회
         const response = await fetch(`/api/files/${id}`);
@@ -57,7 +62,7 @@ export default function ChatPage() {
     if (id) {
       fetchFileData();
     }
-  }, [id]);
+  }, [id, reloadKey]);
 
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString('ko-KR', {
@@ -150,6 +155,13 @@ export default function ChatPage() {
             </div>
             
             <div className="flex items-center space-x-2 text-sm">
+              <button
+                onClick={() => setIsSchemaEditorOpen(true)}
+                className="inline-flex items-center px-3 py-1.5 text-gray-700 hover:text-primary-600 hover:bg-beige-50 rounded-lg transition-all duration-200"
+              >
+                <Columns className="w-4 h-4 mr-1" />
+                컬럼 편집
+              </button>
               <div className="flex items-center px-3 py-1.5 bg-gradient-to-r from-primary-100 to-primary-200 text-primary-700 rounded-full">
                 <Sparkles className="w-4 h-4 mr-1" />
                 AI 분석 모드
@@ -181,6 +193,13 @@ export default function ChatPage() {
           </div>
         </div>
       </main>
+
+      <SchemaEditor
+        isOpen={isSchemaEditorOpen}
+        fileId={id}
+        onClose={() => setIsSchemaEditorOpen(false)}
+        onSaved={() => setReloadKey(key => key + 1)}
+      />
     </div>
   );
 } 
\ No newline at end of file
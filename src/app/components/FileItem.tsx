@@ -12,8 +12,13 @@ import {
   Trash2,
   Edit2,
   Check,
-  X
+  X,
+  Layers,
+  RefreshCw,
+  GitBranch
 } from 'lucide-react';
+import { UploadTarget } from '@/features/file-upload/ui/FileUpload';
+import { DatasetLineage } from '@/types';
 
 interface FileData {
   id: string;
@@ -23,19 +28,23 @@ interface FileData {
   rowCount?: number;
   columnCount?: number;
   displayName?: string;
+  sheets?: string[];
+  lineage?: DatasetLineage;
 }
 
 interface FileItemProps {
   file: FileData;
   onTitleUpdate: () => void;
   onDelete: (fileId: string) => void;
+  onUpdateData: (target: UploadTarget) => void;
 }
 
-export default function FileItem({ file, onTitleUpdate, onDelete }: FileItemProps) {
+export default function FileItem({ file, onTitleUpdate, onDelete, onUpdateData }: FileItemProps) {
   const router = useRouter();
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(file.displayName || file.name);
   const [isUpdating, setIsUpdating] = useState(false);
+  const [isRefreshing, setIsRefreshing] = useState(false);
 
   const formatFileSize = (bytes: number) => {
     const sizes = ['B', 'KB', 'MB', 'GB'];
@@ -78,6 +87,24 @@ export default function FileItem({ file, onTitleUpdate, onDelete }: FileItemProp
     }
   };
 
+  // 파생 데이터셋을 원본의 현재 데이터로 다시 만듦
+  const handleRefresh = async () => {
+    setIsRefreshing(true);
+    try {
+      const response = await fetch(`/api/files/${file.id}/refresh`, { method: 'POST' });
+      if (response.ok) {
+        onTitleUpdate();
+      } else {
+        const data = await response.json();
+        alert(data.error || '새로 고침에 실패했습니다.');
+      }
+    } catch (error) {
+      console.error('새로 고침 오류:', error);
+    } finally {
+      setIsRefreshing(false);
+    }
+  };
+
   const handleTitleCancel = () => {
     setEditTitle(file.displayName || file.name);
     setIsEditing(false);
@@ -141,7 +168,22 @@ export default function FileItem({ file, onTitleUpdate, onDelete }: FileItemProp
                   </button>
                 </div>
               )}
-              <p className="text-xs text-gray-500">{formatFileSize(file.size)}</p>
+              {file.lineage ? (
+                <p
+                  className="text-xs text-gray-500 flex items-center truncate"
+                  title={file.lineage.query}
+                >
+                  <GitBranch className="w-3 h-3 mr-1 flex-shrink-0" />
+                  <span className="truncate">
+                    {file.lineage.sourceName || '삭제된 데이터셋'} · {file.lineage.kind === 'view' ? '뷰' : '결과 테이블'}
+                  </span>
+                  {file.lineage.stale && (
+                    <span className="ml-1 text-amber-600 flex-shrink-0">· 원본 변경됨</span>
+                  )}
+                </p>
+              ) : (
+                <p className="text-xs text-gray-500">{formatFileSize(file.size)}</p>
+              )}
             </div>
           </div>
           
@@ -172,6 +214,13 @@ export default function FileItem({ file, onTitleUpdate, onDelete }: FileItemProp
             </div>
           )}
           
+          {file.sheets && file.sheets.length > 1 && (
+            <div className="flex items-center text-sm text-gray-600" title={file.sheets.join(', ')}>
+              <Layers className="w-4 h-4 mr-2 text-gray-400" />
+              <span>{file.sheets.length}개 시트</span>
+            </div>
+          )}
+          
           <div className="flex items-center text-sm text-gray-600">
             <Clock className="w-4 h-4 mr-2 text-gray-400" />
             <span>{formatDate(file.uploadedAt)}</span>
@@ -187,6 +236,26 @@ export default function FileItem({ file, onTitleUpdate, onDelete }: FileItemProp
             AI 분석
             <ChevronRight className="w-4 h-4 ml-1 group-hover:translate-x-0.5 transition-transform" />
           </button>
+          {file.lineage ? (
+            <button
+              onClick={handleRefresh}
+              disabled={isRefreshing}
+              className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-primary-700 bg-white border border-beige-300 rounded-lg hover:bg-beige-100 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-all duration-200 disabled:opacity-50"
+              title="원본 데이터셋의 현재 데이터로 다시 만들기"
+            >
+              <RefreshCw className={`w-4 h-4 mr-1 ${isRefreshing ? 'animate-spin' : ''}`} />
+              새로 고침
+            </button>
+          ) : (
+            <button
+              onClick={() => onUpdateData({ id: file.id, name: displayTitle })}
+              className="inline-flex items-center justify-center px-3 py-2 text-sm font-medium text-primary-700 bg-white border border-beige-300 rounded-lg hover:bg-beige-100 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 transition-all duration-200"
+              title="새 파일로 행 추가 또는 데이터 교체"
+            >
+              <RefreshCw className="w-4 h-4 mr-1" />
+              데이터 갱신
+            </button>
+          )}
         </div>
       </div>
     </div>
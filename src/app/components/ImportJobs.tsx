@@ -0,0 +1,77 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { IngestJob } from '@/types';
+import JobProgress from '@/features/file-upload/ui/JobProgress';
+
+interface ImportJobsProps {
+  // 값이 바뀌면 진행 중인 작업을 다시 조회 (업로드 창을 닫았을 때 등)
+  refreshKey?: unknown;
+  onJobsFinished: () => void;
+}
+
+// 진행 중인 작업이 있는 동안 목록을 다시 조회하는 간격
+const POLL_INTERVAL_MS = 2000;
+
+// 백그라운드에서 진행 중인 가져오기 작업 목록
+export default function ImportJobs({ refreshKey, onJobsFinished }: ImportJobsProps) {
+  const [jobs, setJobs] = useState<IngestJob[]>([]);
+  const onJobsFinishedRef = useRef(onJobsFinished);
+  onJobsFinishedRef.current = onJobsFinished;
+
+  useEffect(() => {
+    let cancelled = false;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let previousIds = new Set<string>();
+
+    const fetchJobs = async () => {
+      try {
+        const response = await fetch('/api/jobs?active=true');
+        if (!response.ok || cancelled) return;
+        const data = await response.json();
+        const activeJobs: IngestJob[] = data.jobs || [];
+        if (cancelled) return;
+        setJobs(activeJobs);
+
+        // 목록에서 빠진 작업은 끝난 것이므로 파일 목록 갱신
+        const currentIds = new Set(activeJobs.map(job => job.id));
+        if ([...previousIds].some(id => !currentIds.has(id))) {
+          onJobsFinishedRef.current();
+        }
+        previousIds = currentIds;
+
+        if (activeJobs.length > 0) {
+          timer = setTimeout(fetchJobs, POLL_INTERVAL_MS);
+        }
+      } catch (error) {
+        console.error('가져오기 작업 목록 로드 실패:', error);
+      }
+    };
+
+    fetchJobs();
+    return () => {
+      cancelled = true;
+      if (timer) clearTimeout(timer);
+    };
+  }, [refreshKey]);
+
+  if (jobs.length === 0) return null;
+
+  return (
+    <div className="bg-beige-50 rounded-xl shadow-card border border-beige-200 p-6 mb-8">
+      <div className="flex items-center space-x-2 mb-4">
+        <Loader2 className="w-5 h-5 text-primary-600 animate-spin" />
+        <h2 className="text-base font-semibold text-gray-900">가져오는 중인 파일 {jobs.length}개</h2>
+      </div>
+      <div className="space-y-4">
+        {jobs.map(job => (
+          <div key={job.id}>
+            <p className="text-sm font-medium text-gray-900 truncate mb-1">{job.fileName}</p>
+            <JobProgress job={job} />
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,194 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Layers, Loader2, Plus, Trash2, X } from 'lucide-react';
+import { WorkspaceSummary } from '@/types';
+
+interface WorkspacesProps {
+  // 워크스페이스에 넣을 수 있는 데이터셋
+  files: { id: string; name: string; displayName?: string }[];
+  // 값이 바뀌면 목록을 다시 조회 (데이터셋 삭제 시 데이터셋 수가 바뀜)
+  refreshKey?: unknown;
+}
+
+// 여러 데이터셋을 함께 분석하는 워크스페이스 목록과 생성 폼
+export default function Workspaces({ files, refreshKey }: WorkspacesProps) {
+  const router = useRouter();
+  const [workspaces, setWorkspaces] = useState<WorkspaceSummary[]>([]);
+  const [isCreating, setIsCreating] = useState(false);
+  const [name, setName] = useState('');
+  const [selectedIds, setSelectedIds] = useState<string[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchWorkspaces = useCallback(async () => {
+    try {
+      const response = await fetch('/api/workspaces');
+      if (response.ok) {
+        const data = await response.json();
+        setWorkspaces(data.workspaces || []);
+      }
+    } catch (fetchError) {
+      console.error('워크스페이스 목록 로드 실패:', fetchError);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchWorkspaces();
+  }, [fetchWorkspaces, refreshKey]);
+
+  const resetForm = () => {
+    setIsCreating(false);
+    setName('');
+    setSelectedIds([]);
+    setError(null);
+  };
+
+  const toggleFile = (fileId: string) => {
+    setSelectedIds(prev => prev.includes(fileId) ? prev.filter(id => id !== fileId) : [...prev, fileId]);
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/workspaces', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ name, fileIds: selectedIds })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '워크스페이스 생성 실패');
+      }
+      resetForm();
+      router.push(`/workspaces/${data.workspace.id}`);
+    } catch (createError) {
+      setError(createError instanceof Error ? createError.message : '워크스페이스를 만들지 못했습니다.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (workspaceId: string) => {
+    if (!confirm('워크스페이스와 대화 기록이 삭제됩니다. 데이터셋은 삭제되지 않습니다. 계속하시겠습니까?')) return;
+
+    try {
+      const response = await fetch(`/api/workspaces/${workspaceId}`, { method: 'DELETE' });
+      if (response.ok) {
+        setWorkspaces(prev => prev.filter(workspace => workspace.id !== workspaceId));
+      } else {
+        const errorData = await response.json();
+        alert(`워크스페이스 삭제 실패: ${errorData.error}`);
+      }
+    } catch (deleteError) {
+      console.error('워크스페이스 삭제 실패:', deleteError);
+      alert('워크스페이스 삭제 중 오류가 발생했습니다.');
+    }
+  };
+
+  // 함께 분석할 데이터셋이 두 개 이상일 때만 표시
+  if (workspaces.length === 0 && files.length < 2) return null;
+
+  return (
+    <div className="bg-beige-50 rounded-xl shadow-card border border-beige-200 p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center space-x-2">
+          <Layers className="w-5 h-5 text-primary-600" />
+          <h2 className="text-base font-semibold text-gray-900">워크스페이스</h2>
+        </div>
+        {!isCreating && (
+          <button
+            onClick={() => setIsCreating(true)}
+            className="inline-flex items-center px-3 py-1.5 text-sm text-gray-700 hover:text-primary-600 hover:bg-beige-100 rounded-lg transition-all duration-200"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            새 워크스페이스
+          </button>
+        )}
+      </div>
+
+      {/* 생성 폼 */}
+      {isCreating && (
+        <div className="mb-4 p-4 bg-white border border-beige-200 rounded-lg space-y-3">
+          <div className="flex items-center space-x-2">
+            <input
+              type="text"
+              placeholder="워크스페이스 이름"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              className="flex-1 px-3 py-2 text-sm border border-beige-200 rounded-lg focus:ring-2 focus:ring-primary-500 focus:border-primary-500 bg-white"
+            />
+            <button
+              onClick={resetForm}
+              className="p-2 text-gray-400 hover:text-gray-600 hover:bg-beige-100 rounded-lg transition-colors"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            {files.map(file => (
+              <label
+                key={file.id}
+                className={`inline-flex items-center px-3 py-1 text-xs rounded-full border cursor-pointer transition-colors ${
+                  selectedIds.includes(file.id)
+                    ? 'bg-primary-700 text-white border-primary-800'
+                    : 'bg-white text-gray-600 border-beige-200 hover:bg-beige-50'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  className="hidden"
+                  checked={selectedIds.includes(file.id)}
+                  onChange={() => toggleFile(file.id)}
+                />
+                {file.displayName || file.name}
+              </label>
+            ))}
+          </div>
+          {error && <p className="text-sm text-error-700">{error}</p>}
+          <div className="flex justify-end">
+            <button
+              onClick={handleCreate}
+              disabled={isSaving || !name.trim() || selectedIds.length === 0}
+              className="inline-flex items-center px-4 py-2 text-sm bg-primary-700 text-white rounded-lg hover:bg-primary-800 disabled:opacity-50 transition-colors"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              데이터셋 {selectedIds.length}개로 만들기
+            </button>
+          </div>
+        </div>
+      )}
+
+      {/* 목록 */}
+      {workspaces.length === 0 ? (
+        !isCreating && <p className="text-sm text-gray-500">여러 데이터셋을 묶어 함께 질문할 수 있습니다.</p>
+      ) : (
+        <ul className="space-y-2">
+          {workspaces.map(workspace => (
+            <li
+              key={workspace.id}
+              onClick={() => router.push(`/workspaces/${workspace.id}`)}
+              className="flex items-center justify-between px-4 py-3 bg-white border border-beige-200 rounded-lg cursor-pointer hover:border-primary-300 transition-colors"
+            >
+              <div className="min-w-0">
+                <p className="text-sm font-medium text-gray-900 truncate">{workspace.name}</p>
+                <p className="text-xs text-gray-500">데이터셋 {workspace.datasetCount}개</p>
+              </div>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  handleDelete(workspace.id);
+                }}
+                className="p-1.5 text-gray-400 hover:text-error-600 rounded transition-colors"
+              >
+                <Trash2 className="w-4 h-4" />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
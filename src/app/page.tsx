@@ -14,7 +14,11 @@ import {
   Activity
 } from 'lucide-react';
 import { UploadModal } from '@/features/upload/components/UploadModal';
+import { UploadTarget } from '@/features/file-upload/ui/FileUpload';
 import FileItem from './components/FileItem';
+import ImportJobs from './components/ImportJobs';
+import Workspaces from './components/Workspaces';
+import { DatasetLineage } from '@/types';
 
 interface FileData {
   id: string;
@@ -24,12 +28,15 @@ interface FileData {
   rowCount?: number;
   columnCount?: number;
   displayName?: string;
+  sheets?: string[];
+  lineage?: DatasetLineage;
 }
 
 export default function HomePage() {
   const [files, setFiles] = useState<FileData[]>([]);
   const [loading, setLoading] = useState(true);
   const [isUploadModalOpen, setIsUploadModalOpen] = useState(false);
+  const [updateTarget, setUpdateTarget] = useState<UploadTarget | undefined>(undefined);
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedFilter, setSelectedFilter] = useState('all');
 
@@ -190,6 +197,12 @@ export default function HomePage() {
           </div>
         </div>
 
+        {/* Import Jobs */}
+        <ImportJobs refreshKey={isUploadModalOpen} onJobsFinished={fetchFiles} />
+
+        {/* Workspaces */}
+        <Workspaces files={files} refreshKey={files} />
+
         {/* Search and Filter */}
         <div className="bg-beige-50 rounded-xl shadow-card border border-beige-200 p-6 mb-8">
           <div className="flex flex-col sm:flex-row gap-4">
@@ -253,6 +266,10 @@ export default function HomePage() {
                 file={file} 
                 onTitleUpdate={fetchFiles} 
                 onDelete={handleDelete} 
+                onUpdateData={(target) => {
+                  setUpdateTarget(target);
+                  setIsUploadModalOpen(true);
+                }}
               />
             ))}
           </div>
@@ -261,8 +278,12 @@ export default function HomePage() {
 
       <UploadModal
         isOpen={isUploadModalOpen}
-        onClose={() => setIsUploadModalOpen(false)}
+        onClose={() => {
+          setIsUploadModalOpen(false);
+          setUpdateTarget(undefined);
+        }}
         onUploadComplete={fetchFiles}
+        target={updateTarget}
           />
     </div>
   );
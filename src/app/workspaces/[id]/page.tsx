@@ -0,0 +1,178 @@
+'use client';
+
+import { useParams, useRouter } from 'next/navigation';
+import { useEffect, useState } from 'react';
+import {
+  ArrowLeft,
+  Layers,
+  Users,
+  Link2,
+  MessageSquare,
+  Sparkles
+} from 'lucide-react';
+import { ChatInterface } from '@/features/chat-interface/ui/ChatInterface';
+import { RelationshipEditor } from '@/features/workspace/ui/RelationshipEditor';
+import { Workspace } from '@/types';
+
+export default function WorkspacePage() {
+  const params = useParams();
+  const router = useRouter();
+  const [workspace, setWorkspace] = useState<Workspace | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [isRelationshipEditorOpen, setIsRelationshipEditorOpen] = useState(false);
+  // 조인 키를 바꾸면 워크스페이스 정보를 다시 조회
+  const [reloadKey, setReloadKey] = useState(0);
+
+  const id = params.id as string;
+
+  useEffect(() => {
+    const fetchWorkspace = async () => {
+      try {
+        if (reloadKey === 0) setLoading(true);
+
+        const response = await fetch(`/api/workspaces/${id}`);
+        if (response.ok) {
+          const data = await response.json();
+          setWorkspace(data.workspace);
+        } else {
+          console.error('워크스페이스 정보 조회 실패');
+          setWorkspace(null);
+        }
+      } catch (error) {
+        console.error('워크스페이스 정보 로드 실패:', error);
+        setWorkspace(null);
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    if (id) {
+      fetchWorkspace();
+    }
+  }, [id, reloadKey]);
+
+  if (loading) {
+    return (
+      <div className="min-h-screen bg-beige-50 flex items-center justify-center">
+        <div className="text-center">
+          <div className="w-16 h-16 bg-primary-100 rounded-full flex items-center justify-center mx-auto mb-4">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary-600"></div>
+          </div>
+          <h3 className="text-lg font-semibold text-gray-900 mb-2">워크스페이스 정보 로드 중</h3>
+          <p className="text-gray-600">잠시만 기다려주세요...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (!workspace) {
+    return (
+      <div className="min-h-screen bg-beige-50 flex items-center justify-center">
+        <div className="text-center max-w-md mx-auto p-8">
+          <div className="w-16 h-16 bg-beige-100 rounded-full flex items-center justify-center mx-auto mb-6">
+            <Layers className="w-8 h-8 text-beige-400" />
+          </div>
+          <h2 className="text-2xl font-bold text-gray-900 mb-4">워크스페이스를 찾을 수 없습니다</h2>
+          <p className="text-gray-600 mb-8">요청하신 워크스페이스가 존재하지 않거나 삭제되었습니다.</p>
+          <button
+            onClick={() => router.push('/')}
+            className="inline-flex items-center px-6 py-3 bg-primary-700 text-white font-medium rounded-lg hover:bg-primary-800 focus:outline-none focus:ring-2 focus:ring-primary-500 focus:ring-offset-2 shadow-lg hover:shadow-xl transition-all duration-200 transform hover:scale-105 border border-primary-800"
+          >
+            <ArrowLeft className="w-5 h-5 mr-2" />
+            파일 목록으로 돌아가기
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  const totalRows = workspace.datasets.reduce((sum, dataset) => sum + dataset.rowCount, 0);
+
+  return (
+    <div className="min-h-screen bg-beige-100">
+      {/* Header */}
+      <header className="bg-beige-50 border-b border-beige-300 shadow-soft">
+        <div className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8">
+          <div className="flex items-center justify-between h-16">
+            <div className="flex items-center space-x-4">
+              <button
+                onClick={() => router.push('/')}
+                className="inline-flex items-center px-3 py-2 text-sm font-medium text-gray-700 hover:text-primary-600 hover:bg-beige-50 rounded-lg transition-all duration-200"
+              >
+                <ArrowLeft className="w-4 h-4 mr-2" />
+                파일 목록
+              </button>
+
+              <div className="h-6 w-px bg-beige-300"></div>
+
+              <div className="flex items-center space-x-3">
+                <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center shadow-medium">
+                  <Layers className="w-5 h-5 text-white" />
+                </div>
+                <div>
+                  <h1 className="text-lg font-bold text-gray-900">{workspace.name}</h1>
+                  <div className="flex items-center space-x-4 text-sm text-gray-500">
+                    <span className="flex items-center">
+                      <Layers className="w-3 h-3 mr-1" />
+                      데이터셋 {workspace.datasets.length}개
+                    </span>
+                    <span className="flex items-center">
+                      <Users className="w-3 h-3 mr-1" />
+                      {totalRows.toLocaleString()}행
+                    </span>
+                  </div>
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2 text-sm">
+              <button
+                onClick={() => setIsRelationshipEditorOpen(true)}
+                className="inline-flex items-center px-3 py-1.5 text-gray-700 hover:text-primary-600 hover:bg-beige-50 rounded-lg transition-all duration-200"
+              >
+                <Link2 className="w-4 h-4 mr-1" />
+                조인 키 {workspace.relationships.length > 0 && `(${workspace.relationships.length})`}
+              </button>
+              <div className="flex items-center px-3 py-1.5 bg-gradient-to-r from-primary-100 to-primary-200 text-primary-700 rounded-full">
+                <Sparkles className="w-4 h-4 mr-1" />
+                AI 분석 모드
+              </div>
+            </div>
+          </div>
+        </div>
+      </header>
+
+      {/* Main Content */}
+      <main className="max-w-6xl mx-auto px-4 sm:px-6 lg:px-8 py-6">
+        <div className="bg-beige-50 rounded-2xl shadow-card border border-beige-200 overflow-hidden h-[calc(100vh-8rem)]">
+          {/* Chat Header */}
+          <div className="bg-gradient-to-r from-primary-50 to-primary-100 px-6 py-4 border-b border-primary-200">
+            <div className="flex items-center space-x-3">
+              <div className="w-8 h-8 bg-gradient-to-br from-primary-500 to-primary-600 rounded-lg flex items-center justify-center">
+                <MessageSquare className="w-4 h-4 text-white" />
+              </div>
+              <div>
+                <h2 className="text-lg font-semibold text-primary-900">AI 데이터 분석</h2>
+                <p className="text-sm text-primary-700">
+                  {workspace.datasets.map(dataset => dataset.name).join(', ') || '워크스페이스에 데이터셋을 추가해주세요'}
+                </p>
+              </div>
+            </div>
+          </div>
+
+          {/* Chat Interface */}
+          <div className="h-full">
+            <ChatInterface workspaceId={id} fileName={workspace.name} />
+          </div>
+        </div>
+      </main>
+
+      <RelationshipEditor
+        isOpen={isRelationshipEditorOpen}
+        workspace={workspace}
+        onClose={() => setIsRelationshipEditorOpen(false)}
+        onChanged={() => setReloadKey(key => key + 1)}
+      />
+    </div>
+  );
+}
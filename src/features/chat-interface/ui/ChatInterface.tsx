@@ -7,8 +7,10 @@ import { cn } from '@/shared/lib/utils';
 import ReactMarkdown from 'react-markdown';
 import remarkGfm from 'remark-gfm';
 
+// fileId: 데이터셋 하나, workspaceId: 워크스페이스의 모든 데이터셋을 함께 분석
 interface ChatInterfaceProps {
-  fileId: string;
+  fileId?: string;
+  workspaceId?: string;
   fileName: string;
 }
 
@@ -176,7 +178,8 @@ function MarkdownRenderer({ content, showCopyButton = false }: { content: string
   );
 }
 
-export function ChatInterface({ fileId }: ChatInterfaceProps) {
+export function ChatInterface({ fileId, workspaceId }: ChatInterfaceProps) {
+  const historyQuery = workspaceId ? `workspaceId=${workspaceId}` : `fileId=${fileId}`;
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [input, setInput] = useState('');
   const [isLoading, setIsLoading] = useState(false);
@@ -200,7 +203,7 @@ export function ChatInterface({ fileId }: ChatInterfaceProps) {
 
   const loadChatHistory = useCallback(async () => {
     try {
-      const response = await fetch(`/api/chat/history?fileId=${fileId}&page=1&limit=10`);
+      const response = await fetch(`/api/chat/history?${historyQuery}&page=1&limit=10`);
       if (!response.ok) {
         throw new Error('히스토리 로드 실패');
       }
@@ -241,7 +244,7 @@ export function ChatInterface({ fileId }: ChatInterfaceProps) {
       setHasMoreHistory(false);
       setCurrentPage(1);
     }
-  }, [fileId]);
+  }, [historyQuery]);
 
   const loadMoreHistory = useCallback(async () => {
     if (!hasMoreHistory || isLoadingHistory) return;
@@ -249,7 +252,7 @@ export function ChatInterface({ fileId }: ChatInterfaceProps) {
     setIsLoadingHistory(true);
     try {
       const nextPage = currentPage + 1;
-      const response = await fetch(`/api/chat/history?fileId=${fileId}&page=${nextPage}&limit=10`);
+      const response = await fetch(`/api/chat/history?${historyQuery}&page=${nextPage}&limit=10`);
       if (!response.ok) {
         throw new Error('추가 히스토리 로드 실패');
       }
@@ -289,7 +292,7 @@ export function ChatInterface({ fileId }: ChatInterfaceProps) {
     } finally {
       setIsLoadingHistory(false);
     }
-  }, [fileId, hasMoreHistory, isLoadingHistory, currentPage]);
+  }, [historyQuery, hasMoreHistory, isLoadingHistory, currentPage]);
 
   useEffect(() => {
     scrollToBottom();
@@ -350,7 +353,7 @@ export function ChatInterface({ fileId }: ChatInterfaceProps) {
         },
         body: JSON.stringify({ 
           message: userMessage.content,
-          fileId: fileId
+          ...(workspaceId ? { workspaceId } : { fileId })
         }),
       });
 
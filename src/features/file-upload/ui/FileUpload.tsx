@@ -1,11 +1,38 @@
 'use client';
 
 import { useState, useCallback } from 'react';
+import { useRouter } from 'next/navigation';
 import { useDropzone } from 'react-dropzone';
-import { Upload, FileText, AlertCircle, CheckCircle, X } from 'lucide-react';
+import { Upload, FileText, AlertCircle, CheckCircle, X, Loader2 } from 'lucide-react';
+import {
+  DatasetUpdateJobResult,
+  DatasetUpdateMode,
+  IngestJob,
+  RejectionSummary,
+  SchemaOverrides,
+  SchemaReconciliation
+} from '@/types';
+import UploadPreview, { UploadPreviewData, UploadSettings } from './UploadPreview';
+import SchemaChanges from './SchemaChanges';
+import JobProgress from './JobProgress';
+
+// 기존 데이터셋에 추가/교체할 때의 대상
+export interface UploadTarget {
+  id: string;
+  name: string;
+}
+
+// 같은 내용으로 이미 만들어진 데이터셋 (중복 업로드 경고)
+interface DuplicateDataset {
+  id: string;
+  name: string;
+  displayName: string | null;
+  uploadedAt: string;
+}
 
 interface FileUploadProps {
   onUploadSuccess: () => void;
+  target?: UploadTarget;
 }
 
 interface UploadProgress {
@@ -18,7 +45,60 @@ interface UploadProgress {
   success: boolean;
 }
 
-export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
+// 업로드 요청 응답 (새 업로드와 기존 데이터셋 갱신 모두 가져오기 작업으로 처리됨)
+interface UploadResponse {
+  jobId: string;
+  job: IngestJob;
+}
+
+// 변환 실패 보고서 위치와 건수
+interface RejectionReport {
+  fileId: string;
+  version: number;
+  summary: RejectionSummary;
+}
+
+// 이벤트 스트림이 끊겼을 때 작업 상태를 다시 조회하는 간격
+const JOB_POLL_INTERVAL_MS = 1000;
+
+// 미리보기용으로 보낼 CSV/NDJSON 앞부분 크기 (Excel/JSON/Parquet은 파일 전체가 필요)
+const PREVIEW_BYTES = 2 * 1024 * 1024;
+
+// 업로드/미리보기 요청 쿼리 문자열 생성
+function buildUploadQuery(fileName: string, settings: UploadSettings, schema?: SchemaOverrides): string {
+  const params = new URLSearchParams({ fileName });
+  if (settings.encoding) params.set('encoding', settings.encoding);
+  if (settings.delimiter) params.set('delimiter', settings.delimiter);
+  if (settings.headerRow !== undefined) params.set('headerRow', String(settings.headerRow));
+  if (settings.hasHeader !== undefined) params.set('hasHeader', String(settings.hasHeader));
+  if (settings.nested) params.set('nested', settings.nested);
+  if (schema && Object.keys(schema).length > 0) params.set('schema', JSON.stringify(schema));
+  return params.toString();
+}
+
+// 앞부분만으로는 해석할 수 없는 형식 (압축/문서 단위 포맷)
+function requiresWholeFile(fileName: string): boolean {
+  const lowerName = fileName.toLowerCase();
+  return ['.xlsx', '.xls', '.json', '.parquet'].some(ext => lowerName.endsWith(ext));
+}
+
+export default function FileUpload({ onUploadSuccess, target }: FileUploadProps) {
+  const [pendingFile, setPendingFile] = useState<File | null>(null);
+  const [settings, setSettings] = useState<UploadSettings>({});
+  const [preview, setPreview] = useState<UploadPreviewData | null>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+  const [mode, setMode] = useState<DatasetUpdateMode>('append');
+  const [schema, setSchema] = useState<SchemaOverrides>({});
+  // 기존 데이터셋 대상 업로드의 컬럼 대조 결과 (충돌 확인 또는 완료 후 표시)
+  const [changes, setChanges] = useState<SchemaReconciliation[] | null>(null);
+  const [requiresConfirmation, setRequiresConfirmation] = useState(false);
+  const [duplicate, setDuplicate] = useState<DuplicateDataset | null>(null);
+  // 서버에서 진행 중인 가져오기 작업 (새 업로드는 전송 후 백그라운드에서 처리됨)
+  const [job, setJob] = useState<IngestJob | null>(null);
+  // 타입 변환에 실패한 값 건수와 보고서 위치
+  const [rejections, setRejections] = useState<RejectionReport | null>(null);
+  const router = useRouter();
+
   const [uploadProgress, setUploadProgress] = useState<UploadProgress>({
     isUploading: false,
     progress: 0,
@@ -36,11 +116,9 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
     return Math.round(bytes / Math.pow(1024, i) * 100) / 100 + ' ' + sizes[i];
   };
 
-  const uploadFileWithProgress = (file: File): Promise<void> => {
+  // 전송이 끝나면 서버 응답을 돌려줌 (새 업로드는 가져오기 작업 ID, 기존 데이터셋 갱신은 반영 결과)
+  const uploadFileWithProgress = (file: File, query: string): Promise<UploadResponse> => {
     return new Promise((resolve, reject) => {
-      const formData = new FormData();
-      formData.append('file', file);
-
       const xhr = new XMLHttpRequest();
 
       // 업로드 진행률 추적
@@ -59,19 +137,18 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
       xhr.addEventListener('load', () => {
                  if (xhr.status >= 200 && xhr.status < 300) {
            try {
-             const _response = JSON.parse(xhr.responseText);
-             setUploadProgress(prev => ({
-               ...prev,
-               success: true,
-               progress: 100
-             }));
-             resolve();
+             const response = JSON.parse(xhr.responseText);
+             setJob(response.job);
+             resolve(response);
            } catch {
              reject(new Error('응답 파싱 실패'));
            }
         } else {
           try {
             const errorResponse = JSON.parse(xhr.responseText);
+            if (errorResponse.duplicate) {
+              setDuplicate(errorResponse.duplicate);
+            }
             reject(new Error(errorResponse.error || '업로드 실패'));
           } catch {
             reject(new Error(`업로드 실패: ${xhr.status}`));
@@ -89,16 +166,127 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
         reject(new Error('업로드가 중단되었습니다.'));
       });
 
-      xhr.open('POST', '/api/files/upload');
-      xhr.send(formData);
+      // 서버가 스트리밍으로 처리할 수 있도록 파일 원본을 그대로 전송
+      xhr.open('POST', target ? `/api/files/${target.id}/upload?${query}` : `/api/files/upload?${query}`);
+      xhr.setRequestHeader('Content-Type', file.type || 'application/octet-stream');
+      xhr.send(file);
     });
   };
 
+  // 가져오기 작업이 끝날 때까지 진행 상태 수신 (SSE, 연결이 끊기면 폴링)
+  const followJob = (jobId: string): Promise<IngestJob> => {
+    return new Promise((resolve, reject) => {
+      const handleJob = (nextJob: IngestJob): boolean => {
+        setJob(nextJob);
+        if (nextJob.status === 'done') {
+          resolve(nextJob);
+          return true;
+        }
+        if (nextJob.status === 'failed') {
+          // 기존 데이터셋 갱신 중 타입 충돌이 있으면 대조 결과를 보여주고 확인을 받음
+          const updateResult = nextJob.result as DatasetUpdateJobResult | null;
+          if (updateResult?.requiresConfirmation) {
+            setChanges(updateResult.changes);
+            setRequiresConfirmation(true);
+          }
+          reject(new Error(nextJob.error || '가져오기에 실패했습니다.'));
+          return true;
+        }
+        return false;
+      };
+
+      const poll = async () => {
+        try {
+          const response = await fetch(`/api/jobs/${jobId}`);
+          const data = await response.json();
+          if (!response.ok) {
+            throw new Error(data.error || '작업 상태 조회 실패');
+          }
+          if (!handleJob(data.job)) {
+            setTimeout(poll, JOB_POLL_INTERVAL_MS);
+          }
+        } catch (error) {
+          reject(error);
+        }
+      };
+
+      const events = new EventSource(`/api/jobs/${jobId}/events`);
+      let finished = false;
+      events.onmessage = (event) => {
+        const data = JSON.parse(event.data);
+        if (data.type === 'error') {
+          finished = true;
+          events.close();
+          reject(new Error(data.content));
+        } else if (data.type === 'job' && handleJob(data.job)) {
+          finished = true;
+          events.close();
+        }
+      };
+      events.onerror = () => {
+        events.close();
+        if (!finished) {
+          finished = true;
+          poll();
+        }
+      };
+    });
+  };
+
+  // 저장하지 않고 감지/추론 결과만 받아오기
+  const loadPreview = useCallback(async (file: File, nextSettings: UploadSettings) => {
+    setIsPreviewing(true);
+    try {
+      const truncated = !requiresWholeFile(file.name) && file.size > PREVIEW_BYTES;
+      const body = truncated ? file.slice(0, PREVIEW_BYTES) : file;
+      const query = buildUploadQuery(file.name, nextSettings) + (truncated ? '&truncated=true' : '');
+
+      const response = await fetch(`/api/files/upload/preview?${query}`, {
+        method: 'POST',
+        headers: { 'Content-Type': file.type || 'application/octet-stream' },
+        body
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '미리보기 실패');
+      }
+
+      setSettings(nextSettings);
+      setPreview(data);
+    } catch (error) {
+      console.error('미리보기 실패:', error);
+      setPreview(null);
+      setUploadProgress(prev => ({
+        ...prev,
+        fileName: file.name,
+        fileSize: file.size,
+        error: error instanceof Error ? error.message : '미리보기 중 오류가 발생했습니다.'
+      }));
+    } finally {
+      setIsPreviewing(false);
+    }
+  }, []);
+
   const onDrop = useCallback(async (acceptedFiles: File[]) => {
     if (acceptedFiles.length === 0) return;
 
     const file = acceptedFiles[0];
-    
+    setPendingFile(file);
+    setPreview(null);
+    await loadPreview(file, {});
+  }, [loadPreview]);
+
+  // 미리보기 확인 후 실제 업로드 (confirmed: 타입 충돌을 확인하고 진행, allowDuplicate: 중복 경고를 무시하고 진행)
+  const handleConfirm = async (nextSchema: SchemaOverrides, confirmed = false, allowDuplicate = false) => {
+    if (!pendingFile) return;
+    const file = pendingFile;
+    setSchema(nextSchema);
+    setChanges(null);
+    setRequiresConfirmation(false);
+    setDuplicate(null);
+    setJob(null);
+    setRejections(null);
+
     // 초기 상태 설정
     setUploadProgress({
       isUploading: true,
@@ -111,12 +299,38 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
     });
 
     try {
-      await uploadFileWithProgress(file);
-      
-      // 성공 후 잠시 대기
+      let query = buildUploadQuery(file.name, settings, nextSchema);
+      if (target) {
+        query += `&mode=${mode}${confirmed ? '&confirm=true' : ''}`;
+      } else if (allowDuplicate) {
+        query += '&allowDuplicate=true';
+      }
+      const response = await uploadFileWithProgress(file, query);
+      const finishedJob = await followJob(response.jobId);
+      let rejectionReport: RejectionReport | null = null;
+      if (finishedJob.result && 'changes' in finishedJob.result) {
+        // 기존 데이터셋 갱신의 변환 실패는 새로 반영된 버전에 기록됨
+        const { changes: updateChanges, version, rejections: summary } = finishedJob.result;
+        setChanges(updateChanges);
+        if (version && summary) {
+          rejectionReport = { fileId: finishedJob.fileId, version, summary };
+        }
+      } else if (finishedJob.result) {
+        // 새 데이터셋의 변환 실패는 첫 번째 버전에 기록됨
+        rejectionReport = { fileId: finishedJob.result.file.id, version: 1, summary: finishedJob.result.rejections };
+      }
+      setUploadProgress(prev => ({ ...prev, success: true, progress: 100 }));
+
+      // 변환에 실패한 값이 있으면 보고서를 확인할 수 있도록 자동으로 닫지 않음
+      if (rejectionReport && rejectionReport.summary.count > 0) {
+        setRejections(rejectionReport);
+        return;
+      }
+
+      // 성공 후 잠시 대기 (기존 데이터셋 갱신은 대조 결과를 확인할 수 있게 더 오래 표시)
       setTimeout(() => {
         onUploadSuccess();
-      }, 1500);
+      }, target ? 4000 : 1500);
 
     } catch (error) {
       console.error('업로드 실패:', error);
@@ -126,9 +340,18 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
         error: error instanceof Error ? error.message : '업로드 중 오류가 발생했습니다.'
       }));
     }
-  }, [onUploadSuccess]);
+  };
 
   const resetUpload = () => {
+    setPendingFile(null);
+    setPreview(null);
+    setSettings({});
+    setSchema({});
+    setChanges(null);
+    setRequiresConfirmation(false);
+    setDuplicate(null);
+    setJob(null);
+    setRejections(null);
     setUploadProgress({
       isUploading: false,
       progress: 0,
@@ -144,14 +367,64 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
     onDrop,
     accept: {
       'text/csv': ['.csv'],
+      'text/tab-separated-values': ['.tsv'],
+      'text/plain': ['.txt'],
       'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': ['.xlsx'],
-      'application/vnd.ms-excel': ['.xls']
+      'application/vnd.ms-excel': ['.xls'],
+      'application/json': ['.json'],
+      'application/x-ndjson': ['.ndjson', '.jsonl'],
+      'application/vnd.apache.parquet': ['.parquet']
     },
     maxFiles: 1,
     maxSize: 500 * 1024 * 1024, // 500MB
-    disabled: uploadProgress.isUploading
+    disabled: uploadProgress.isUploading || isPreviewing
   });
 
+  // 미리보기 분석 중
+  if (isPreviewing && !preview) {
+    return (
+      <div className="w-full">
+        <div className="bg-white rounded-xl border border-beige-200 p-8 shadow-soft flex items-center justify-center space-x-3">
+          <Loader2 className="w-5 h-5 text-primary-600 animate-spin" />
+          <span className="text-sm text-gray-600">파일 구조를 분석하고 있습니다...</span>
+        </div>
+      </div>
+    );
+  }
+
+  // 업로드 전 스키마 확인 화면
+  if (preview && pendingFile && !uploadProgress.isUploading && !uploadProgress.success && !uploadProgress.error) {
+    return (
+      <div className="space-y-4">
+        {target && (
+          <div className="bg-white rounded-xl border border-beige-200 p-4 shadow-soft">
+            <p className="text-sm text-gray-700 mb-3">
+              <span className="font-medium text-gray-900">{target.name}</span> 데이터셋에 반영합니다. 채팅 기록과 제목은 유지됩니다.
+            </p>
+            <div className="flex space-x-4 text-sm">
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input type="radio" checked={mode === 'append'} onChange={() => setMode('append')} />
+                <span>기존 데이터 뒤에 행 추가</span>
+              </label>
+              <label className="flex items-center space-x-2 cursor-pointer">
+                <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} />
+                <span>기존 데이터를 새 파일로 교체</span>
+              </label>
+            </div>
+          </div>
+        )}
+        <UploadPreview
+          preview={preview}
+          settings={settings}
+          isRefreshing={isPreviewing}
+          onRefresh={(nextSettings) => loadPreview(pendingFile, nextSettings)}
+          onConfirm={(nextSchema) => handleConfirm(nextSchema)}
+          onCancel={resetUpload}
+        />
+      </div>
+    );
+  }
+
   // 업로드 중이거나 완료된 경우 프로그레스 모달 표시
   if (uploadProgress.isUploading || uploadProgress.success || uploadProgress.error) {
     return (
@@ -196,8 +469,11 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
               </div>
             </div>
 
+            {/* 서버 가져오기 작업 진행 상태 */}
+            {!uploadProgress.error && job && <JobProgress job={job} />}
+
             {/* 프로그레스바 */}
-            {!uploadProgress.error && (
+            {!uploadProgress.error && !job && (
               <div className="space-y-2">
                 <div className="flex justify-between text-sm">
                   <span className="text-gray-600">
@@ -225,11 +501,93 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
               </div>
             )}
 
+            {/* 기존 데이터셋과의 컬럼 대조 결과 */}
+            {changes && (uploadProgress.success || requiresConfirmation) && (
+              <div className="p-3 bg-beige-50 border border-beige-200 rounded-lg">
+                <SchemaChanges changes={changes} showSheetName={changes.length > 1} />
+              </div>
+            )}
+
+            {requiresConfirmation && (
+              <div className="flex justify-end space-x-2">
+                <button
+                  onClick={resetUpload}
+                  className="px-4 py-2 text-sm text-gray-600 hover:bg-beige-100 rounded-lg transition-colors"
+                >
+                  취소
+                </button>
+                <button
+                  onClick={() => handleConfirm(schema, true)}
+                  className="px-4 py-2 text-sm font-medium text-white bg-primary-700 hover:bg-primary-800 rounded-lg transition-colors"
+                >
+                  타입을 변경하고 계속
+                </button>
+              </div>
+            )}
+
+            {/* 같은 내용의 기존 데이터셋 */}
+            {duplicate && (
+              <div className="space-y-3">
+                <div className="p-3 bg-beige-50 border border-beige-200 rounded-lg text-sm text-gray-700">
+                  <p>
+                    <span className="font-medium">{duplicate.displayName || duplicate.name}</span>
+                    {' '}({new Date(duplicate.uploadedAt).toLocaleDateString('ko-KR')} 업로드)과 내용이 같습니다.
+                  </p>
+                  <button
+                    onClick={() => router.push(`/chat/${duplicate.id}`)}
+                    className="mt-1 text-primary-700 font-medium hover:underline"
+                  >
+                    기존 데이터셋 열기
+                  </button>
+                </div>
+                <div className="flex justify-end space-x-2">
+                  <button
+                    onClick={resetUpload}
+                    className="px-4 py-2 text-sm text-gray-600 hover:bg-beige-100 rounded-lg transition-colors"
+                  >
+                    취소
+                  </button>
+                  <button
+                    onClick={() => handleConfirm(schema, false, true)}
+                    className="px-4 py-2 text-sm font-medium text-white bg-primary-700 hover:bg-primary-800 rounded-lg transition-colors"
+                  >
+                    그래도 새로 업로드
+                  </button>
+                </div>
+              </div>
+            )}
+
+            {/* 변환 실패 보고서 */}
+            {uploadProgress.success && rejections && (
+              <div className="p-3 bg-warning-50 border border-warning-200 rounded-lg space-y-2">
+                <p className="text-sm text-warning-700">
+                  {rejections.summary.rows.toLocaleString()}개 행에서 {rejections.summary.count.toLocaleString()}개 값을
+                  지정된 타입으로 변환하지 못했습니다. 해당 값은 NULL 또는 원본 텍스트로 저장되었습니다.
+                </p>
+                <div className="flex space-x-2">
+                  <a
+                    href={`/api/files/${rejections.fileId}/rejections?version=${rejections.version}&format=csv`}
+                    className="px-3 py-1.5 text-sm bg-white border border-warning-300 text-warning-700 rounded-lg hover:bg-warning-100 transition-colors"
+                  >
+                    보고서 내려받기 (CSV)
+                  </a>
+                  <button
+                    onClick={onUploadSuccess}
+                    className="px-3 py-1.5 text-sm bg-primary-600 text-white rounded-lg hover:bg-primary-700 transition-colors"
+                  >
+                    확인
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* 성공 메시지 */}
-            {uploadProgress.success && (
+            {uploadProgress.success && !rejections && (
               <div className="p-3 bg-success-50 border border-success-200 rounded-lg">
                 <p className="text-sm text-success-700">
-                  파일이 성공적으로 업로드되었습니다. 잠시 후 자동으로 닫힙니다.
+                  {target
+                    ? `${mode === 'append' ? '행이 추가' : '데이터가 교체'}되었습니다. 잠시 후 자동으로 닫힙니다.`
+                    : '파일이 성공적으로 업로드되었습니다. 잠시 후 자동으로 닫힙니다.'}
                 </p>
               </div>
             )}
@@ -263,7 +621,7 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
               {isDragActive ? '파일을 여기에 놓으세요' : '파일을 드래그하거나 클릭하여 선택'}
             </h3>
             <p className="text-sm text-gray-500">
-              CSV, Excel 파일 지원 (최대 500MB)
+              CSV, TSV, Excel, JSON, Parquet 파일 지원 (최대 500MB)
             </p>
           </div>
           <div className="flex items-center space-x-4 text-xs text-gray-400">
@@ -271,6 +629,10 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
               <FileText className="w-4 h-4" />
               <span>.csv</span>
             </div>
+            <div className="flex items-center space-x-1">
+              <FileText className="w-4 h-4" />
+              <span>.tsv</span>
+            </div>
             <div className="flex items-center space-x-1">
               <FileText className="w-4 h-4" />
               <span>.xlsx</span>
@@ -279,6 +641,18 @@ export default function FileUpload({ onUploadSuccess }: FileUploadProps) {
               <FileText className="w-4 h-4" />
               <span>.xls</span>
             </div>
+            <div className="flex items-center space-x-1">
+              <FileText className="w-4 h-4" />
+              <span>.json</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <FileText className="w-4 h-4" />
+              <span>.ndjson</span>
+            </div>
+            <div className="flex items-center space-x-1">
+              <FileText className="w-4 h-4" />
+              <span>.parquet</span>
+            </div>
           </div>
         </div>
       </div>
@@ -0,0 +1,42 @@
+'use client';
+
+import { IngestJob, IngestJobStatus } from '@/types';
+
+interface JobProgressProps {
+  job: IngestJob;
+}
+
+const STATUS_LABELS: Record<IngestJobStatus, string> = {
+  queued: '대기 중',
+  parsing: '파일 읽는 중',
+  inserting: '타입 변환 및 저장 중',
+  done: '완료',
+  failed: '실패'
+};
+
+// 서버에서 진행 중인 가져오기 작업의 단계와 진행률
+export default function JobProgress({ job }: JobProgressProps) {
+  const progress = job.status === 'done'
+    ? 100
+    : job.totalBytes > 0 ? Math.min(99, Math.round((job.bytesProcessed / job.totalBytes) * 100)) : 0;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex justify-between text-sm">
+        <span className="text-gray-600">
+          {STATUS_LABELS[job.status]}
+          {job.rowsProcessed > 0 && ` · ${job.rowsProcessed.toLocaleString()}개 행`}
+        </span>
+        <span className="text-gray-900 font-medium">{progress}%</span>
+      </div>
+      <div className="w-full bg-gray-200 rounded-full h-2">
+        <div
+          className={`h-2 rounded-full transition-all duration-300 ${
+            job.status === 'failed' ? 'bg-error-500' : job.status === 'done' ? 'bg-success-500' : 'bg-primary-500'
+          } ${job.status === 'inserting' ? 'animate-pulse' : ''}`}
+          style={{ width: `${progress}%` }}
+        />
+      </div>
+    </div>
+  );
+}
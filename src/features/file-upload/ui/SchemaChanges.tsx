@@ -0,0 +1,51 @@
+'use client';
+
+import { SchemaReconciliation } from '@/types';
+
+interface SchemaChangesProps {
+  changes: SchemaReconciliation[];
+  showSheetName: boolean;
+}
+
+// 기존 데이터셋과 새 파일의 컬럼 대조 결과 (추가/누락/타입 충돌)
+export default function SchemaChanges({ changes, showSheetName }: SchemaChangesProps) {
+  const hasChanges = changes.some(change =>
+    change.added.length > 0 || change.missing.length > 0 || change.conflicts.length > 0
+  );
+
+  if (!hasChanges) {
+    return <p className="text-sm text-gray-600">기존 데이터와 컬럼 구성이 같습니다.</p>;
+  }
+
+  return (
+    <div className="space-y-3">
+      {changes.map(change => (
+        <div key={change.tableName} className="space-y-1 text-sm">
+          {showSheetName && <p className="font-medium text-gray-900">{change.sheet}</p>}
+          {change.added.length > 0 && (
+            <p className="text-gray-700">
+              <span className="font-medium text-success-700">추가된 컬럼:</span>{' '}
+              {change.added.map(col => col.original).join(', ')}
+            </p>
+          )}
+          {change.missing.length > 0 && (
+            <p className="text-gray-700">
+              <span className="font-medium text-warning-700">새 파일에 없는 컬럼:</span>{' '}
+              {change.missing.map(col => col.original).join(', ')}
+            </p>
+          )}
+          {change.conflicts.length > 0 && (
+            <ul className="text-gray-700 space-y-0.5">
+              {change.conflicts.map(conflict => (
+                <li key={conflict.column}>
+                  <span className="font-medium text-error-700">타입 충돌:</span>{' '}
+                  {conflict.original} ({conflict.existingType} → {conflict.incomingType}, 진행 시 {conflict.resolvedType})
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,367 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RefreshCw, Table, ArrowLeft, Upload } from 'lucide-react';
+import { COLUMN_TYPES, ColumnOverride, ColumnType, NestedMode, SchemaOverrides, SheetPreview } from '@/types';
+
+// CSV 해석 방식 지정값 (비어 있으면 자동 감지), nested는 JSON/Parquet 중첩 값 저장 방식
+export interface UploadSettings {
+  encoding?: string;
+  delimiter?: string;
+  headerRow?: number;
+  hasHeader?: boolean;
+  nested?: NestedMode;
+}
+
+export interface UploadPreviewData {
+  fileName: string;
+  format: 'csv' | 'excel' | 'json' | 'ndjson' | 'parquet';
+  dialect?: {
+    encoding: string;
+    delimiter: string;
+    quote: string;
+    headerRow: number;
+    hasHeader: boolean;
+  };
+  sheets: SheetPreview[];
+}
+
+interface UploadPreviewProps {
+  preview: UploadPreviewData;
+  settings: UploadSettings;
+  isRefreshing: boolean;
+  onRefresh: (settings: UploadSettings) => void;
+  onConfirm: (schema: SchemaOverrides) => void;
+  onCancel: () => void;
+}
+
+interface ColumnEdit {
+  name: string;
+  type: ColumnType;
+  drop: boolean;
+}
+
+const ENCODING_OPTIONS = ['utf-8', 'cp949', 'euc-kr', 'utf-16le', 'shift_jis', 'latin1'];
+const DELIMITER_OPTIONS: { value: string; label: string }[] = [
+  { value: ',', label: '쉼표 (,)' },
+  { value: ';', label: '세미콜론 (;)' },
+  { value: 'tab', label: '탭' },
+  { value: '|', label: '파이프 (|)' }
+];
+
+export const TYPE_LABELS: Record<ColumnType, string> = {
+  BOOLEAN: '참/거짓',
+  INTEGER: '정수',
+  REAL: '실수',
+  DATE: '날짜',
+  TEXT: '텍스트'
+};
+
+function createEdits(sheets: SheetPreview[]): Record<string, Record<string, ColumnEdit>> {
+  const edits: Record<string, Record<string, ColumnEdit>> = {};
+  sheets.forEach(sheet => {
+    edits[sheet.name] = {};
+    sheet.columns.forEach(col => {
+      edits[sheet.name][col.original] = { name: col.name, type: col.type, drop: false };
+    });
+  });
+  return edits;
+}
+
+function formatCell(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  return String(value);
+}
+
+export default function UploadPreview({
+  preview,
+  settings,
+  isRefreshing,
+  onRefresh,
+  onConfirm,
+  onCancel
+}: UploadPreviewProps) {
+  const [activeSheet, setActiveSheet] = useState(preview.sheets[0]?.name || '');
+  const [edits, setEdits] = useState(() => createEdits(preview.sheets));
+  const [draftSettings, setDraftSettings] = useState<UploadSettings>(settings);
+
+  // 다시 분석한 결과가 오면 컬럼 편집 상태 초기화
+  useEffect(() => {
+    setEdits(createEdits(preview.sheets));
+    setActiveSheet(current =>
+      preview.sheets.some(sheet => sheet.name === current) ? current : preview.sheets[0]?.name || ''
+    );
+  }, [preview]);
+
+  const sheet = preview.sheets.find(s => s.name === activeSheet) || preview.sheets[0];
+  const sheetEdits = (sheet && edits[sheet.name]) || {};
+  const keptColumns = sheet ? sheet.columns.filter(col => !sheetEdits[col.original]?.drop) : [];
+
+  const updateColumn = (original: string, change: Partial<ColumnEdit>) => {
+    if (!sheet) return;
+    setEdits(prev => ({
+      ...prev,
+      [sheet.name]: {
+        ...prev[sheet.name],
+        [original]: { ...prev[sheet.name][original], ...change }
+      }
+    }));
+  };
+
+  // 추론 결과와 달라진 항목만 전송
+  const handleConfirm = () => {
+    const schema: SchemaOverrides = {};
+    preview.sheets.forEach(s => {
+      const overrides: ColumnOverride[] = [];
+      s.columns.forEach(col => {
+        const edit = edits[s.name]?.[col.original];
+        if (!edit) return;
+        const override: ColumnOverride = { original: col.original };
+        if (edit.drop) override.drop = true;
+        if (edit.name.trim() && edit.name.trim() !== col.name) override.name = edit.name.trim();
+        if (edit.type !== col.type) override.type = edit.type;
+        if (Object.keys(override).length > 1) overrides.push(override);
+      });
+      if (overrides.length > 0) schema[s.name] = overrides;
+    });
+    onConfirm(schema);
+  };
+
+  const hasAnyColumn = preview.sheets.some(s =>
+    s.columns.some(col => !edits[s.name]?.[col.original]?.drop)
+  );
+
+  return (
+    <div className="w-full space-y-5">
+      {/* 파일 해석 설정 */}
+      <div className="bg-beige-50 rounded-xl border border-beige-200 p-4">
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">{preview.fileName}</h3>
+            {preview.dialect && (
+              <p className="text-xs text-gray-500">
+                감지된 인코딩: {preview.dialect.encoding} · 구분자: {preview.dialect.delimiter === '\t' ? '탭' : preview.dialect.delimiter}
+              </p>
+            )}
+          </div>
+          <button
+            onClick={() => onRefresh(draftSettings)}
+            disabled={isRefreshing}
+            className="inline-flex items-center px-3 py-1.5 text-xs font-medium text-primary-700 bg-white border border-primary-300 rounded-lg hover:bg-primary-50 disabled:opacity-50 transition-colors"
+          >
+            <RefreshCw className={`w-3 h-3 mr-1 ${isRefreshing ? 'animate-spin' : ''}`} />
+            다시 분석
+          </button>
+        </div>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-xs">
+          {preview.format === 'csv' && (
+            <>
+              <label className="flex flex-col space-y-1">
+                <span className="text-gray-600">인코딩</span>
+                <select
+                  value={draftSettings.encoding || ''}
+                  onChange={(e) => setDraftSettings(prev => ({ ...prev, encoding: e.target.value || undefined }))}
+                  className="px-2 py-1.5 border border-beige-200 rounded-lg bg-white"
+                >
+                  <option value="">자동 감지</option>
+                  {ENCODING_OPTIONS.map(encoding => (
+                    <option key={encoding} value={encoding}>{encoding}</option>
+                  ))}
+                </select>
+              </label>
+              <label className="flex flex-col space-y-1">
+                <span className="text-gray-600">구분자</span>
+                <select
+                  value={draftSettings.delimiter || ''}
+                  onChange={(e) => setDraftSettings(prev => ({ ...prev, delimiter: e.target.value || undefined }))}
+                  className="px-2 py-1.5 border border-beige-200 rounded-lg bg-white"
+                >
+                  <option value="">자동 감지</option>
+                  {DELIMITER_OPTIONS.map(option => (
+                    <option key={option.value} value={option.value}>{option.label}</option>
+                  ))}
+                </select>
+              </label>
+            </>
+          )}
+          {(preview.format === 'json' || preview.format === 'ndjson' || preview.format === 'parquet') && (
+            <label className="flex flex-col space-y-1">
+              <span className="text-gray-600">중첩 객체</span>
+              <select
+                value={draftSettings.nested || 'flatten'}
+                onChange={(e) => setDraftSettings(prev => ({ ...prev, nested: e.target.value as NestedMode }))}
+                className="px-2 py-1.5 border border-beige-200 rounded-lg bg-white"
+              >
+                <option value="flatten">컬럼으로 펼치기 (a.b)</option>
+                <option value="json">JSON 텍스트로 저장</option>
+              </select>
+            </label>
+          )}
+          {(preview.format === 'csv' || preview.format === 'excel') && (
+            <label className="flex flex-col space-y-1">
+              <span className="text-gray-600">헤더 행 (1부터)</span>
+              <input
+                type="number"
+                min={1}
+                value={draftSettings.headerRow !== undefined ? draftSettings.headerRow + 1 : ''}
+                placeholder={preview.dialect ? String(preview.dialect.headerRow + 1) : '1'}
+                onChange={(e) => setDraftSettings(prev => ({
+                  ...prev,
+                  headerRow: e.target.value ? Math.max(0, parseInt(e.target.value, 10) - 1) : undefined
+                }))}
+                className="px-2 py-1.5 border border-beige-200 rounded-lg bg-white"
+              />
+            </label>
+          )}
+          {preview.format === 'csv' && (
+            <label className="flex flex-col space-y-1">
+              <span className="text-gray-600">첫 행</span>
+              <select
+                value={draftSettings.hasHeader === undefined ? '' : String(draftSettings.hasHeader)}
+                onChange={(e) => setDraftSettings(prev => ({
+                  ...prev,
+                  hasHeader: e.target.value === '' ? undefined : e.target.value === 'true'
+                }))}
+                className="px-2 py-1.5 border border-beige-200 rounded-lg bg-white"
+              >
+                <option value="">자동 감지</option>
+                <option value="true">컬럼명</option>
+                <option value="false">데이터</option>
+              </select>
+            </label>
+          )}
+        </div>
+      </div>
+
+      {/* 시트 선택 */}
+      {preview.sheets.length > 1 && (
+        <div className="flex flex-wrap gap-2">
+          {preview.sheets.map(s => (
+            <button
+              key={s.name}
+              onClick={() => setActiveSheet(s.name)}
+              className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                s.name === sheet?.name
+                  ? 'bg-primary-700 text-white border-primary-800'
+                  : 'bg-white text-gray-600 border-beige-200 hover:bg-beige-50'
+              }`}
+            >
+              {s.name}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {sheet && (
+        <>
+          {/* 컬럼 설정 */}
+          <div className="max-h-56 overflow-y-auto border border-beige-200 rounded-xl">
+            <table className="w-full text-xs">
+              <thead className="bg-beige-100 text-gray-600 sticky top-0">
+                <tr>
+                  <th className="px-3 py-2 text-left w-12">포함</th>
+                  <th className="px-3 py-2 text-left">원본 컬럼</th>
+                  <th className="px-3 py-2 text-left">저장 이름</th>
+                  <th className="px-3 py-2 text-left">타입</th>
+                </tr>
+              </thead>
+              <tbody>
+                {sheet.columns.map(col => {
+                  const edit = sheetEdits[col.original];
+                  if (!edit) return null;
+                  return (
+                    <tr key={col.original} className={`border-t border-beige-100 ${edit.drop ? 'opacity-40' : ''}`}>
+                      <td className="px-3 py-1.5">
+                        <input
+                          type="checkbox"
+                          checked={!edit.drop}
+                          onChange={(e) => updateColumn(col.original, { drop: !e.target.checked })}
+                        />
+                      </td>
+                      <td className="px-3 py-1.5 text-gray-900 truncate max-w-[10rem]" title={col.original}>
+                        {col.original}
+                      </td>
+                      <td className="px-3 py-1.5">
+                        <input
+                          type="text"
+                          value={edit.name}
+                          disabled={edit.drop}
+                          onChange={(e) => updateColumn(col.original, { name: e.target.value })}
+                          className="w-full px-2 py-1 border border-beige-200 rounded bg-white"
+                        />
+                      </td>
+                      <td className="px-3 py-1.5">
+                        <select
+                          value={edit.type}
+                          disabled={edit.drop}
+                          onChange={(e) => updateColumn(col.original, { type: e.target.value as ColumnType })}
+                          className="px-2 py-1 border border-beige-200 rounded bg-white"
+                        >
+                          {COLUMN_TYPES.map(type => (
+                            <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                          ))}
+                        </select>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          {/* 데이터 미리보기 */}
+          <div>
+            <div className="flex items-center text-xs text-gray-500 mb-2">
+              <Table className="w-3 h-3 mr-1" />
+              앞부분 {sheet.rows.length}개 행 미리보기
+            </div>
+            <div className="max-h-56 overflow-auto border border-beige-200 rounded-xl">
+              <table className="w-full text-xs whitespace-nowrap">
+                <thead className="bg-beige-100 text-gray-600 sticky top-0">
+                  <tr>
+                    {keptColumns.map(col => (
+                      <th key={col.original} className="px-3 py-2 text-left">
+                        {sheetEdits[col.original]?.name || col.name}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {sheet.rows.map((row, index) => (
+                    <tr key={index} className="border-t border-beige-100">
+                      {keptColumns.map(col => (
+                        <td key={col.original} className="px-3 py-1.5 text-gray-800">
+                          {formatCell(row[col.name])}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        </>
+      )}
+
+      {/* 확인 버튼 */}
+      <div className="flex justify-end space-x-2">
+        <button
+          onClick={onCancel}
+          className="inline-flex items-center px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-beige-200 rounded-lg hover:bg-beige-50 transition-colors"
+        >
+          <ArrowLeft className="w-4 h-4 mr-1" />
+          다른 파일 선택
+        </button>
+        <button
+          onClick={handleConfirm}
+          disabled={isRefreshing || !hasAnyColumn}
+          className="inline-flex items-center px-4 py-2 text-sm font-semibold text-white bg-primary-700 rounded-lg hover:bg-primary-800 disabled:opacity-50 transition-colors border border-primary-800"
+        >
+          <Upload className="w-4 h-4 mr-1" />
+          이대로 업로드
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { X, Columns, Loader2 } from 'lucide-react';
+import { TYPE_LABELS } from '@/features/file-upload/ui/UploadPreview';
+import { COLUMN_TYPES, ColumnSchemaEdit, ColumnType, RejectionSummary, SheetSchema } from '@/types';
+
+interface SchemaEditorProps {
+  isOpen: boolean;
+  fileId: string;
+  onClose: () => void;
+  onSaved: () => void;
+}
+
+// 컬럼별 편집 상태 (column: 현재 저장 컬럼명)
+interface ColumnDraft {
+  column: string;
+  label: string;
+  name: string;
+  type: string;
+  drop: boolean;
+}
+
+// 적용 결과 (변환 실패 보고서 위치 포함)
+interface SaveResult {
+  version: number;
+  rejections: RejectionSummary;
+}
+
+function createDrafts(sheet: SheetSchema): ColumnDraft[] {
+  return sheet.columns.map(col => ({ column: col.name, label: col.label, name: col.name, type: col.type, drop: false }));
+}
+
+// 저장된 데이터셋의 컬럼 이름/표시 이름/타입 변경과 컬럼 삭제
+export function SchemaEditor({ isOpen, fileId, onClose, onSaved }: SchemaEditorProps) {
+  const [sheets, setSheets] = useState<SheetSchema[]>([]);
+  const [activeSheet, setActiveSheet] = useState('');
+  const [drafts, setDrafts] = useState<ColumnDraft[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [saved, setSaved] = useState<SaveResult | null>(null);
+
+  const fetchSchema = useCallback(async (sheetName?: string) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/files/${fileId}/schema`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '컬럼 구성 조회 실패');
+      }
+      const nextSheets: SheetSchema[] = data.sheets;
+      const sheet = nextSheets.find(s => s.name === sheetName) || nextSheets[0];
+      setSheets(nextSheets);
+      setActiveSheet(sheet?.name || '');
+      setDrafts(sheet ? createDrafts(sheet) : []);
+    } catch (fetchError) {
+      setError(fetchError instanceof Error ? fetchError.message : '컬럼 구성을 불러오지 못했습니다.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [fileId]);
+
+  useEffect(() => {
+    if (isOpen) {
+      setSaved(null);
+      fetchSchema();
+    }
+  }, [isOpen, fetchSchema]);
+
+  if (!isOpen) return null;
+
+  const sheet = sheets.find(s => s.name === activeSheet);
+
+  const selectSheet = (name: string) => {
+    const next = sheets.find(s => s.name === name);
+    if (!next) return;
+    setActiveSheet(name);
+    setDrafts(createDrafts(next));
+    setSaved(null);
+  };
+
+  const updateDraft = (column: string, change: Partial<ColumnDraft>) => {
+    setDrafts(prev => prev.map(draft => draft.column === column ? { ...draft, ...change } : draft));
+  };
+
+  // 현재 구성과 달라진 항목만 전송
+  const edits: ColumnSchemaEdit[] = sheet
+    ? drafts.flatMap(draft => {
+        const current = sheet.columns.find(col => col.name === draft.column);
+        if (!current) return [];
+        const edit: ColumnSchemaEdit = { column: draft.column };
+        if (draft.drop) edit.drop = true;
+        if (draft.name.trim() !== current.name) edit.name = draft.name.trim();
+        if (draft.label.trim() !== current.label) edit.label = draft.label.trim();
+        if (draft.type !== current.type) edit.type = draft.type as ColumnType;
+        return Object.keys(edit).length > 1 ? [edit] : [];
+      })
+    : [];
+
+  const handleSave = async () => {
+    if (!sheet || edits.length === 0) return;
+    if (edits.some(edit => edit.drop) && !confirm('삭제한 컬럼은 이전 버전으로 되돌려야만 복구할 수 있습니다. 계속하시겠습니까?')) return;
+
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/files/${fileId}/schema`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ sheet: sheet.name, edits }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '컬럼 수정 실패');
+      }
+      setSaved({ version: data.version, rejections: data.rejections });
+      onSaved();
+      await fetchSchema(sheet.name);
+    } catch (saveError) {
+      setError(saveError instanceof Error ? saveError.message : '컬럼 수정 중 오류가 발생했습니다.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50 backdrop-blur-md">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-3xl w-full transform transition-all duration-300 scale-100 animate-scale-in border border-beige-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-beige-300">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center">
+              <Columns className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">컬럼 편집</h3>
+              <p className="text-sm text-gray-500">변경 전 데이터는 이전 버전으로 보관됩니다</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-beige-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {isLoading && !sheet ? (
+            <div className="flex items-center justify-center py-8 text-gray-600">
+              <Loader2 className="w-5 h-5 mr-2 animate-spin" />
+              컬럼 구성을 불러오는 중...
+            </div>
+          ) : sheet && (
+            <>
+              {/* 시트 선택 */}
+              {sheets.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {sheets.map(s => (
+                    <button
+                      key={s.name}
+                      onClick={() => selectSheet(s.name)}
+                      className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                        s.name === sheet.name
+                          ? 'bg-primary-700 text-white border-primary-800'
+                          : 'bg-white text-gray-600 border-beige-200 hover:bg-beige-50'
+                      }`}
+                    >
+                      {s.name}
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* 컬럼 설정 */}
+              <div className="max-h-96 overflow-y-auto border border-beige-200 rounded-xl">
+                <table className="w-full text-xs">
+                  <thead className="bg-beige-100 text-gray-600 sticky top-0">
+                    <tr>
+                      <th className="px-3 py-2 text-left w-12">유지</th>
+                      <th className="px-3 py-2 text-left">표시 이름</th>
+                      <th className="px-3 py-2 text-left">저장 이름</th>
+                      <th className="px-3 py-2 text-left">타입</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {drafts.map(draft => (
+                      <tr key={draft.column} className={`border-t border-beige-100 ${draft.drop ? 'opacity-40' : ''}`}>
+                        <td className="px-3 py-1.5">
+                          <input
+                            type="checkbox"
+                            checked={!draft.drop}
+                            onChange={(e) => updateDraft(draft.column, { drop: !e.target.checked })}
+                          />
+                        </td>
+                        <td className="px-3 py-1.5">
+                          <input
+                            type="text"
+                            value={draft.label}
+                            disabled={draft.drop}
+                            onChange={(e) => updateDraft(draft.column, { label: e.target.value })}
+                            className="w-full px-2 py-1 border border-beige-200 rounded bg-white"
+                          />
+                        </td>
+                        <td className="px-3 py-1.5">
+                          <input
+                            type="text"
+                            value={draft.name}
+                            disabled={draft.drop}
+                            onChange={(e) => updateDraft(draft.column, { name: e.target.value })}
+                            className="w-full px-2 py-1 border border-beige-200 rounded bg-white"
+                          />
+                        </td>
+                        <td className="px-3 py-1.5">
+                          <select
+                            value={draft.type}
+                            disabled={draft.drop}
+                            onChange={(e) => updateDraft(draft.column, { type: e.target.value })}
+                            className="px-2 py-1 border border-beige-200 rounded bg-white"
+                          >
+                            {COLUMN_TYPES.map(type => (
+                              <option key={type} value={type}>{TYPE_LABELS[type]}</option>
+                            ))}
+                          </select>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+
+          {/* 오류 메시지 */}
+          {error && (
+            <div className="p-3 bg-error-50 border border-error-200 rounded-lg">
+              <p className="text-sm text-error-700">{error}</p>
+            </div>
+          )}
+
+          {/* 적용 결과 */}
+          {saved && (
+            <div className={`p-3 rounded-lg border ${
+              saved.rejections.count > 0 ? 'bg-warning-50 border-warning-200' : 'bg-success-50 border-success-200'
+            }`}>
+              <p className={`text-sm ${saved.rejections.count > 0 ? 'text-warning-700' : 'text-success-700'}`}>
+                버전 {saved.version}으로 저장되었습니다.
+                {saved.rejections.count > 0 && (
+                  <>
+                    {' '}{saved.rejections.rows.toLocaleString()}개 행에서 {saved.rejections.count.toLocaleString()}개 값을 새 타입으로 변환하지 못했습니다.{' '}
+                    <a
+                      href={`/api/files/${fileId}/rejections?version=${saved.version}&format=csv`}
+                      className="underline font-medium"
+                    >
+                      보고서 내려받기 (CSV)
+                    </a>
+                  </>
+                )}
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-beige-300 rounded-lg hover:bg-beige-50 transition-colors"
+            >
+              닫기
+            </button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || edits.length === 0}
+              className="inline-flex items-center px-4 py-2 text-sm bg-primary-700 text-white rounded-lg hover:bg-primary-800 disabled:opacity-50 transition-colors"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {edits.length > 0 ? `${edits.length}개 컬럼 변경 적용` : '변경 사항 없음'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,15 +1,16 @@
 'use client';
 
 import { X, Upload } from 'lucide-react';
-import FileUpload from '@/features/file-upload/ui/FileUpload';
+import FileUpload, { UploadTarget } from '@/features/file-upload/ui/FileUpload';
 
 interface UploadModalProps {
   isOpen: boolean;
   onClose: () => void;
   onUploadComplete: () => void;
+  target?: UploadTarget;
 }
 
-export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalProps) {
+export function UploadModal({ isOpen, onClose, onUploadComplete, target }: UploadModalProps) {
   if (!isOpen) return null;
 
   const handleUploadSuccess = () => {
@@ -27,8 +28,12 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
               <Upload className="w-5 h-5 text-white" />
             </div>
             <div>
-              <h3 className="text-lg font-semibold text-gray-900">파일 업로드</h3>
-              <p className="text-sm text-gray-500">CSV 또는 Excel 파일을 업로드하세요 (최대 500MB)</p>
+              <h3 className="text-lg font-semibold text-gray-900">{target ? '데이터 갱신' : '파일 업로드'}</h3>
+              <p className="text-sm text-gray-500">
+                {target
+                  ? `${target.name}에 추가하거나 교체할 파일을 선택하세요 (최대 500MB)`
+                  : 'CSV 또는 Excel 파일을 업로드하세요 (최대 500MB)'}
+              </p>
             </div>
           </div>
           <button
@@ -41,7 +46,7 @@ export function UploadModal({ isOpen, onClose, onUploadComplete }: UploadModalPr
 
         {/* Content */}
         <div className="p-6">
-          <FileUpload onUploadSuccess={handleUploadSuccess} />
+          <FileUpload onUploadSuccess={handleUploadSuccess} target={target} />
         </div>
       </div>
     </div>
@@ -0,0 +1,291 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { X, Link2, Loader2, Trash2, Plus } from 'lucide-react';
+import { JoinCandidate, JoinCardinality, SheetSchema, Workspace } from '@/types';
+
+interface RelationshipEditorProps {
+  isOpen: boolean;
+  workspace: Workspace;
+  onClose: () => void;
+  onChanged: () => void;
+}
+
+// 조인 키 한쪽 선택 상태 (table: 테이블명, column: 저장 컬럼명)
+interface EndDraft {
+  table: string;
+  column: string;
+}
+
+const EMPTY_END: EndDraft = { table: '', column: '' };
+
+const CARDINALITY_LABELS: Record<JoinCardinality, string> = {
+  'one-to-one': '1:1',
+  'one-to-many': '1:N',
+  'many-to-one': 'N:1',
+  'many-to-many': 'N:N'
+};
+
+const formatPercent = (value: number) => `${Math.round(value * 100)}%`;
+
+// 선택할 수 있는 테이블 (데이터셋이 여러 시트면 시트명을 붙여 표시)
+function listTables(workspace: Workspace): { label: string; sheet: SheetSchema }[] {
+  return workspace.datasets.flatMap(dataset =>
+    dataset.sheets.map(sheet => ({
+      label: dataset.sheets.length > 1 ? `${dataset.name} / ${sheet.name}` : dataset.name,
+      sheet
+    }))
+  );
+}
+
+// 워크스페이스 데이터셋 사이의 조인 키 지정/삭제
+export function RelationshipEditor({ isOpen, workspace, onClose, onChanged }: RelationshipEditorProps) {
+  const [left, setLeft] = useState<EndDraft>(EMPTY_END);
+  const [right, setRight] = useState<EndDraft>(EMPTY_END);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [candidates, setCandidates] = useState<JoinCandidate[]>([]);
+  const [isDetecting, setIsDetecting] = useState(false);
+
+  // 열 때와 조인 키가 바뀔 때 후보를 다시 조회 (지정 여부 표시)
+  useEffect(() => {
+    if (!isOpen) return;
+    let cancelled = false;
+
+    const fetchCandidates = async () => {
+      setIsDetecting(true);
+      try {
+        const response = await fetch(`/api/workspaces/${workspace.id}/join-candidates`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || '조인 키 후보 조회 실패');
+        }
+        if (!cancelled) setCandidates(data.candidates);
+      } catch (fetchError) {
+        console.error('조인 키 후보 로드 실패:', fetchError);
+      } finally {
+        if (!cancelled) setIsDetecting(false);
+      }
+    };
+
+    fetchCandidates();
+    return () => {
+      cancelled = true;
+    };
+  }, [isOpen, workspace]);
+
+  if (!isOpen) return null;
+
+  const tables = listTables(workspace);
+  const labelOf = (tableName: string) => tables.find(t => t.sheet.tableName === tableName)?.label || tableName;
+  const columnLabelOf = (tableName: string, column: string) =>
+    tables.find(t => t.sheet.tableName === tableName)?.sheet.columns.find(col => col.name === column)?.label || column;
+
+  const handleAdd = async (leftEnd: EndDraft, rightEnd: EndDraft) => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/workspaces/${workspace.id}/relationships`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          leftTable: leftEnd.table,
+          leftColumn: leftEnd.column,
+          rightTable: rightEnd.table,
+          rightColumn: rightEnd.column
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || '조인 키 지정 실패');
+      }
+      setLeft(EMPTY_END);
+      setRight(EMPTY_END);
+      onChanged();
+    } catch (addError) {
+      setError(addError instanceof Error ? addError.message : '조인 키를 지정하지 못했습니다.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (relationshipId: number) => {
+    setError(null);
+    try {
+      const response = await fetch(`/api/workspaces/${workspace.id}/relationships/${relationshipId}`, {
+        method: 'DELETE'
+      });
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || '조인 키 삭제 실패');
+      }
+      onChanged();
+    } catch (deleteError) {
+      setError(deleteError instanceof Error ? deleteError.message : '조인 키를 삭제하지 못했습니다.');
+    }
+  };
+
+  const renderEndSelect = (draft: EndDraft, setDraft: (draft: EndDraft) => void) => {
+    const sheet = tables.find(t => t.sheet.tableName === draft.table)?.sheet;
+    return (
+      <div className="flex-1 space-y-2">
+        <select
+          value={draft.table}
+          onChange={(e) => setDraft({ table: e.target.value, column: '' })}
+          className="w-full px-2 py-1.5 text-sm border border-beige-200 rounded bg-white"
+        >
+          <option value="">테이블 선택</option>
+          {tables.map(t => (
+            <option key={t.sheet.tableName} value={t.sheet.tableName}>{t.label}</option>
+          ))}
+        </select>
+        <select
+          value={draft.column}
+          disabled={!sheet}
+          onChange={(e) => setDraft({ ...draft, column: e.target.value })}
+          className="w-full px-2 py-1.5 text-sm border border-beige-200 rounded bg-white"
+        >
+          <option value="">컬럼 선택</option>
+          {sheet?.columns.map(col => (
+            <option key={col.name} value={col.name}>{col.label}</option>
+          ))}
+        </select>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-60 flex items-center justify-center p-4 z-50 backdrop-blur-md">
+      <div className="bg-white rounded-2xl shadow-2xl max-w-2xl w-full transform transition-all duration-300 scale-100 animate-scale-in border border-beige-200">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-beige-300">
+          <div className="flex items-center space-x-3">
+            <div className="w-10 h-10 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center">
+              <Link2 className="w-5 h-5 text-white" />
+            </div>
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900">조인 키</h3>
+              <p className="text-sm text-gray-500">AI가 데이터셋을 연결할 때 사용할 컬럼을 지정합니다</p>
+            </div>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 hover:bg-beige-100 rounded-lg transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 space-y-4">
+          {/* 지정된 조인 키 */}
+          {workspace.relationships.length === 0 ? (
+            <p className="text-sm text-gray-500">지정된 조인 키가 없습니다.</p>
+          ) : (
+            <ul className="space-y-2">
+              {workspace.relationships.map(relationship => (
+                <li
+                  key={relationship.id}
+                  className={`flex items-center justify-between px-3 py-2 text-sm border rounded-lg ${
+                    relationship.valid ? 'border-beige-200' : 'border-warning-200 bg-warning-50'
+                  }`}
+                >
+                  <span className="text-gray-700">
+                    {labelOf(relationship.leftTable)}.{columnLabelOf(relationship.leftTable, relationship.leftColumn)}
+                    {' = '}
+                    {labelOf(relationship.rightTable)}.{columnLabelOf(relationship.rightTable, relationship.rightColumn)}
+                    {!relationship.valid && <span className="ml-2 text-warning-700">(컬럼이 삭제됨)</span>}
+                  </span>
+                  <button
+                    onClick={() => handleDelete(relationship.id)}
+                    className="p-1 text-gray-400 hover:text-error-600 rounded transition-colors"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {/* 자동 감지한 후보 */}
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-gray-600">추천 조인 키 (겹치는 값 비율 / 고유 값 비율)</p>
+            {isDetecting && candidates.length === 0 ? (
+              <div className="flex items-center text-sm text-gray-500">
+                <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                컬럼 값을 비교하는 중...
+              </div>
+            ) : candidates.filter(candidate => !candidate.confirmed).length === 0 ? (
+              <p className="text-sm text-gray-500">추천할 조인 키가 없습니다.</p>
+            ) : (
+              <ul className="max-h-48 overflow-y-auto space-y-1">
+                {candidates.filter(candidate => !candidate.confirmed).map(candidate => (
+                  <li
+                    key={`${candidate.left.tableName}.${candidate.left.column}=${candidate.right.tableName}.${candidate.right.column}`}
+                    className="flex items-center justify-between px-3 py-2 text-xs bg-beige-50 border border-beige-200 rounded-lg"
+                  >
+                    <div className="min-w-0">
+                      <p className="text-sm text-gray-700 truncate">
+                        {labelOf(candidate.left.tableName)}.{candidate.left.label}
+                        {' = '}
+                        {labelOf(candidate.right.tableName)}.{candidate.right.label}
+                      </p>
+                      <p className="text-gray-500">
+                        {CARDINALITY_LABELS[candidate.cardinality]}
+                        {' · 겹침 '}{formatPercent(candidate.leftContainment)} / {formatPercent(candidate.rightContainment)}
+                        {' · 고유 '}{formatPercent(candidate.left.uniqueness)} / {formatPercent(candidate.right.uniqueness)}
+                        {candidate.sampled && ' · 일부 값으로 추정'}
+                      </p>
+                    </div>
+                    <button
+                      onClick={() => handleAdd(
+                        { table: candidate.left.tableName, column: candidate.left.column },
+                        { table: candidate.right.tableName, column: candidate.right.column }
+                      )}
+                      disabled={isSaving}
+                      className="inline-flex items-center ml-2 px-2 py-1 text-primary-700 hover:bg-primary-50 rounded disabled:opacity-50 transition-colors"
+                    >
+                      <Plus className="w-3 h-3 mr-1" />
+                      지정
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+
+          {/* 새 조인 키 */}
+          <div className="flex items-center space-x-3">
+            {renderEndSelect(left, setLeft)}
+            <span className="text-gray-500">=</span>
+            {renderEndSelect(right, setRight)}
+          </div>
+
+          {/* 오류 메시지 */}
+          {error && (
+            <div className="p-3 bg-error-50 border border-error-200 rounded-lg">
+              <p className="text-sm text-error-700">{error}</p>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <button
+              onClick={onClose}
+              className="px-4 py-2 text-sm text-gray-700 bg-white border border-beige-300 rounded-lg hover:bg-beige-50 transition-colors"
+            >
+              닫기
+            </button>
+            <button
+              onClick={() => handleAdd(left, right)}
+              disabled={isSaving || !left.column || !right.column}
+              className="inline-flex items-center px-4 py-2 text-sm bg-primary-700 text-white rounded-lg hover:bg-primary-800 disabled:opacity-50 transition-colors"
+            >
+              {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              조인 키 추가
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,12 @@
+// 서버 시작 시 한 번 실행 (Node.js 런타임에서만 데이터베이스 검사, 중단된 가져오기 작업 재개)
+export async function register() {
+  if (process.env.NEXT_RUNTIME !== 'nodejs') return;
+  const { runStartupIntegrityCheck } = await import('./lib/dataset-integrity');
+  await runStartupIntegrityCheck();
+  const { recoverInterruptedJobs } = await import('./lib/ingest-jobs');
+  try {
+    recoverInterruptedJobs();
+  } catch (error) {
+    console.error('[INGEST] 중단된 작업 재개 실패:', error);
+  }
+}
@@ -0,0 +1,75 @@
+import { DatabaseResult } from './database';
+import { runSandboxedQuery } from './query-sandbox';
+import { analyzeSqliteQuery, QueryAnalysis } from './sql-validation';
+
+// 분석 쿼리를 실행할 저장소 종류 (ANALYTICS_BACKEND 환경변수로 배포마다 선택)
+// sqlite: 데이터셋 테이블을 그대로 조회, duckdb: 데이터셋 테이블의 열 기반 복사본을 조회
+export type AnalyticsBackend = 'sqlite' | 'duckdb';
+
+export const ANALYTICS_BACKENDS: AnalyticsBackend[] = ['sqlite', 'duckdb'];
+
+// 분석 쿼리가 읽는 데이터셋 테이블
+export interface AnalyticsTableRef {
+  fileId: string;
+  tableName: string;
+}
+
+// 데이터셋 테이블 분석 쿼리 실행기 (파일/버전 등 메타데이터와 데이터 변경은 항상 SQLite에서 처리)
+export interface AnalyticsStore {
+  backend: AnalyticsBackend;
+  // 오류 메시지와 프롬프트에 쓰는 SQL 방언 이름
+  dialectName: string;
+  // 이 방언에 없는 다른 DB 문법 (소문자, 파서가 쿼리를 거부했을 때 오류 메시지에 대체 방법 안내를 덧붙임)
+  unsupportedSyntax: string[];
+  // 쿼리가 하나의 읽기 전용 문장인지 확인하고 실제로 읽는 테이블을 돌려줌 (저장소의 SQL 파서 기준)
+  analyzeQuery(sql: string): Promise<QueryAnalysis | { error: string }>;
+  // 읽기 전용 쿼리 실행 (tables: 쿼리가 읽는 테이블, 복사본을 쓰는 저장소는 실행 전에 최신 데이터로 맞춤)
+  // 실행 시간/결과 크기/메모리 제한(getQueryLimits)을 넘으면 실패 결과로 돌려줌
+  // rowLimit: 앞에서부터 이 행 수까지만 읽고 나머지는 오류 없이 버림 (쿼리 문장은 바꾸지 않음)
+  query(sql: string, tables: AnalyticsTableRef[], rowLimit?: number): Promise<DatabaseResult>;
+  // 삭제된 데이터셋 테이블 정리
+  dropTables(tableNames: string[]): Promise<void>;
+}
+
+// SQLite 데이터셋 테이블을 그대로 조회 (별도 프로세스의 읽기 전용 연결에서 실행)
+const sqliteStore: AnalyticsStore = {
+  backend: 'sqlite',
+  dialectName: 'SQLite',
+  unsupportedSyntax: [
+    'top ', 'isnull(', 'charindex(', 'patindex(', 'datediff(', 'pivot', 'unpivot'
+  ],
+  async analyzeQuery(sql) {
+    return analyzeSqliteQuery(sql);
+  },
+  query(sql, _tables, rowLimit) {
+    return runSandboxedQuery(sql, [], rowLimit);
+  },
+  async dropTables() {
+    // 데이터셋 테이블 자체는 데이터셋 삭제 트랜잭션에서 삭제됨
+  }
+};
+
+export function getAnalyticsBackend(): AnalyticsBackend {
+  const value = (process.env.ANALYTICS_BACKEND || 'sqlite').trim().toLowerCase();
+  if (ANALYTICS_BACKENDS.includes(value as AnalyticsBackend)) {
+    return value as AnalyticsBackend;
+  }
+  console.warn(`[ANALYTICS] 알 수 없는 ANALYTICS_BACKEND 값(${value}), sqlite를 사용합니다.`);
+  return 'sqlite';
+}
+
+let storePromise: Promise<AnalyticsStore> | null = null;
+
+// 설정된 분석 저장소 (DuckDB 모듈은 duckdb를 선택한 배포에서만 불러옴)
+export function getAnalyticsStore(): Promise<AnalyticsStore> {
+  if (!storePromise) {
+    storePromise = getAnalyticsBackend() === 'duckdb'
+      ? import('./duckdb-store').then(({ createDuckDBStore }) => createDuckDBStore())
+      : Promise.resolve(sqliteStore);
+    // 열기에 실패하면 다음 요청에서 다시 시도
+    storePromise.catch(() => {
+      storePromise = null;
+    });
+  }
+  return storePromise;
+}
@@ -0,0 +1,165 @@
+import fs from 'fs';
+import path from 'path';
+import Database from 'better-sqlite3';
+import { db } from './database';
+import { getAnalyticsStore } from './analytics-store';
+import { listIngestJobs } from './ingest-jobs';
+import { getSchemaVersion, LATEST_SCHEMA_VERSION } from './migrations';
+
+// 스냅샷 보관 위치 (docker-compose의 data 볼륨)
+const SNAPSHOTS_DIR = path.join(process.cwd(), 'data', 'snapshots');
+// 스냅샷 파일 이름 (경로 구분자 없이 .db로 끝남)
+const SNAPSHOT_NAME_PATTERN = /^[\w-]+\.db$/;
+
+// 데이터베이스 스냅샷 (datasetCount: 스냅샷에 들어 있는 데이터셋 수)
+export interface SnapshotInfo {
+  name: string;
+  size: number;
+  createdAt: string;
+  schemaVersion: number;
+  datasetCount: number;
+}
+
+// 복원할 수 없는 요청 (status: 응답 상태 코드, 없는 스냅샷 404, 잘못된 파일 400, 진행 중인 작업 409)
+export class SnapshotRestoreError extends Error {
+  constructor(message: string, readonly status: 400 | 404 | 409) {
+    super(message);
+    this.name = 'SnapshotRestoreError';
+  }
+}
+
+function resolveSnapshotPath(name: string): string {
+  if (!SNAPSHOT_NAME_PATTERN.test(name)) {
+    throw new Error(`잘못된 스냅샷 이름입니다: ${name}`);
+  }
+  return path.join(SNAPSHOTS_DIR, name);
+}
+
+// 스냅샷 파일 이름 (snapshot-20240101-120000[-label].db)
+function createSnapshotName(label?: string): string {
+  const timestamp = new Date().toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  const suffix = label ? `-${label.replace(/[^\w-]/g, '').slice(0, 40)}` : '';
+  return `snapshot-${timestamp}${suffix}.db`;
+}
+
+// 스냅샷 파일을 읽기 전용으로 열어 손상 여부와 스키마 버전 확인 (복원할 수 없는 파일이면 오류)
+export function inspectSnapshot(filePath: string): Omit<SnapshotInfo, 'name'> {
+  const stat = fs.statSync(filePath);
+  let snapshot: Database.Database;
+  try {
+    snapshot = new Database(filePath, { readonly: true, fileMustExist: true });
+  } catch (error) {
+    throw new Error(`데이터베이스 파일을 열 수 없습니다: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    const check = snapshot.pragma('quick_check', { simple: true });
+    if (check !== 'ok') {
+      throw new Error(`손상된 데이터베이스 파일입니다: ${check}`);
+    }
+    const hasTable = (name: string) =>
+      !!snapshot.prepare(`SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = ?`).get(name);
+    if (!hasTable('files') || !hasTable('schema_migrations')) {
+      throw new Error('이 애플리케이션의 데이터베이스 파일이 아닙니다.');
+    }
+    const schemaVersion = getSchemaVersion(snapshot);
+    if (schemaVersion > LATEST_SCHEMA_VERSION) {
+      throw new Error(`스키마 버전(${schemaVersion})이 이 애플리케이션이 아는 버전(${LATEST_SCHEMA_VERSION})보다 높습니다.`);
+    }
+    const { count } = snapshot.prepare('SELECT COUNT(*) AS count FROM files').get() as { count: number };
+    return { size: stat.size, createdAt: stat.mtime.toISOString(), schemaVersion, datasetCount: count };
+  } finally {
+    snapshot.close();
+  }
+}
+
+// 현재 데이터베이스의 스냅샷 생성 (서버 실행 중에도 일관된 시점의 사본)
+export async function createSnapshot(label?: string): Promise<SnapshotInfo> {
+  await fs.promises.mkdir(SNAPSHOTS_DIR, { recursive: true });
+  const name = createSnapshotName(label);
+  const filePath = resolveSnapshotPath(name);
+  const tempPath = `${filePath}.part`;
+
+  const startedAt = Date.now();
+  try {
+    await db.backup(tempPath);
+    await fs.promises.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+  const info = { name, ...inspectSnapshot(filePath) };
+  console.log(`[BACKUP] 스냅샷 생성 완료: ${name} (${info.size} bytes, ${Date.now() - startedAt}ms)`);
+  return info;
+}
+
+// 보관된 스냅샷 목록 (최신순, 열 수 없는 파일은 제외)
+export function listSnapshots(): SnapshotInfo[] {
+  if (!fs.existsSync(SNAPSHOTS_DIR)) return [];
+  return fs.readdirSync(SNAPSHOTS_DIR)
+    .filter(name => SNAPSHOT_NAME_PATTERN.test(name))
+    .flatMap(name => {
+      try {
+        return [{ name, ...inspectSnapshot(resolveSnapshotPath(name)) }];
+      } catch (error) {
+        console.warn(`[BACKUP] 스냅샷을 읽을 수 없어 목록에서 제외: ${name}`, error);
+        return [];
+      }
+    })
+    .sort((a, b) => b.name.localeCompare(a.name));
+}
+
+// 스냅샷 파일 경로 (스냅샷 이름 형식이 아니거나 파일이 없으면 null)
+export function getSnapshotPath(name: string): string | null {
+  if (!SNAPSHOT_NAME_PATTERN.test(name)) return null;
+  const filePath = resolveSnapshotPath(name);
+  return fs.existsSync(filePath) ? filePath : null;
+}
+
+export async function deleteSnapshot(name: string): Promise<boolean> {
+  const filePath = getSnapshotPath(name);
+  if (!filePath) return false;
+  await fs.promises.rm(filePath);
+  return true;
+}
+
+function listDataTables(): string[] {
+  const result = db.select(`SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name LIKE 'data\\_%' ESCAPE '\\'`);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!.map(row => row.name as string);
+}
+
+// 스냅샷으로 데이터베이스 복원 (복원 전 현재 상태를 스냅샷으로 남기고, 가져오는 중인 작업이 있으면 거부)
+// 보관된 원본 파일(uploads/)은 스냅샷에 포함되지 않으므로 그대로 둠
+export async function restoreSnapshot(name: string): Promise<{ restored: SnapshotInfo; backup: SnapshotInfo }> {
+  const filePath = getSnapshotPath(name);
+  if (!filePath) {
+    throw new SnapshotRestoreError(`스냅샷을 찾을 수 없습니다: ${name}`, 404);
+  }
+  let restored: SnapshotInfo;
+  try {
+    restored = { name, ...inspectSnapshot(filePath) };
+  } catch (error) {
+    throw new SnapshotRestoreError(error instanceof Error ? error.message : String(error), 400);
+  }
+
+  // 복원하면 진행 중인 작업이 쓰던 테이블과 기록이 사라지므로 끝날 때까지 기다리게 함
+  if (listIngestJobs({ active: true, limit: 1 }).length > 0) {
+    throw new SnapshotRestoreError('가져오는 중인 작업이 끝난 뒤에 복원해주세요.', 409);
+  }
+
+  const backup = await createSnapshot('before-restore');
+  const previousTables = listDataTables();
+  await db.restore(filePath);
+  console.log(`[BACKUP] 스냅샷 복원 완료: ${name} (복원 전 상태: ${backup.name})`);
+
+  // 같은 버전 번호라도 내용이 다를 수 있으므로 분석용 복사본은 모두 다시 만들게 함
+  try {
+    const store = await getAnalyticsStore();
+    await store.dropTables(Array.from(new Set([...previousTables, ...listDataTables()])));
+  } catch (storeError) {
+    console.error('[BACKUP] 분석용 복사본 정리 실패:', storeError);
+  }
+  return { restored, backup };
+}
@@ -0,0 +1,290 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import Database from 'better-sqlite3';
+import { db, DatabaseRow } from './database';
+import { getDataTableName, getDatasetTables } from './datasets';
+import { getColumnTypes } from './dataset-update';
+import { getIndexName, restoreIndexes } from './indexes';
+import { LATEST_SCHEMA_VERSION } from './migrations';
+import { getCurrentVersion, getVersionTableName, listVersions } from './versions';
+import { generateId } from '@/shared/lib/utils';
+import { COLUMN_TYPES, ColumnType } from '@/types';
+
+// 데이터셋 번들: 데이터셋 하나의 테이블(이전 버전 포함)과 메타데이터, 채팅 기록을 담은 SQLite 파일
+// 다른 서버로 옮길 수 있고, 가져오면 새 ID의 데이터셋이 됨 (보관된 원본 파일은 포함하지 않음)
+const BUNDLE_FORMAT = 'csv-researcher-dataset';
+const BUNDLE_FORMAT_VERSION = 1;
+const BUNDLE_SCHEMA = 'bundle';
+
+// 번들에 담는 메타데이터 테이블 → 데이터셋 ID 컬럼
+const BUNDLE_RECORD_TABLES: Record<string, string> = {
+  files: 'id',
+  chat_history: 'fileId',
+  dataset_versions: 'fileId',
+  column_profiles: 'fileId',
+  dataset_indexes: 'fileId',
+  ingest_rejections: 'fileId'
+};
+// 데이터 테이블 이름이 들어 있는 컬럼 (가져올 때 새 ID의 테이블 이름으로 바꿈)
+// sheets/tables는 시트별 tableName을 담은 JSON, 이름/설명 같은 사용자 입력 컬럼은 건드리지 않음
+const TABLE_NAME_COLUMNS = ['sheets', 'tables', 'tableName'];
+// generateId로 만든 데이터셋 ID (영문 소문자와 숫자)
+const FILE_ID_PATTERN = /^[0-9a-z]+$/;
+// 가져온 서버에는 없는 값 (보관된 원본 파일 경로, 자동 증가 ID)
+const DROPPED_COLUMNS: Record<string, string[]> = {
+  files: ['originalPath'],
+  dataset_versions: ['originalPath'],
+  chat_history: ['id']
+};
+
+export interface BundleImportResult {
+  fileId: string;
+  sourceFileId: string;
+  name: string;
+  tables: string[];
+  chatCount: number;
+}
+
+// 식별자 인용 (번들에서 읽은 컬럼명에 "가 있어도 이름 밖으로 벗어나지 않도록 ""로 이스케이프)
+const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+function run(query: string, params: unknown[] = []): void {
+  const result = db.execute(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+function selectAll(query: string, params: unknown[] = []): DatabaseRow[] {
+  const result = db.select(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!;
+}
+
+function createTempPath(): string {
+  return path.join(os.tmpdir(), `bundle-${generateId()}.db`);
+}
+
+// 번들 파일을 메인 연결에 붙여 작업 (ATTACH는 트랜잭션 밖에서만 가능하므로 callback 안에서 트랜잭션 실행)
+function withAttachedBundle<T>(bundlePath: string, callback: () => T): T {
+  run(`ATTACH DATABASE ? AS ${BUNDLE_SCHEMA}`, [bundlePath]);
+  try {
+    return callback();
+  } finally {
+    run(`DETACH DATABASE ${BUNDLE_SCHEMA}`);
+  }
+}
+
+function runInTransaction(callback: () => void): void {
+  const result = db.transaction(callback);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+// 데이터셋의 모든 데이터 테이블 (현재 테이블 + 이전 버전 보관 테이블)
+function listBundleDataTables(fileId: string, file: DatabaseRow): string[] {
+  const current = getCurrentVersion(fileId);
+  const tables = new Set(getDatasetTables(file).map(table => table.tableName));
+  listVersions(fileId)
+    .filter(version => version.version !== current)
+    .forEach(version => version.tables.forEach(table => {
+      const archiveTableName = getVersionTableName(table.tableName, version.version);
+      if (db.tableExists(archiveTableName)) tables.add(archiveTableName);
+    }));
+  return [...tables];
+}
+
+// 데이터셋을 번들 파일로 내보냄 (임시 파일 경로 반환, 다 쓴 뒤 호출한 쪽에서 삭제)
+export function exportDatasetBundle(fileId: string): string {
+  const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [fileId]);
+  if (!fileResult.success || !fileResult.data?.[0]) {
+    throw new Error('파일을 찾을 수 없습니다.');
+  }
+  const file = fileResult.data[0];
+  const dataTables = listBundleDataTables(fileId, file);
+  const bundlePath = createTempPath();
+
+  try {
+    withAttachedBundle(bundlePath, () => runInTransaction(() => {
+      run(`CREATE TABLE ${BUNDLE_SCHEMA}.bundle_info (key TEXT PRIMARY KEY, value TEXT NOT NULL)`);
+      const info: Record<string, string | number> = {
+        format: BUNDLE_FORMAT,
+        formatVersion: BUNDLE_FORMAT_VERSION,
+        schemaVersion: db.getSchemaVersion(),
+        fileId,
+        exportedAt: new Date().toISOString()
+      };
+      Object.entries(info).forEach(([key, value]) =>
+        run(`INSERT INTO ${BUNDLE_SCHEMA}.bundle_info (key, value) VALUES (?, ?)`, [key, String(value)])
+      );
+
+      Object.entries(BUNDLE_RECORD_TABLES).forEach(([table, idColumn]) =>
+        run(`CREATE TABLE ${BUNDLE_SCHEMA}.${quote(table)} AS SELECT * FROM main.${quote(table)} WHERE ${quote(idColumn)} = ?`, [fileId])
+      );
+
+      // 선언 타입을 유지한 채 복사
+      dataTables.forEach(tableName => {
+        const types = getColumnTypes(tableName);
+        const columns = Object.keys(types).map(quote).join(', ');
+        run(`CREATE TABLE ${BUNDLE_SCHEMA}.${quote(tableName)} (${Object.entries(types).map(([column, type]) => `${quote(column)} ${type}`).join(', ')})`);
+        run(`INSERT INTO ${BUNDLE_SCHEMA}.${quote(tableName)} (${columns}) SELECT ${columns} FROM main.${quote(tableName)}`);
+      });
+    }));
+  } catch (error) {
+    fs.rmSync(bundlePath, { force: true });
+    throw error;
+  }
+
+  console.log(`[BUNDLE] 데이터셋 내보내기 완료: ${fileId} (테이블 ${dataTables.length}개)`);
+  return bundlePath;
+}
+
+// 번들 파일 검사 (원래 데이터셋 ID와 데이터 테이블 목록 반환, 가져올 수 없는 파일이면 오류)
+function inspectBundle(bundlePath: string): { sourceFileId: string; dataTables: string[] } {
+  let bundle: Database.Database;
+  try {
+    bundle = new Database(bundlePath, { readonly: true, fileMustExist: true });
+  } catch (error) {
+    throw new Error(`번들 파일을 열 수 없습니다: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  try {
+    if (bundle.pragma('quick_check', { simple: true }) !== 'ok') {
+      throw new Error('손상된 번들 파일입니다.');
+    }
+    const schemaTables = (bundle.prepare(`SELECT name FROM sqlite_master WHERE type = 'table'`).all() as { name: string }[])
+      .map(row => row.name);
+    if (!schemaTables.includes('bundle_info') || Object.keys(BUNDLE_RECORD_TABLES).some(table => !schemaTables.includes(table))) {
+      throw new Error('데이터셋 번들 파일이 아닙니다.');
+    }
+
+    const info = Object.fromEntries(
+      (bundle.prepare('SELECT key, value FROM bundle_info').all() as { key: string; value: string }[])
+        .map(row => [row.key, row.value])
+    );
+    if (info.format !== BUNDLE_FORMAT) {
+      throw new Error('데이터셋 번들 파일이 아닙니다.');
+    }
+    if (Number(info.formatVersion) > BUNDLE_FORMAT_VERSION || Number(info.schemaVersion) > LATEST_SCHEMA_VERSION) {
+      throw new Error('이 애플리케이션보다 새로운 버전에서 만든 번들입니다.');
+    }
+
+    const files = bundle.prepare('SELECT * FROM files').all() as DatabaseRow[];
+    if (files.length !== 1 || files[0].id !== info.fileId) {
+      throw new Error('번들에 데이터셋 정보가 없습니다.');
+    }
+    const sourceFileId = info.fileId as string;
+    if (!FILE_ID_PATTERN.test(sourceFileId)) {
+      throw new Error('번들의 데이터셋 ID가 올바르지 않습니다.');
+    }
+    // 데이터 테이블은 data_<id>[_시트순번][__v버전] 이름만 가져옴
+    const tablePattern = new RegExp(`^${getDataTableName(sourceFileId)}(_\\d+)?(__v\\d+)?$`);
+    const dataTables = schemaTables.filter(name => tablePattern.test(name));
+    const missing = getDatasetTables(files[0]).filter(table => !dataTables.includes(table.tableName));
+    if (missing.length > 0) {
+      throw new Error(`번들에 데이터 테이블이 없습니다: ${missing.map(table => table.tableName).join(', ')}`);
+    }
+    return { sourceFileId, dataTables };
+  } finally {
+    bundle.close();
+  }
+}
+
+// 번들을 새 데이터셋으로 가져옴 (본문 스트림을 임시 파일로 받은 뒤 한 트랜잭션으로 저장)
+// 테이블 이름과 인덱스 이름은 새 ID 기준으로 바뀌고, 이전 스키마 버전의 번들은 공통 컬럼만 가져옴
+export async function importDatasetBundle(source: Readable): Promise<BundleImportResult> {
+  const bundlePath = createTempPath();
+  try {
+    await pipeline(source, fs.createWriteStream(bundlePath));
+    const { sourceFileId, dataTables } = inspectBundle(bundlePath);
+
+    const fileId = generateId();
+    const oldPrefix = getDataTableName(sourceFileId);
+    const newPrefix = getDataTableName(fileId);
+    const renameTable = (tableName: string) => newPrefix + tableName.slice(oldPrefix.length);
+
+    const imported = withAttachedBundle(bundlePath, () => {
+      runInTransaction(() => {
+        Object.entries(BUNDLE_RECORD_TABLES).forEach(([table, idColumn]) => {
+          const targetColumns = new Set(selectAll(`PRAGMA main.table_info(${quote(table)})`).map(col => col.name as string));
+          const dropped = DROPPED_COLUMNS[table] || [];
+          const columns = selectAll(`PRAGMA ${BUNDLE_SCHEMA}.table_info(${quote(table)})`)
+            .map(col => col.name as string)
+            .filter(column => targetColumns.has(column) && !dropped.includes(column));
+          const params: unknown[] = [];
+          const values = columns.map(column => {
+            if (column === idColumn) {
+              params.push(fileId);
+              return '?';
+            }
+            if (TABLE_NAME_COLUMNS.includes(column)) {
+              params.push(oldPrefix, newPrefix);
+              return `replace(${quote(column)}, ?, ?)`;
+            }
+            // 인덱스 이름(idx_<테이블명>__<컬럼명>)은 앞의 테이블명만 새 이름으로 바꿈
+            if (table === 'dataset_indexes' && column === 'name') {
+              params.push(oldPrefix, newPrefix);
+              return `'idx_' || replace("tableName", ?, ?) || substr("name", length("tableName") + 5)`;
+            }
+            return quote(column);
+          });
+          run(
+            `INSERT INTO main.${quote(table)} (${columns.map(quote).join(', ')}) SELECT ${values.join(', ')} FROM ${BUNDLE_SCHEMA}.${quote(table)}`,
+            params
+          );
+        });
+
+        dataTables.forEach(tableName => {
+          const columns = selectAll(`PRAGMA ${BUNDLE_SCHEMA}.table_info(${quote(tableName)})`);
+          const names = columns.map(col => quote(col.name as string)).join(', ');
+          const targetTableName = renameTable(tableName);
+          // 번들 파일은 외부에서 온 것이므로 컬럼 타입은 알려진 타입만 그대로 쓰고 나머지는 TEXT
+          const columnType = (type: unknown) => COLUMN_TYPES.includes(type as ColumnType) ? type as ColumnType : 'TEXT';
+          run(`CREATE TABLE main.${quote(targetTableName)} (${columns.map(col => `${quote(col.name as string)} ${columnType(col.type)}`).join(', ')})`);
+          run(`INSERT INTO main.${quote(targetTableName)} (${names}) SELECT ${names} FROM ${BUNDLE_SCHEMA}.${quote(tableName)}`);
+        });
+
+        // 인덱스 정의는 테이블 이름과 컬럼으로 만든 이름과 같은 것만 남김 (번들에서 읽은 이름을 그대로 쓰지 않음)
+        const importedTables = dataTables.map(renameTable);
+        selectAll('SELECT name, tableName, columns FROM dataset_indexes WHERE fileId = ?', [fileId]).forEach(definition => {
+          let columns: unknown;
+          try {
+            columns = JSON.parse(definition.columns as string);
+          } catch {
+            columns = null;
+          }
+          const valid = importedTables.includes(definition.tableName as string)
+            && Array.isArray(columns) && columns.every(column => typeof column === 'string')
+            && definition.name === getIndexName(definition.tableName as string, columns);
+          if (!valid) {
+            run('DELETE FROM dataset_indexes WHERE fileId = ? AND name = ?', [fileId, definition.name]);
+          }
+        });
+
+        const file = selectAll('SELECT * FROM files WHERE id = ?', [fileId])[0];
+        restoreIndexes(fileId, getDatasetTables(file));
+      });
+
+      const file = selectAll('SELECT name, displayName FROM files WHERE id = ?', [fileId])[0];
+      const chat = selectAll('SELECT COUNT(*) AS count FROM chat_history WHERE fileId = ?', [fileId])[0];
+      return {
+        fileId,
+        sourceFileId,
+        name: (file.displayName as string) || (file.name as string),
+        tables: dataTables.map(renameTable),
+        chatCount: chat.count as number
+      };
+    });
+
+    console.log(`[BUNDLE] 데이터셋 가져오기 완료: ${sourceFileId} → ${fileId} (테이블 ${dataTables.length}개, 채팅 ${imported.chatCount}개)`);
+    return imported;
+  } finally {
+    await fs.promises.rm(bundlePath, { force: true });
+  }
+}
+
@@ -1,11 +1,15 @@
 import { db } from './database';
+import { ChatScope } from '@/types';
 
+// fileId: 데이터셋 대화, workspaceId: 워크스페이스 대화
 export interface ChatHistoryItem {
   id: number;
-  fileId: string;
+  fileId?: string;
+  workspaceId?: string;
   userMessage: string;
   aiResponse: string;
   timestamp: string;
+  version: number | null;
 }
 
 // 환경변수에서 컨텍스트 제한 개수 가져오기 (히스토리는 무제한 저장)
@@ -14,16 +18,29 @@ const getChatContextLimit = (): number => {
   return limit ? parseInt(limit, 10) : 3;
 };
 
-// 채팅 히스토리 저장 (무제한)
+// 대화 대상별 기록 테이블과 대상 ID 컬럼
+const HISTORY_TABLES: Record<ChatScope, { table: string; key: string }> = {
+  file: { table: 'chat_history', key: 'fileId' },
+  workspace: { table: 'workspace_chat_history', key: 'workspaceId' }
+};
+
+// 채팅 히스토리 저장 (무제한, version: 답변에 사용한 데이터셋 버전, 워크스페이스 대화는 기록하지 않음)
 export async function saveChatHistory(
   fileId: string,
   userMessage: string,
-  aiResponse: string
+  aiResponse: string,
+  version: number | null = null,
+  scope: ChatScope = 'file'
 ): Promise<void> {
-  const result = db.execute(
-    `INSERT INTO chat_history (fileId, userMessage, aiResponse) VALUES (?, ?, ?)`,
-    [fileId, userMessage, aiResponse]
-  );
+  const result = scope === 'workspace'
+    ? db.execute(
+      `INSERT INTO workspace_chat_history (workspaceId, userMessage, aiResponse) VALUES (?, ?, ?)`,
+      [fileId, userMessage, aiResponse]
+    )
+    : db.execute(
+      `INSERT INTO chat_history (fileId, userMessage, aiResponse, version) VALUES (?, ?, ?, ?)`,
+      [fileId, userMessage, aiResponse, version]
+    );
   
   if (!result.success) {
     console.error('채팅 히스토리 저장 실패:', result.error);
@@ -34,12 +51,13 @@ export async function saveChatHistory(
 }
 
 // 컨텍스트용 최근 채팅 히스토리 조회 (제한된 개수)
-export async function getRecentChatHistory(fileId: string): Promise<ChatHistoryItem[]> {
+export async function getRecentChatHistory(fileId: string, scope: ChatScope = 'file'): Promise<ChatHistoryItem[]> {
   const limit = getChatContextLimit();
+  const { table, key } = HISTORY_TABLES[scope];
   
   const result = db.select(
-    `SELECT * FROM chat_history 
-     WHERE fileId = ? 
+    `SELECT * FROM ${table} 
+     WHERE ${key} = ? 
      ORDER BY timestamp DESC 
      LIMIT ?`,
     [fileId, limit]
@@ -56,10 +74,11 @@ export async function getRecentChatHistory(fileId: string): Promise<ChatHistoryI
 }
 
 // 전체 채팅 히스토리 조회 (무제한)
-export async function getAllChatHistory(fileId: string): Promise<ChatHistoryItem[]> {
+export async function getAllChatHistory(fileId: string, scope: ChatScope = 'file'): Promise<ChatHistoryItem[]> {
+  const { table, key } = HISTORY_TABLES[scope];
   const result = db.select(
-    `SELECT * FROM chat_history 
-     WHERE fileId = ? 
+    `SELECT * FROM ${table} 
+     WHERE ${key} = ? 
      ORDER BY timestamp ASC`,
     [fileId]
   );
@@ -92,10 +111,11 @@ ${contextLines.join('\n\n')}
 `;
 }
 
-// 특정 파일의 모든 히스토리 삭제 (파일 삭제 시 사용)
-export async function clearChatHistory(fileId: string): Promise<void> {
+// 특정 파일(또는 워크스페이스)의 모든 히스토리 삭제
+export async function clearChatHistory(fileId: string, scope: ChatScope = 'file'): Promise<void> {
+  const { table, key } = HISTORY_TABLES[scope];
   const result = db.execute(
-    `DELETE FROM chat_history WHERE fileId = ?`,
+    `DELETE FROM ${table} WHERE ${key} = ?`,
     [fileId]
   );
   
@@ -108,9 +128,10 @@ export async function clearChatHistory(fileId: string): Promise<void> {
 }
 
 // 히스토리 개수 조회
-export async function getChatHistoryCount(fileId: string): Promise<number> {
+export async function getChatHistoryCount(fileId: string, scope: ChatScope = 'file'): Promise<number> {
+  const { table, key } = HISTORY_TABLES[scope];
   const result = db.selectOne(
-    `SELECT COUNT(*) as count FROM chat_history WHERE fileId = ?`,
+    `SELECT COUNT(*) as count FROM ${table} WHERE ${key} = ?`,
     [fileId]
   );
   
@@ -127,7 +148,8 @@ export async function getChatHistoryCount(fileId: string): Promise<number> {
 export async function getChatHistoryPaginated(
   fileId: string, 
   page: number = 1, 
-  limit: number = 10
+  limit: number = 10,
+  scope: ChatScope = 'file'
 ): Promise<{
   history: ChatHistoryItem[];
   totalCount: number;
@@ -135,10 +157,11 @@ export async function getChatHistoryPaginated(
   currentPage: number;
 }> {
   const offset = (page - 1) * limit;
+  const { table, key } = HISTORY_TABLES[scope];
   
   const historyResult = db.select(
-    `SELECT * FROM chat_history 
-     WHERE fileId = ? 
+    `SELECT * FROM ${table} 
+     WHERE ${key} = ? 
      ORDER BY timestamp DESC 
      LIMIT ? OFFSET ?`,
     [fileId, limit, offset]
@@ -149,7 +172,7 @@ export async function getChatHistoryPaginated(
     throw new Error(historyResult.error);
   }
   
-  const totalCount = await getChatHistoryCount(fileId);
+  const totalCount = await getChatHistoryCount(fileId, scope);
   
   // 시간순으로 정렬 (오래된 것부터)
   const history = (historyResult.data as unknown as ChatHistoryItem[]).reverse();
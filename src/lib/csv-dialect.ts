@@ -0,0 +1,233 @@
+import * as iconv from 'iconv-lite';
+import * as jschardet from 'jschardet';
+
+// CSV 파일 해석 방식 (자동 감지 결과 또는 사용자 지정값)
+export interface CsvDialect {
+  encoding: string;
+  delimiter: string;
+  quote: string;
+  headerRow: number; // 헤더(또는 첫 데이터) 행 위치, 0부터 시작 — 앞의 행은 프리앰블로 건너뜀
+  hasHeader: boolean;
+}
+
+export type CsvDialectOverrides = Partial<CsvDialect>;
+
+const DELIMITER_CANDIDATES = [',', ';', '\t', '|'];
+const QUOTE_CANDIDATES = ['"', "'"];
+// 감지에 사용할 최대 레코드 수
+const SNIFF_RECORD_LIMIT = 100;
+// 한국어 파일 오감지 대비용 대체 인코딩
+const KOREAN_FALLBACK_ENCODING = 'cp949';
+
+export const REPLACEMENT_CHAR = '\uFFFD';
+
+export function countReplacementChars(text: string): number {
+  let count = 0;
+  for (let index = text.indexOf(REPLACEMENT_CHAR); index !== -1; index = text.indexOf(REPLACEMENT_CHAR, index + 1)) {
+    count++;
+  }
+  return count;
+}
+
+function isValidUtf8(buffer: Buffer, truncated: boolean): boolean {
+  try {
+    // 샘플이 잘린 경우 마지막 멀티바이트 문자가 잘렸을 수 있으므로 끝부분 몇 바이트는 제외
+    const sample = truncated ? buffer.subarray(0, Math.max(0, buffer.length - 3)) : buffer;
+    new TextDecoder('utf-8', { fatal: true }).decode(sample);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+function countHangul(text: string): number {
+  return (text.match(/[가-힣]/g) || []).length;
+}
+
+// 인코딩 감지: UTF-8 검증 → jschardet → 한국어 대체 인코딩 비교
+export function detectEncoding(buffer: Buffer, truncated = false): string {
+  if (buffer.length === 0 || isValidUtf8(buffer, truncated)) {
+    return 'utf-8';
+  }
+
+  const detected = jschardet.detect(buffer).encoding;
+  const candidates = [detected, KOREAN_FALLBACK_ENCODING]
+    .filter((encoding): encoding is string => !!encoding && encoding.toLowerCase() !== 'ascii' && iconv.encodingExists(encoding));
+
+  // 깨진 문자가 적고 한글이 많이 해석되는 인코딩 선택 (짧은 CP949 파일의 오감지 보정)
+  let best = candidates[0] || KOREAN_FALLBACK_ENCODING;
+  let bestScore = -Infinity;
+  for (const encoding of candidates) {
+    const text = iconv.decode(buffer, encoding);
+    const score = countHangul(text) - countReplacementChars(text) * 10;
+    if (score > bestScore) {
+      best = encoding;
+      bestScore = score;
+    }
+  }
+  return best;
+}
+
+// 따옴표를 고려해 텍스트를 레코드/필드로 분할 (감지용 간이 파서)
+export function splitRecords(text: string, delimiter: string, quote: string, limit = SNIFF_RECORD_LIMIT): string[][] {
+  const records: string[][] = [];
+  let fields: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  for (let i = 0; i < text.length && records.length < limit; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === quote && text[i + 1] === quote) {
+        field += quote;
+        i++;
+      } else if (char === quote) {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === quote && field === '') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      fields.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      fields.push(field);
+      records.push(fields);
+      fields = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if ((field !== '' || fields.length > 0) && records.length < limit) {
+    fields.push(field);
+    records.push(fields);
+  }
+
+  return records;
+}
+
+function isBlankRecord(record: string[]): boolean {
+  return record.length === 1 && record[0].trim() === '';
+}
+
+function mostCommon(values: number[]): { value: number; count: number } {
+  const counts = new Map<number, number>();
+  values.forEach(value => counts.set(value, (counts.get(value) || 0) + 1));
+
+  let best = { value: 0, count: 0 };
+  counts.forEach((count, value) => {
+    if (count > best.count || (count === best.count && value > best.value)) {
+      best = { value, count };
+    }
+  });
+  return best;
+}
+
+function isNumeric(value: string): boolean {
+  return /^[-+]?[\d,]*\.?\d+%?$/.test(value.trim());
+}
+
+// 디코딩된 샘플에서 구분자, 따옴표, 헤더 위치 추정
+export function sniffDialect(sample: string, truncated: boolean): Omit<CsvDialect, 'encoding'> {
+  let best = { delimiter: ',', quote: '"', fieldCount: 1, consistency: 0, records: [] as string[][] };
+
+  for (const quote of QUOTE_CANDIDATES) {
+    for (const delimiter of DELIMITER_CANDIDATES) {
+      let records = splitRecords(sample, delimiter, quote);
+      // 샘플 끝에서 잘린 레코드는 필드 수가 달라질 수 있으므로 제외
+      if (truncated && records.length > 1) records = records.slice(0, -1);
+      // 빈 줄은 필드 수 비교에서 제외 (행 위치 계산을 위해 목록에는 유지)
+      const filledRecords = records.filter(record => !isBlankRecord(record));
+      if (filledRecords.length === 0) continue;
+
+      const { value: fieldCount, count } = mostCommon(filledRecords.map(record => record.length));
+      if (fieldCount < 2) continue;
+
+      const consistency = count / filledRecords.length;
+      // 일관성이 높은 쪽, 같으면 필드가 더 많이 나뉘는 쪽 선택 (따옴표는 기본값 우선)
+      if (consistency > best.consistency || (consistency === best.consistency && fieldCount > best.fieldCount)) {
+        best = { delimiter, quote, fieldCount, consistency, records };
+      }
+    }
+  }
+
+  if (best.records.length === 0) {
+    return { delimiter: ',', quote: '"', headerRow: 0, hasHeader: true };
+  }
+
+  // 프리앰블: 대표 필드 수를 갖는 첫 레코드 전까지의 제목/설명 행
+  const headerRow = Math.max(0, best.records.findIndex(record => record.length === best.fieldCount));
+  const header = best.records[headerRow];
+  const dataRecords = best.records.slice(headerRow + 1).filter(record => !isBlankRecord(record));
+
+  // 헤더 판단: 값이 모두 채워진 고유한 문자열이고, 숫자 데이터 열이 있다면 헤더 쪽은 숫자가 아니어야 함
+  const filled = header.every(value => value.trim() !== '');
+  const unique = new Set(header.map(value => value.trim())).size === header.length;
+  const numericHeader = header.some((value, index) =>
+    isNumeric(value) && dataRecords.some(record => record[index] !== undefined && isNumeric(record[index]))
+  );
+  const hasHeader = filled && unique && !numericHeader;
+
+  return { delimiter: best.delimiter, quote: best.quote, headerRow, hasHeader };
+}
+
+// 샘플 바이트에서 전체 방언 감지 후 사용자 지정값으로 덮어씀
+export function resolveDialect(head: Buffer, truncated: boolean, overrides: CsvDialectOverrides = {}): CsvDialect {
+  const encoding = overrides.encoding || detectEncoding(head, truncated);
+  const sniffed = sniffDialect(iconv.decode(head, encoding), truncated);
+
+  return {
+    encoding,
+    delimiter: overrides.delimiter ?? sniffed.delimiter,
+    quote: overrides.quote ?? sniffed.quote,
+    headerRow: overrides.headerRow ?? sniffed.headerRow,
+    hasHeader: overrides.hasHeader ?? sniffed.hasHeader
+  };
+}
+
+// 요청 쿼리 파라미터에서 사용자 지정값 읽기
+export function readDialectOverrides(params: URLSearchParams): CsvDialectOverrides {
+  const overrides: CsvDialectOverrides = {};
+
+  const encoding = params.get('encoding');
+  if (encoding) overrides.encoding = encoding.trim();
+
+  const delimiter = params.get('delimiter');
+  if (delimiter) overrides.delimiter = delimiter === 'tab' || delimiter === '\\t' ? '\t' : delimiter;
+
+  const quote = params.get('quote');
+  if (quote) overrides.quote = quote;
+
+  const headerRow = params.get('headerRow');
+  if (headerRow !== null && headerRow !== '') overrides.headerRow = Number(headerRow);
+
+  const hasHeader = params.get('hasHeader');
+  if (hasHeader === 'true' || hasHeader === 'false') overrides.hasHeader = hasHeader === 'true';
+
+  return overrides;
+}
+
+// 사용자 지정값 검증 (오류 메시지 반환, 문제 없으면 null)
+export function validateDialectOverrides(overrides: CsvDialectOverrides): string | null {
+  if (overrides.encoding !== undefined && !iconv.encodingExists(overrides.encoding)) {
+    return `지원하지 않는 인코딩입니다: ${overrides.encoding}`;
+  }
+  if (overrides.delimiter !== undefined && overrides.delimiter.length !== 1) {
+    return '구분자는 한 글자여야 합니다.';
+  }
+  if (overrides.quote !== undefined && overrides.quote.length !== 1) {
+    return '따옴표 문자는 한 글자여야 합니다.';
+  }
+  if (overrides.headerRow !== undefined && (!Number.isInteger(overrides.headerRow) || overrides.headerRow < 0)) {
+    return '헤더 행 위치는 0 이상의 정수여야 합니다.';
+  }
+  return null;
+}
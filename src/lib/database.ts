@@ -1,5 +1,7 @@
 import Database from 'better-sqlite3';
 import path from 'path';
+import { getSchemaVersion, runMigrations } from './migrations';
+import { registerSqlFunctions } from './sandbox/sql-functions';
 
 // 데이터베이스 인터페이스 정의
 export interface DatabaseRow {
@@ -18,13 +20,15 @@ export interface DatabaseResult {
 // 데이터베이스 추상화 클래스
 export class DatabaseManager {
   private db: Database.Database;
+  private dbPath: string;
   private static instance: DatabaseManager;
 
   private constructor() {
-    const dbPath = path.join(process.cwd(), 'data', 'database.db');
-    this.db = new Database(dbPath);
+    this.dbPath = path.join(process.cwd(), 'data', 'database.db');
+    this.db = new Database(this.dbPath);
     this.db.pragma('journal_mode = WAL');
-    this.initializeTables();
+    runMigrations(this.db);
+    registerSqlFunctions(this.db);
   }
 
   public static getInstance(): DatabaseManager {
@@ -34,36 +38,6 @@ export class DatabaseManager {
     return DatabaseManager.instance;
   }
 
-  private initializeTables(): void {
-    // files 테이블 생성
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS files (
-        id TEXT PRIMARY KEY,
-        name TEXT NOT NULL,
-        displayName TEXT,
-        type TEXT NOT NULL,
-        size INTEGER NOT NULL,
-        uploadedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
-        columns TEXT NOT NULL,
-        columnCount INTEGER NOT NULL,
-        rowCount INTEGER NOT NULL,
-        columnMapping TEXT NOT NULL
-      )
-    `);
-
-    // chat_history 테이블 생성
-    this.db.exec(`
-      CREATE TABLE IF NOT EXISTS chat_history (
-        id INTEGER PRIMARY KEY AUTOINCREMENT,
-        fileId TEXT NOT NULL,
-        userMessage TEXT NOT NULL,
-        aiResponse TEXT NOT NULL,
-        timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
-        FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE
-      )
-    `);
-  }
-
   // SELECT 쿼리 실행
   public select(query: string, params: unknown[] = []): DatabaseResult {
     try {
@@ -118,6 +92,29 @@ export class DatabaseManager {
     }
   }
 
+  // 동일한 쿼리를 여러 파라미터로 반복 실행 (하나의 트랜잭션)
+  public executeMany(query: string, paramsList: unknown[][]): DatabaseResult {
+    try {
+      const stmt = this.db.prepare(query);
+      const runAll = this.db.transaction((rows: unknown[][]) => {
+        let changes = 0;
+        for (const params of rows) {
+          changes += stmt.run(...params).changes;
+        }
+        return changes;
+      });
+      return {
+        success: true,
+        changes: runAll(paramsList)
+      };
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
+
   // 트랜잭션 실행
   public transaction<T>(callback: () => T): { success: boolean; result?: T; error?: string } {
     const transaction = this.db.transaction(() => {
@@ -135,6 +132,37 @@ export class DatabaseManager {
     }
   }
 
+  // SQL에서 호출할 사용자 정의 함수 등록 (같은 이름이면 덮어씀)
+  public defineFunction(
+    name: string,
+    options: Database.RegistrationOptions,
+    fn: (...params: unknown[]) => unknown
+  ): void {
+    this.db.function(name, options, fn);
+  }
+
+  // 온라인 백업 API로 현재 데이터베이스를 파일로 복사 (서버 실행 중에도 일관된 시점의 사본)
+  public async backup(destination: string): Promise<void> {
+    await this.db.backup(destination);
+  }
+
+  // 다른 데이터베이스 파일의 내용으로 현재 데이터베이스를 덮어씀
+  // 연결은 그대로 두고 페이지 단위로 교체한 뒤, 이전 스키마 버전이면 마이그레이션 적용
+  public async restore(source: string): Promise<void> {
+    const sourceDb = new Database(source, { readonly: true, fileMustExist: true });
+    try {
+      await sourceDb.backup(this.dbPath);
+    } finally {
+      sourceDb.close();
+    }
+    runMigrations(this.db);
+  }
+
+  // 적용된 스키마 마이그레이션 버전
+  public getSchemaVersion(): number {
+    return getSchemaVersion(this.db);
+  }
+
   // 테이블 정보 조회
   public getTableInfo(tableName: string): DatabaseResult {
     return this.select(`PRAGMA table_info("${tableName}")`);
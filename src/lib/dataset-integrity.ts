@@ -0,0 +1,260 @@
+import { db } from './database';
+import { getAnalyticsStore } from './analytics-store';
+import { dropDatasetTable, getDataTableName, getDatasetTables } from './datasets';
+import { deleteDerivedRecord, getDependentViews } from './derived-datasets';
+import { deleteIndexRecords } from './indexes';
+import { deleteDatasetProfile } from './profiling';
+import { deleteRejections } from './rejections';
+import { deleteStoredFiles } from './uploads';
+import { deleteVersions, getVersionTableName } from './versions';
+import { removeDatasetFromWorkspaces } from './workspaces';
+import { ACTIVE_INGEST_JOB_STATUSES } from '@/types';
+
+// files 행이나 버전 기록이 가리키지만 실제로 없는 테이블 (version이 있으면 이전 버전 보관 테이블)
+export interface MissingTable {
+  fileId: string;
+  tableName: string;
+  version: number | null;
+}
+
+// 데이터셋 ID 기준으로 저장되는 기록 중 files 행이 없는 것
+export interface OrphanRecords {
+  table: string;
+  fileIds: string[];
+  count: number;
+}
+
+export interface IntegrityReport {
+  orphanTables: string[];           // 어떤 데이터셋에도 속하지 않는 data_* 테이블
+  missingTables: MissingTable[];
+  orphanRecords: OrphanRecords[];
+  checkedAt: string;
+}
+
+export interface IntegrityRepair {
+  droppedTables: string[];
+  deletedDatasets: string[];        // 현재 테이블이 없어 삭제한 데이터셋
+  deletedVersions: { fileId: string; version: number }[];
+  deletedRecords: { table: string; count: number }[];
+}
+
+// 데이터셋 ID로 연결되는 메타데이터 테이블
+const DATASET_RECORD_TABLES = [
+  'chat_history', 'column_profiles', 'dataset_versions', 'ingest_rejections', 'dataset_indexes', 'query_scan_stats',
+  'derived_datasets'
+];
+
+function run(query: string, params: unknown[] = []): void {
+  const result = db.execute(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+function selectAll(query: string, params: unknown[] = []) {
+  const result = db.select(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!;
+}
+
+// 데이터셋 하나를 관련 기록과 함께 한 번에 삭제 (하나라도 실패하면 아무것도 지우지 않음)
+// 보관된 원본 파일은 삭제가 반영된 뒤에 지움
+export async function deleteDataset(fileId: string): Promise<void> {
+  const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [fileId]);
+  if (!fileResult.success || !fileResult.data?.[0]) {
+    throw new Error('파일을 찾을 수 없습니다.');
+  }
+  const tables = getDatasetTables(fileResult.data[0]);
+
+  // 이 데이터셋을 읽는 파생 뷰가 있으면 뷰가 깨지므로 먼저 삭제하게 함
+  const dependentViews = getDependentViews(fileId);
+  if (dependentViews.length > 0) {
+    throw new Error(`이 데이터셋을 읽는 파생 데이터셋을 먼저 삭제해주세요: ${dependentViews.map(view => view.name).join(', ')}`);
+  }
+
+  const result = db.transaction(() => {
+    run('DELETE FROM chat_history WHERE fileId = ?', [fileId]);
+    deleteVersions(fileId);
+    deleteRejections(fileId);
+    deleteDatasetProfile(fileId);
+    deleteIndexRecords(fileId);
+    removeDatasetFromWorkspaces(fileId);
+    deleteDerivedRecord(fileId);
+    tables.forEach(table => dropDatasetTable(table.tableName));
+    run('DELETE FROM ingest_jobs WHERE fileId = ?', [fileId]);
+    run('DELETE FROM files WHERE id = ?', [fileId]);
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  console.log(`[DATASET] 데이터셋 삭제 완료: ${fileId} (테이블 ${tables.length}개)`);
+
+  try {
+    await deleteStoredFiles(fileId);
+  } catch (storageError) {
+    console.error('[DATASET] 원본 파일 삭제 실패:', storageError);
+  }
+
+  // DuckDB 저장소를 쓰면 분석용 복사본도 삭제
+  try {
+    const store = await getAnalyticsStore();
+    await store.dropTables(tables.map(table => table.tableName));
+  } catch (storeError) {
+    console.error('[DATASET] 분석용 복사본 삭제 실패:', storeError);
+  }
+}
+
+// 가져오는 중인 데이터셋 (아직 files 행이 없으므로 검사에서 제외)
+function getActiveJobFileIds(): Set<string> {
+  const rows = selectAll(
+    `SELECT DISTINCT fileId FROM ingest_jobs WHERE status IN (${ACTIVE_INGEST_JOB_STATUSES.map(() => '?').join(', ')})`,
+    ACTIVE_INGEST_JOB_STATUSES
+  );
+  return new Set(rows.map(row => row.fileId as string));
+}
+
+function belongsTo(tableName: string, fileId: string): boolean {
+  const prefix = getDataTableName(fileId);
+  return tableName === prefix || tableName.startsWith(`${prefix}_`);
+}
+
+// data_* 테이블과 files 행, 버전 기록, 데이터셋별 메타데이터가 서로 맞는지 검사
+export function checkDatasetIntegrity(): IntegrityReport {
+  const activeFileIds = getActiveJobFileIds();
+  const files = selectAll('SELECT * FROM files');
+  const fileIds = new Set(files.map(file => file.id as string));
+  const existingTables = new Set(
+    selectAll(`SELECT name FROM sqlite_master WHERE type IN ('table', 'view') AND name LIKE 'data\\_%' ESCAPE '\\'`)
+      .map(row => row.name as string)
+  );
+
+  const expectedTables = new Set<string>();
+  const missingTables: MissingTable[] = [];
+
+  files.forEach(file => {
+    getDatasetTables(file).forEach(table => {
+      expectedTables.add(table.tableName);
+      if (!existingTables.has(table.tableName)) {
+        missingTables.push({ fileId: file.id as string, tableName: table.tableName, version: null });
+      }
+    });
+  });
+
+  // 현재 버전이 아닌 버전의 데이터는 보관 테이블에 있음
+  const versions = selectAll(
+    `SELECT v.fileId, v.version, v.tables FROM dataset_versions v
+     WHERE v.version < (SELECT MAX(version) FROM dataset_versions WHERE fileId = v.fileId)`
+  );
+  versions.forEach(row => {
+    const fileId = row.fileId as string;
+    if (!fileIds.has(fileId)) return;
+    (JSON.parse(row.tables as string) as { tableName: string }[]).forEach(table => {
+      const archiveTableName = getVersionTableName(table.tableName, row.version as number);
+      expectedTables.add(archiveTableName);
+      if (!existingTables.has(archiveTableName)) {
+        missingTables.push({ fileId, tableName: archiveTableName, version: row.version as number });
+      }
+    });
+  });
+
+  const activeIds = Array.from(activeFileIds);
+  const orphanTables = Array.from(existingTables)
+    .filter(name => !expectedTables.has(name))
+    .filter(name => !activeIds.some(fileId => belongsTo(name, fileId)))
+    .sort();
+
+  const orphanRecords = DATASET_RECORD_TABLES.map(table => {
+    const rows = selectAll(
+      `SELECT fileId, COUNT(*) AS count FROM ${table} WHERE fileId NOT IN (SELECT id FROM files) GROUP BY fileId`
+    ).filter(row => !activeFileIds.has(row.fileId as string));
+    return {
+      table,
+      fileIds: rows.map(row => row.fileId as string),
+      count: rows.reduce((sum, row) => sum + (row.count as number), 0)
+    };
+  }).filter(records => records.count > 0);
+
+  return { orphanTables, missingTables, orphanRecords, checkedAt: new Date().toISOString() };
+}
+
+// 검사 결과 정리: 주인 없는 테이블/기록은 삭제하고, 현재 테이블이 없는 데이터셋은 삭제,
+// 보관 테이블이 없는 이전 버전은 버전 기록에서 제외
+export async function repairDatasetIntegrity(report: IntegrityReport = checkDatasetIntegrity()): Promise<IntegrityRepair> {
+  const repair: IntegrityRepair = { droppedTables: [], deletedDatasets: [], deletedVersions: [], deletedRecords: [] };
+
+  const result = db.transaction(() => {
+    report.orphanTables.forEach(tableName => {
+      dropDatasetTable(tableName);
+      repair.droppedTables.push(tableName);
+    });
+
+    report.missingTables
+      .filter(missing => missing.version !== null)
+      .forEach(missing => {
+        if (repair.deletedVersions.some(v => v.fileId === missing.fileId && v.version === missing.version)) return;
+        // 같은 버전의 다른 시트 보관 테이블도 함께 정리
+        const tables = selectAll(
+          'SELECT tables FROM dataset_versions WHERE fileId = ? AND version = ?',
+          [missing.fileId, missing.version]
+        );
+        tables.forEach(row => (JSON.parse(row.tables as string) as { tableName: string }[]).forEach(table => {
+          const archiveTableName = getVersionTableName(table.tableName, missing.version!);
+          run(`DROP TABLE IF EXISTS "${archiveTableName}"`);
+        }));
+        run('DELETE FROM dataset_versions WHERE fileId = ? AND version = ?', [missing.fileId, missing.version]);
+        deleteRejections(missing.fileId, missing.version!);
+        repair.deletedVersions.push({ fileId: missing.fileId, version: missing.version! });
+      });
+
+    report.orphanRecords.forEach(records => {
+      records.fileIds.forEach(fileId => run(`DELETE FROM ${records.table} WHERE fileId = ?`, [fileId]));
+      repair.deletedRecords.push({ table: records.table, count: records.count });
+    });
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  // 현재 데이터가 없는 데이터셋은 복구할 수 없으므로 관련 기록과 함께 삭제
+  const brokenFileIds = Array.from(new Set(
+    report.missingTables.filter(missing => missing.version === null).map(missing => missing.fileId)
+  ));
+  for (const fileId of brokenFileIds) {
+    await deleteDataset(fileId);
+    repair.deletedDatasets.push(fileId);
+  }
+
+  console.log(
+    `[INTEGRITY] 정리 완료: 테이블 ${repair.droppedTables.length}개, 데이터셋 ${repair.deletedDatasets.length}개, ` +
+    `버전 ${repair.deletedVersions.length}개, 기록 ${repair.deletedRecords.reduce((sum, r) => sum + r.count, 0)}개`
+  );
+  return repair;
+}
+
+export function hasIntegrityIssues(report: IntegrityReport): boolean {
+  return report.orphanTables.length > 0 || report.missingTables.length > 0 || report.orphanRecords.length > 0;
+}
+
+// 서버 시작 시 검사 (DATASET_INTEGRITY_REPAIR=true 이면 발견한 문제를 바로 정리)
+export async function runStartupIntegrityCheck(): Promise<void> {
+  try {
+    const report = checkDatasetIntegrity();
+    if (!hasIntegrityIssues(report)) {
+      console.log('[INTEGRITY] 데이터셋 테이블과 메타데이터가 일치합니다.');
+      return;
+    }
+
+    console.warn('[INTEGRITY] 일치하지 않는 데이터 발견:', JSON.stringify({
+      orphanTables: report.orphanTables,
+      missingTables: report.missingTables,
+      orphanRecords: report.orphanRecords.map(({ table, count }) => ({ table, count }))
+    }));
+    if (process.env.DATASET_INTEGRITY_REPAIR === 'true') {
+      await repairDatasetIntegrity(report);
+    }
+  } catch (error) {
+    console.error('[INTEGRITY] 시작 시 검사 실패:', error);
+  }
+}
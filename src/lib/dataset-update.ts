@@ -0,0 +1,240 @@
+import { db } from './database';
+import { DatasetTable } from './datasets';
+import { IngestResult } from './ingestion';
+import { normalizeColumnNames } from '@/shared/lib/utils';
+import { ColumnChange, ColumnTypeConflict, DatasetUpdateMode, SchemaReconciliation } from '@/types';
+
+// 임시 테이블에 먼저 저장한 업로드 시트
+export interface IncomingTable {
+  name: string;
+  tableName: string;
+  result: IngestResult;
+}
+
+// 대상 테이블 하나에 대한 갱신 계획
+export interface TableUpdatePlan {
+  target: DatasetTable;
+  incoming: IncomingTable;
+  reconciliation: SchemaReconciliation;
+  columnMapping: Record<string, string>;          // 갱신 후 원본 → 저장 컬럼 (최종 순서)
+  columnTypes: Record<string, string>;            // 갱신 후 저장 컬럼 → 타입
+  sources: Record<string, string | null>;         // 저장 컬럼 → 새 데이터의 컬럼 (없으면 NULL)
+}
+
+const NUMERIC_TYPE_ORDER = ['BOOLEAN', 'INTEGER', 'REAL'];
+
+function run(query: string, params: unknown[] = []): void {
+  const result = db.execute(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+function quote(column: string): string {
+  return `"${column}"`;
+}
+
+// 테이블의 저장 컬럼 → 선언 타입
+export function getColumnTypes(tableName: string): Record<string, string> {
+  const result = db.getTableInfo(tableName);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || `테이블 정보를 읽을 수 없습니다: ${tableName}`);
+  }
+  const types: Record<string, string> = {};
+  result.data.forEach(col => {
+    types[col.name as string] = ((col.type as string) || 'TEXT').toUpperCase();
+  });
+  return types;
+}
+
+// 새 값을 기존 컬럼에 그대로 넣어도 되는지 (TEXT는 모두 수용, 숫자는 넓은 쪽이 수용)
+function isCompatible(existingType: string, incomingType: string): boolean {
+  if (existingType === incomingType || existingType === 'TEXT') return true;
+  const existingRank = NUMERIC_TYPE_ORDER.indexOf(existingType);
+  const incomingRank = NUMERIC_TYPE_ORDER.indexOf(incomingType);
+  return existingRank !== -1 && incomingRank !== -1 && incomingRank <= existingRank;
+}
+
+// 두 타입을 모두 담을 수 있는 타입 (숫자끼리는 넓은 쪽, 그 외는 TEXT)
+function widenType(a: string, b: string): string {
+  const rankA = NUMERIC_TYPE_ORDER.indexOf(a);
+  const rankB = NUMERIC_TYPE_ORDER.indexOf(b);
+  if (rankA !== -1 && rankB !== -1) return NUMERIC_TYPE_ORDER[Math.max(rankA, rankB)];
+  return 'TEXT';
+}
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+// 업로드 시트를 데이터셋 테이블에 대응 (시트 이름 기준, 양쪽 모두 하나면 그대로 대응)
+export function matchIncomingTables(
+  targets: DatasetTable[],
+  incoming: IncomingTable[]
+): { matches: [DatasetTable, IncomingTable][]; unmatched: string[] } {
+  if (targets.length === 1 && incoming.length === 1) {
+    return { matches: [[targets[0], incoming[0]]], unmatched: [] };
+  }
+
+  const matches: [DatasetTable, IncomingTable][] = [];
+  const unmatched: string[] = [];
+  incoming.forEach(table => {
+    const target = targets.find(candidate => normalizeLabel(candidate.name) === normalizeLabel(table.name));
+    if (target) {
+      matches.push([target, table]);
+    } else {
+      unmatched.push(table.name);
+    }
+  });
+  return { matches, unmatched };
+}
+
+// 새 데이터의 컬럼을 기존 columnMapping과 대조해 갱신 후 스키마 결정
+export function planTableUpdate(
+  target: DatasetTable,
+  incoming: IncomingTable,
+  mode: DatasetUpdateMode
+): TableUpdatePlan {
+  const existingTypes = getColumnTypes(target.tableName);
+  const existingEntries = Object.entries(target.columnMapping);
+  const { columns: incomingOriginals, columnMapping: incomingMapping, columnTypes: incomingTypes } = incoming.result;
+
+  // 원본 컬럼명 일치 → 대소문자/공백 무시 일치 → 저장 컬럼명 일치 순으로 대응
+  const matchedExisting = new Map<string, string>(); // 새 원본 → 기존 원본
+  const usedExisting = new Set<string>();
+  const findExisting = (predicate: (original: string, column: string) => boolean) =>
+    existingEntries.find(([original, column]) => !usedExisting.has(original) && predicate(original, column));
+
+  incomingOriginals.forEach(original => {
+    const match = findExisting(existing => existing === original)
+      || findExisting(existing => normalizeLabel(existing) === normalizeLabel(original))
+      || findExisting((_, column) => column.toLowerCase() === incomingMapping[original].toLowerCase());
+    if (match) {
+      matchedExisting.set(original, match[0]);
+      usedExisting.add(match[0]);
+    }
+  });
+
+  // 새로 생긴 컬럼은 기존 저장 컬럼명과 겹치지 않게 정규화
+  const addedOriginals = incomingOriginals.filter(original => !matchedExisting.has(original));
+  const existingColumns = existingEntries.map(([, column]) => column);
+  const { normalizedColumns } = normalizeColumnNames([...existingColumns, ...addedOriginals]);
+  const addedColumns = new Map(addedOriginals.map((original, index) =>
+    [original, normalizedColumns[existingColumns.length + index]]
+  ));
+
+  const added: ColumnChange[] = addedOriginals.map(original => ({
+    original,
+    column: addedColumns.get(original)!,
+    type: incomingTypes[incomingMapping[original]]
+  }));
+
+  const missing: ColumnChange[] = existingEntries
+    .filter(([original]) => !usedExisting.has(original))
+    .map(([original, column]) => ({ original, column, type: existingTypes[column] || 'TEXT' }));
+
+  const conflicts: ColumnTypeConflict[] = [];
+  matchedExisting.forEach((existingOriginal, original) => {
+    const column = target.columnMapping[existingOriginal];
+    const existingType = existingTypes[column] || 'TEXT';
+    const incomingType = incomingTypes[incomingMapping[original]];
+    if (!isCompatible(existingType, incomingType)) {
+      conflicts.push({
+        original: existingOriginal,
+        column,
+        existingType,
+        incomingType,
+        // 교체는 새 데이터 타입을 따르고, 추가는 두 타입을 모두 담을 수 있게 넓힘
+        resolvedType: mode === 'replace' ? incomingType : widenType(existingType, incomingType)
+      });
+    }
+  });
+
+  const columnMapping: Record<string, string> = {};
+  const columnTypes: Record<string, string> = {};
+  const sources: Record<string, string | null> = {};
+
+  if (mode === 'append') {
+    // 기존 컬럼 순서 유지 (빠진 컬럼은 NULL), 새 컬럼은 뒤에 추가
+    const incomingByExisting = new Map(Array.from(matchedExisting, ([original, existing]) => [existing, original]));
+    existingEntries.forEach(([original, column]) => {
+      const incomingOriginal = incomingByExisting.get(original);
+      const conflict = conflicts.find(item => item.column === column);
+      columnMapping[original] = column;
+      columnTypes[column] = conflict ? conflict.resolvedType : existingTypes[column] || 'TEXT';
+      sources[column] = incomingOriginal ? incomingMapping[incomingOriginal] : null;
+    });
+  }
+
+  // 교체는 새 데이터의 컬럼 구성을 따르되 대응되는 컬럼은 기존 이름 유지
+  incomingOriginals.forEach(original => {
+    const existingOriginal = matchedExisting.get(original);
+    if (mode === 'append' && existingOriginal) return;
+
+    const label = existingOriginal || original;
+    const column = existingOriginal ? target.columnMapping[existingOriginal] : addedColumns.get(original)!;
+    columnMapping[label] = column;
+    columnTypes[column] = incomingTypes[incomingMapping[original]];
+    sources[column] = incomingMapping[original];
+  });
+
+  return {
+    target,
+    incoming,
+    reconciliation: { sheet: target.name, tableName: target.tableName, added, missing, conflicts },
+    columnMapping,
+    columnTypes,
+    sources
+  };
+}
+
+// 갱신 계획 적용: 기존 데이터는 보관 테이블(sourceTableName)로 옮겨진 상태에서
+// 대상 테이블을 새로 만들고 (추가 모드면 기존 행 복사 후) 새 데이터 삽입
+export function applyTableUpdate(plan: TableUpdatePlan, mode: DatasetUpdateMode, sourceTableName: string): DatasetTable {
+  const { target, incoming, columnMapping, columnTypes, sources } = plan;
+  const columns = Object.values(columnMapping);
+  const sourceColumns = columns.filter(column => sources[column] !== null);
+
+  run(`DROP TABLE IF EXISTS ${quote(target.tableName)}`);
+  run(`CREATE TABLE ${quote(target.tableName)} (${columns.map(column => `${quote(column)} ${columnTypes[column]}`).join(', ')})`);
+
+  if (mode === 'append') {
+    const existingColumns = Object.values(target.columnMapping).map(quote).join(', ');
+    run(`INSERT INTO ${quote(target.tableName)} (${existingColumns}) SELECT ${existingColumns} FROM ${quote(sourceTableName)}`);
+  }
+  run(
+    `INSERT INTO ${quote(target.tableName)} (${sourceColumns.map(quote).join(', ')})
+     SELECT ${sourceColumns.map(column => quote(sources[column]!)).join(', ')} FROM ${quote(incoming.tableName)}`
+  );
+
+  const countResult = db.selectOne(`SELECT COUNT(*) AS count FROM ${quote(target.tableName)}`);
+  if (!countResult.success) {
+    throw new Error(countResult.error);
+  }
+
+  return {
+    name: target.name,
+    tableName: target.tableName,
+    columns: Object.keys(columnMapping),
+    columnMapping,
+    rowCount: countResult.data![0].count as number
+  };
+}
+
+// 갱신된 테이블 정보로 files 행의 컬럼/행 수 정보 갱신
+export function updateDatasetMetadata(fileId: string, tables: DatasetTable[], hasSheets: boolean, size: number): void {
+  const { columns, columnMapping, rowCount } = tables[0];
+  const result = db.execute(
+    `UPDATE files SET columns = ?, columnCount = ?, rowCount = ?, columnMapping = ?, sheets = ?, size = ? WHERE id = ?`,
+    [
+      JSON.stringify(columns),
+      columns.length,
+      rowCount,
+      JSON.stringify(columnMapping),
+      hasSheets ? JSON.stringify(tables) : null,
+      size,
+      fileId
+    ]
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
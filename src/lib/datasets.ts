@@ -0,0 +1,65 @@
+import { db, DatabaseRow } from './database';
+
+// 데이터셋을 구성하는 개별 테이블 (Excel 시트 하나 = 테이블 하나)
+export interface DatasetTable {
+  name: string;
+  tableName: string;
+  columns: string[];
+  columnMapping: Record<string, string>;
+  rowCount: number;
+}
+
+// 데이터셋의 기본 테이블명
+export function getDataTableName(fileId: string): string {
+  return `data_${fileId}`;
+}
+
+// 시트 순서에 따른 테이블명 (첫 시트는 기본 테이블명 사용)
+export function getSheetTableName(fileId: string, sheetIndex: number): string {
+  return sheetIndex === 0 ? getDataTableName(fileId) : `${getDataTableName(fileId)}_${sheetIndex}`;
+}
+
+// 가져오는 중인 테이블의 임시 이름 (files 행을 저장할 때 실제 이름으로 바뀜)
+export function getPendingTableName(tableName: string): string {
+  return `${tableName}__pending`;
+}
+
+// files 행에서 데이터셋 테이블 목록 구성
+export function getDatasetTables(file: DatabaseRow): DatasetTable[] {
+  const sheets = JSON.parse((file.sheets as string) || 'null') as DatasetTable[] | null;
+  if (sheets && sheets.length > 0) {
+    return sheets;
+  }
+
+  // 단일 테이블 데이터셋 (CSV 또는 시트 정보가 없는 이전 업로드)
+  return [{
+    name: (file.name as string) || '',
+    tableName: getDataTableName(file.id as string),
+    columns: JSON.parse((file.columns as string) || '[]'),
+    columnMapping: JSON.parse((file.columnMapping as string) || '{}'),
+    rowCount: (file.rowCount as number) || 0
+  }];
+}
+
+// 파일 ID로 데이터셋 테이블 목록 조회
+export function getDatasetTablesById(fileId: string): DatasetTable[] | null {
+  const result = db.selectOne('SELECT * FROM files WHERE id = ?', [fileId]);
+  if (!result.success || !result.data?.[0]) {
+    return null;
+  }
+  return getDatasetTables(result.data[0]);
+}
+
+// 데이터셋 테이블 삭제 (뷰로 만든 파생 데이터셋은 DROP VIEW)
+export function dropDatasetTable(tableName: string): void {
+  const result = db.selectOne('SELECT type FROM sqlite_master WHERE name = ?', [tableName]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  const type = result.data![0]?.type;
+  if (type !== 'table' && type !== 'view') return;
+  const dropResult = db.execute(`DROP ${type === 'view' ? 'VIEW' : 'TABLE'} "${tableName}"`);
+  if (!dropResult.success) {
+    throw new Error(dropResult.error);
+  }
+}
@@ -0,0 +1,318 @@
+import { db, DatabaseRow } from './database';
+import { DatasetTable, getDataTableName, getDatasetTables, getPendingTableName } from './datasets';
+import { updateDatasetMetadata } from './dataset-update';
+import { getAnalyticsStore } from './analytics-store';
+import { restoreIndexes } from './indexes';
+import { profileDataset } from './profiling';
+import { analyzeSqliteQuery } from './sql-validation';
+import { archiveCurrentTables, getCurrentVersion, recordVersion } from './versions';
+import { generateId, normalizeColumnNames } from '@/shared/lib/utils';
+import { DatasetLineage, DerivedKind } from '@/types';
+
+// 파생 데이터셋: 원본 데이터셋에 대한 SELECT 쿼리를 이름 붙여 저장한 데이터셋
+// files 행과 data_<id> 이름을 그대로 쓰므로 목록/대화/프로필 등은 일반 데이터셋과 같이 동작
+// view는 원본 테이블을 읽는 SQLite 뷰, table은 쿼리 결과를 저장한 테이블 (인덱스 사용 가능)
+// 원본이 새 버전이 되면 뷰는 SQLite가 이름 변경을 따라가 이전 버전 보관 테이블을 읽으므로,
+// 두 방식 모두 새로 고침 전까지는 만들 때 기준이 된 원본 버전의 데이터를 보여줌
+export const DERIVED_KINDS: DerivedKind[] = ['view', 'table'];
+
+const MAX_NAME_LENGTH = 100;
+
+export interface DerivedDatasetPlan {
+  name: string;
+  kind: DerivedKind;
+  query: string;
+}
+
+const quote = (name: string) => `"${name}"`;
+
+function run(query: string, params: unknown[] = []): void {
+  const result = db.execute(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+function selectAll(query: string, params: unknown[] = []): DatabaseRow[] {
+  const result = db.select(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!;
+}
+
+// 요청 본문 검증 (name, kind, query)
+export function planDerivedDataset(input: unknown): DerivedDatasetPlan | { error: string } {
+  const { name, kind = 'view', query } = (input || {}) as Record<string, unknown>;
+  if (typeof name !== 'string' || !name.trim()) {
+    return { error: '파생 데이터셋 이름(name)이 필요합니다.' };
+  }
+  if (name.trim().length > MAX_NAME_LENGTH) {
+    return { error: `이름은 ${MAX_NAME_LENGTH}자 이하로 입력해주세요.` };
+  }
+  if (!DERIVED_KINDS.includes(kind as DerivedKind)) {
+    return { error: `kind는 ${DERIVED_KINDS.join(', ')} 중 하나여야 합니다.` };
+  }
+  if (typeof query !== 'string' || !query.trim()) {
+    return { error: 'SELECT 쿼리(query)가 필요합니다.' };
+  }
+  return { name: name.trim(), kind: kind as DerivedKind, query: query.trim().replace(/;+$/, '') };
+}
+
+// 테이블 목록과 그중 뷰가 실제로 읽는 테이블 (파생 데이터셋 뷰를 쿼리하면 원본 테이블까지 읽음)
+export function getReadableTables(tableNames: string[]): string[] {
+  const tables = new Set(tableNames);
+  if (tableNames.length === 0) return [];
+  const views = selectAll(
+    `SELECT name FROM sqlite_master WHERE type = 'view' AND name IN (${tableNames.map(() => '?').join(', ')})`,
+    tableNames
+  );
+  views.forEach(view => {
+    const analysis = analyzeSqliteQuery(`SELECT * FROM ${quote(view.name as string)}`);
+    if ('error' in analysis) {
+      throw new Error(`뷰를 읽을 수 없습니다: ${view.name} (${analysis.error})`);
+    }
+    analysis.tables.forEach(table => tables.add(table));
+  });
+  return [...tables];
+}
+
+// 원본 데이터셋 테이블만 읽는 읽기 전용 쿼리인지 확인
+function validateDerivedQuery(sourceTables: DatasetTable[], query: string): void {
+  const analysis = analyzeSqliteQuery(query);
+  if ('error' in analysis) {
+    throw new Error(analysis.error);
+  }
+  const allowed = getReadableTables(sourceTables.map(table => table.tableName));
+  const outsideTables = analysis.tables.filter(name => !allowed.includes(name));
+  if (outsideTables.length > 0 || analysis.tables.length === 0) {
+    throw new Error(`원본 데이터셋의 테이블(${sourceTables.map(table => table.tableName).join(', ')})만 사용할 수 있습니다.`);
+  }
+}
+
+// 선언 타입이 없는 계산 컬럼은 값의 저장 형식으로 타입 결정 (정수만 있으면 INTEGER, 실수가 섞이면 REAL, 그 외 TEXT)
+function inferResultType(viewName: string, column: string): string {
+  const [counts] = selectAll(
+    `SELECT SUM(typeof(${quote(column)}) IN ('text', 'blob')) AS texts,
+            SUM(typeof(${quote(column)}) = 'real') AS reals,
+            SUM(typeof(${quote(column)}) = 'integer') AS integers
+     FROM ${quote(viewName)}`
+  );
+  if (counts.texts || (!counts.integers && !counts.reals)) return 'TEXT';
+  return counts.reals ? 'REAL' : 'INTEGER';
+}
+
+// 쿼리로 파생 데이터셋 테이블(또는 뷰) 생성, 호출한 쪽의 트랜잭션 안에서 실행
+// 결과 컬럼 이름은 업로드와 같은 규칙으로 정규화 (columnMapping: 쿼리 결과 컬럼명 → 저장 컬럼명)
+function buildDerivedTable(name: string, tableName: string, kind: DerivedKind, query: string): DatasetTable {
+  const pendingName = getPendingTableName(tableName);
+  run(`DROP VIEW IF EXISTS ${quote(pendingName)}`);
+  run(`CREATE VIEW ${quote(pendingName)} AS ${query}`);
+
+  const outputColumns = selectAll(`PRAGMA table_info(${quote(pendingName)})`);
+  const columns = outputColumns.map(col => col.name as string);
+  const { normalizedColumns, columnMapping } = normalizeColumnNames(columns);
+  const storedColumns = normalizedColumns.map(quote).join(', ');
+
+  if (kind === 'view') {
+    run(`CREATE VIEW ${quote(tableName)} (${storedColumns}) AS ${query}`);
+  } else {
+    const definitions = outputColumns.map((col, index) => {
+      const type = ((col.type as string) || '').toUpperCase() || inferResultType(pendingName, col.name as string);
+      return `${quote(normalizedColumns[index])} ${type}`;
+    });
+    run(`CREATE TABLE ${quote(tableName)} (${definitions.join(', ')})`);
+    run(`INSERT INTO ${quote(tableName)} (${storedColumns}) SELECT * FROM ${quote(pendingName)}`);
+  }
+  run(`DROP VIEW ${quote(pendingName)}`);
+
+  const [{ count }] = selectAll(`SELECT COUNT(*) AS count FROM ${quote(tableName)}`);
+  return { name, tableName, columns, columnMapping, rowCount: count as number };
+}
+
+function getFileRow(fileId: string): DatabaseRow | null {
+  const result = db.selectOne('SELECT * FROM files WHERE id = ?', [fileId]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data![0] || null;
+}
+
+function toLineage(row: DatabaseRow, source: DatabaseRow | null): DatasetLineage {
+  const currentSourceVersion = source ? getCurrentVersion(row.sourceFileId as string) : null;
+  return {
+    sourceFileId: row.sourceFileId as string,
+    sourceName: source ? ((source.displayName as string) || (source.name as string)) : null,
+    kind: row.kind as DerivedKind,
+    query: row.query as string,
+    sourceVersion: row.sourceVersion as number,
+    currentSourceVersion,
+    stale: currentSourceVersion !== null && currentSourceVersion !== row.sourceVersion,
+    createdAt: row.createdAt as string,
+    refreshedAt: row.refreshedAt as string
+  };
+}
+
+// 파생 데이터셋의 계보 (일반 데이터셋이면 null)
+export function getLineage(fileId: string): DatasetLineage | null {
+  const [row] = selectAll('SELECT * FROM derived_datasets WHERE fileId = ?', [fileId]);
+  return row ? toLineage(row, getFileRow(row.sourceFileId as string)) : null;
+}
+
+// 모든 파생 데이터셋의 계보 (파일 목록용, fileId → 계보)
+export function listLineages(): Map<string, DatasetLineage> {
+  const rows = selectAll(
+    `SELECT d.*, f.id AS sourceId, f.name AS sourceFileName, f.displayName AS sourceDisplayName
+     FROM derived_datasets d LEFT JOIN files f ON f.id = d.sourceFileId`
+  );
+  return new Map(rows.map(row => [
+    row.fileId as string,
+    toLineage(row, row.sourceId ? { name: row.sourceFileName, displayName: row.sourceDisplayName } : null)
+  ]));
+}
+
+// 데이터셋에서 파생된 데이터셋 목록
+export function listDerivedDatasets(sourceFileId: string): ({ fileId: string; name: string; rowCount: number } & DatasetLineage)[] {
+  const source = getFileRow(sourceFileId);
+  return selectAll(
+    `SELECT d.*, f.name, f.displayName, f.rowCount FROM derived_datasets d JOIN files f ON f.id = d.fileId
+     WHERE d.sourceFileId = ? ORDER BY d.createdAt DESC`,
+    [sourceFileId]
+  ).map(row => ({
+    fileId: row.fileId as string,
+    name: (row.displayName as string) || (row.name as string),
+    rowCount: row.rowCount as number,
+    ...toLineage(row, source)
+  }));
+}
+
+export function isDerivedDataset(fileId: string): boolean {
+  return selectAll('SELECT 1 FROM derived_datasets WHERE fileId = ?', [fileId]).length > 0;
+}
+
+// 원본 데이터셋의 쿼리로 파생 데이터셋 생성 (원본 테이블만 읽는 SELECT 쿼리여야 함)
+export function createDerivedDataset(sourceFileId: string, plan: DerivedDatasetPlan): { fileId: string; table: DatasetTable; lineage: DatasetLineage } {
+  const source = getFileRow(sourceFileId);
+  if (!source) {
+    throw new Error('원본 데이터셋을 찾을 수 없습니다.');
+  }
+  validateDerivedQuery(getDatasetTables(source), plan.query);
+
+  const fileId = generateId();
+  const tableName = getDataTableName(fileId);
+  const sourceVersion = getCurrentVersion(sourceFileId);
+  const createdAt = new Date().toISOString();
+
+  const result = db.transaction(() => {
+    const table = buildDerivedTable(plan.name, tableName, plan.kind, plan.query);
+    run(
+      `INSERT INTO files (id, name, type, size, uploadedAt, columns, columnCount, rowCount, columnMapping, sheets)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, NULL)`,
+      [
+        fileId,
+        plan.name,
+        `derived/${plan.kind}`,
+        0,
+        createdAt,
+        JSON.stringify(table.columns),
+        table.columns.length,
+        table.rowCount,
+        JSON.stringify(table.columnMapping)
+      ]
+    );
+    recordVersion(fileId, { action: 'derive', tables: [table], size: 0, createdAt });
+    run(
+      `INSERT INTO derived_datasets (fileId, sourceFileId, kind, query, sourceVersion, createdAt, refreshedAt)
+       VALUES (?, ?, ?, ?, ?, ?, ?)`,
+      [fileId, sourceFileId, plan.kind, plan.query, sourceVersion, createdAt, createdAt]
+    );
+    return table;
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  console.log(`[DERIVED] 파생 데이터셋 생성: ${sourceFileId} → ${fileId} (${plan.kind}, ${result.result!.rowCount}행)`);
+
+  try {
+    profileDataset(fileId, [result.result!]);
+  } catch (profileError) {
+    console.error('[DERIVED] 컬럼 프로필 계산 실패:', profileError);
+  }
+  return { fileId, table: result.result!, lineage: getLineage(fileId)! };
+}
+
+// 원본의 현재 버전으로 파생 데이터셋을 다시 만듦
+// 저장 테이블은 이전 결과를 버전으로 보관하고 새 버전을 기록, 뷰는 원본 현재 테이블을 읽도록 다시 만듦
+export async function refreshDerivedDataset(fileId: string): Promise<{ table: DatasetTable; lineage: DatasetLineage }> {
+  const lineage = getLineage(fileId);
+  if (!lineage) {
+    throw new Error('파생 데이터셋이 아닙니다.');
+  }
+  const source = getFileRow(lineage.sourceFileId);
+  if (!source) {
+    throw new Error('원본 데이터셋이 삭제되어 새로 고칠 수 없습니다.');
+  }
+  validateDerivedQuery(getDatasetTables(source), lineage.query);
+
+  const file = getFileRow(fileId)!;
+  const [current] = getDatasetTables(file);
+  const sourceVersion = getCurrentVersion(lineage.sourceFileId);
+  const previousVersion = getCurrentVersion(fileId);
+  const refreshedAt = new Date().toISOString();
+
+  const result = db.transaction(() => {
+    if (lineage.kind === 'view') {
+      run(`DROP VIEW IF EXISTS ${quote(current.tableName)}`);
+    } else {
+      archiveCurrentTables([current], previousVersion);
+    }
+    const table = buildDerivedTable(current.name, current.tableName, lineage.kind, lineage.query);
+    updateDatasetMetadata(fileId, [table], false, 0);
+    if (lineage.kind === 'table') {
+      restoreIndexes(fileId, [table]);
+      recordVersion(fileId, { action: 'refresh', baseVersion: previousVersion, tables: [table], size: 0, createdAt: refreshedAt });
+    }
+    run(
+      'UPDATE derived_datasets SET sourceVersion = ?, refreshedAt = ? WHERE fileId = ?',
+      [sourceVersion, refreshedAt, fileId]
+    );
+    return table;
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  const table = result.result!;
+  console.log(`[DERIVED] 파생 데이터셋 새로 고침: ${fileId} (원본 버전 ${sourceVersion}, ${table.rowCount}행)`);
+
+  try {
+    profileDataset(fileId, [table]);
+  } catch (profileError) {
+    console.error('[DERIVED] 컬럼 프로필 계산 실패:', profileError);
+  }
+
+  // 뷰는 버전 번호가 그대로이므로 DuckDB 복사본을 지워 다시 만들게 함
+  if (lineage.kind === 'view') {
+    try {
+      const store = await getAnalyticsStore();
+      await store.dropTables([table.tableName]);
+    } catch (storeError) {
+      console.error('[DERIVED] 분석용 복사본 정리 실패:', storeError);
+    }
+  }
+  return { table, lineage: getLineage(fileId)! };
+}
+
+// 이 데이터셋을 읽는 파생 뷰 (원본을 삭제하면 뷰가 깨지므로 삭제 전에 확인)
+export function getDependentViews(sourceFileId: string): { fileId: string; name: string }[] {
+  return selectAll(
+    `SELECT d.fileId, f.name, f.displayName FROM derived_datasets d JOIN files f ON f.id = d.fileId
+     WHERE d.sourceFileId = ? AND d.kind = 'view'`,
+    [sourceFileId]
+  ).map(row => ({ fileId: row.fileId as string, name: (row.displayName as string) || (row.name as string) }));
+}
+
+// 파생 데이터셋 기록 삭제, 호출한 쪽의 트랜잭션 안에서 실행 (테이블/뷰는 데이터셋 삭제에서 함께 삭제)
+export function deleteDerivedRecord(fileId: string): void {
+  run('DELETE FROM derived_datasets WHERE fileId = ?', [fileId]);
+}
+
@@ -0,0 +1,342 @@
+import path from 'path';
+import { DuckDBConnection, DuckDBInstance, DuckDBTypeId, StatementType } from '@duckdb/node-api';
+import { db, DatabaseResult } from './database';
+import { AnalyticsStore, AnalyticsTableRef } from './analytics-store';
+import { QueryAnalysis } from './sql-validation';
+import { getColumnTypes } from './dataset-update';
+import { getCurrentVersion } from './versions';
+import { describeLimit, getQueryLimits } from './query-sandbox';
+
+// SQLite에서 한 번에 읽어 복사하는 행 수 (묶음 사이에 다른 요청을 처리)
+const COPY_BATCH_SIZE = 50000;
+// 복사 중 데이터가 바뀌었을 때 다시 복사하는 횟수
+const MAX_COPY_ATTEMPTS = 3;
+// 복사본이 어느 데이터셋 버전인지 기록하는 테이블
+const SYNC_TABLE = '_analytics_tables';
+
+// SQLite 선언 타입 → DuckDB 타입 (DATE는 문자열로 복사한 뒤 날짜/시각으로 변환)
+const DUCKDB_TYPES: Record<string, string> = {
+  INTEGER: 'BIGINT',
+  REAL: 'DOUBLE',
+  BOOLEAN: 'BOOLEAN',
+  DATE: 'VARCHAR',
+  TEXT: 'VARCHAR'
+};
+
+// JSON 변환 시 문자열로 나오는 숫자 타입 (결과에서는 숫자로 돌려줌)
+const NUMERIC_TEXT_TYPES = [
+  DuckDBTypeId.BIGINT,
+  DuckDBTypeId.UBIGINT,
+  DuckDBTypeId.HUGEINT,
+  DuckDBTypeId.UHUGEINT,
+  DuckDBTypeId.DECIMAL
+];
+
+// 쿼리에서 쓸 수 있는 테이블 함수 (파일 읽기, 시스템 카탈로그, 동적 쿼리 함수는 제외)
+const ALLOWED_TABLE_FUNCTIONS = ['unnest', 'range', 'generate_series', 'json_each', 'json_tree'];
+
+const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const errorMessage = (error: unknown) => error instanceof Error ? error.message : String(error);
+
+// 복사할 값 추가 (선언 타입과 맞지 않는 값은 NULL)
+function appendValue(
+  appender: Awaited<ReturnType<DuckDBConnection['createAppender']>>,
+  value: unknown,
+  type: string
+): void {
+  if (value === null || value === undefined) {
+    appender.appendNull();
+    return;
+  }
+  switch (DUCKDB_TYPES[type] || 'VARCHAR') {
+    case 'BIGINT':
+      if (typeof value === 'number' && Number.isInteger(value)) appender.appendBigInt(BigInt(value));
+      else if (typeof value === 'bigint') appender.appendBigInt(value);
+      else appender.appendNull();
+      return;
+    case 'DOUBLE':
+      if (typeof value === 'number') appender.appendDouble(value);
+      else appender.appendNull();
+      return;
+    case 'BOOLEAN':
+      if (typeof value === 'number') appender.appendBoolean(value !== 0);
+      else appender.appendNull();
+      return;
+    default:
+      appender.appendVarchar(String(value));
+  }
+}
+
+// 내장 DuckDB 파일(data/analytics.duckdb)에 데이터셋 테이블의 열 기반 복사본을 두고 분석 쿼리를 실행
+// 복사본은 쿼리 직전에 데이터셋 버전을 비교해 바뀐 테이블만 다시 만듦
+class DuckDBStore implements AnalyticsStore {
+  readonly backend = 'duckdb' as const;
+  readonly dialectName = 'DuckDB';
+  readonly unsupportedSyntax = ['top ', 'charindex(', 'patindex(', 'julianday('];
+  // 같은 테이블을 동시에 복사하지 않도록 진행 중인 복사 작업 공유
+  private syncing = new Map<string, Promise<void>>();
+
+  constructor(private instance: DuckDBInstance) {}
+
+  private async withConnection<T>(callback: (connection: DuckDBConnection) => Promise<T>): Promise<T> {
+    const connection = await this.instance.connect();
+    try {
+      return await callback(connection);
+    } finally {
+      connection.closeSync();
+    }
+  }
+
+  async initialize(): Promise<void> {
+    await this.withConnection(connection => connection.run(
+      `CREATE TABLE IF NOT EXISTS ${SYNC_TABLE} (
+        tableName VARCHAR PRIMARY KEY,
+        fileId VARCHAR NOT NULL,
+        version INTEGER NOT NULL,
+        syncedAt TIMESTAMP DEFAULT current_timestamp
+      )`
+    ));
+  }
+
+  private async getSyncedVersion(connection: DuckDBConnection, tableName: string): Promise<number | null> {
+    const reader = await connection.runAndReadAll(`SELECT version FROM ${SYNC_TABLE} WHERE tableName = $1`, [tableName]);
+    const row = reader.getRowObjectsJson()[0];
+    return row ? Number(row.version) : null;
+  }
+
+  // SQLite 테이블을 임시 테이블로 복사한 뒤 기존 복사본과 교체
+  private async copyTable(connection: DuckDBConnection, tableName: string): Promise<void> {
+    const types = getColumnTypes(tableName);
+    const columns = Object.keys(types);
+    const stagingName = `${tableName}__sync`;
+
+    await connection.run(`DROP TABLE IF EXISTS ${quote(stagingName)}`);
+    await connection.run(
+      `CREATE TABLE ${quote(stagingName)} (${columns.map(column => `${quote(column)} ${DUCKDB_TYPES[types[column]] || 'VARCHAR'}`).join(', ')})`
+    );
+
+    const appender = await connection.createAppender(stagingName);
+    const selectColumns = columns.map(column => quote(column)).join(', ');
+    // 파생 데이터셋 뷰는 rowid가 없으므로 순서대로 건너뛰며 읽음
+    const isView = db.selectOne(`SELECT 1 FROM sqlite_master WHERE type = 'view' AND name = ?`, [tableName]).rowCount === 1;
+    let lastRowId = 0;
+    for (let offset = 0; ; offset += COPY_BATCH_SIZE) {
+      const batch = isView
+        ? db.select(`SELECT ${selectColumns} FROM ${quote(tableName)} LIMIT ? OFFSET ?`, [COPY_BATCH_SIZE, offset])
+        : db.select(
+          `SELECT rowid AS __rowid, ${selectColumns} FROM ${quote(tableName)} WHERE rowid > ? ORDER BY rowid LIMIT ?`,
+          [lastRowId, COPY_BATCH_SIZE]
+        );
+      if (!batch.success) {
+        appender.closeSync();
+        throw new Error(batch.error);
+      }
+      for (const row of batch.data!) {
+        columns.forEach(column => appendValue(appender, row[column], types[column]));
+        appender.endRow();
+      }
+      if (batch.data!.length < COPY_BATCH_SIZE) break;
+      lastRowId = batch.data![batch.data!.length - 1].__rowid as number;
+      appender.flushSync();
+      await new Promise(resolve => setImmediate(resolve));
+    }
+    appender.flushSync();
+    appender.closeSync();
+
+    // 날짜 컬럼: 시각이 있는 값이 하나라도 있으면 TIMESTAMP, 아니면 DATE (해석할 수 없는 값은 NULL)
+    for (const column of columns.filter(name => types[name] === 'DATE')) {
+      const reader = await connection.runAndReadAll(
+        `SELECT bool_or(length(${quote(column)}) > 10) AS hasTime FROM ${quote(stagingName)}`
+      );
+      const targetType = reader.getRowObjectsJson()[0]?.hasTime ? 'TIMESTAMP' : 'DATE';
+      await connection.run(
+        `ALTER TABLE ${quote(stagingName)} ALTER ${quote(column)} TYPE ${targetType} USING TRY_CAST(${quote(column)} AS ${targetType})`
+      );
+    }
+
+    await connection.run('BEGIN TRANSACTION');
+    try {
+      await connection.run(`DROP TABLE IF EXISTS ${quote(tableName)}`);
+      await connection.run(`ALTER TABLE ${quote(stagingName)} RENAME TO ${quote(tableName)}`);
+      await connection.run('COMMIT');
+    } catch (error) {
+      await connection.run('ROLLBACK');
+      throw error;
+    }
+  }
+
+  // 복사본이 현재 데이터셋 버전과 다르면 다시 복사
+  private async syncTable(table: AnalyticsTableRef): Promise<void> {
+    await this.withConnection(async connection => {
+      for (let attempt = 1; attempt <= MAX_COPY_ATTEMPTS; attempt++) {
+        const version = getCurrentVersion(table.fileId);
+        if (await this.getSyncedVersion(connection, table.tableName) === version) return;
+
+        const startedAt = Date.now();
+        await this.copyTable(connection, table.tableName);
+
+        // 복사하는 동안 데이터가 바뀌었으면 다시 복사
+        if (getCurrentVersion(table.fileId) !== version) continue;
+
+        await connection.run(
+          `INSERT OR REPLACE INTO ${SYNC_TABLE} (tableName, fileId, version, syncedAt) VALUES ($1, $2, $3, current_timestamp)`,
+          [table.tableName, table.fileId, version]
+        );
+        console.log(`[ANALYTICS] ${table.tableName} 복사 완료 (버전 ${version}, ${Date.now() - startedAt}ms)`);
+        return;
+      }
+      throw new Error(`데이터가 계속 바뀌고 있어 분석용 복사본을 만들지 못했습니다: ${table.tableName}`);
+    });
+  }
+
+  private ensureSynced(table: AnalyticsTableRef): Promise<void> {
+    let pending = this.syncing.get(table.tableName);
+    if (!pending) {
+      pending = this.syncTable(table).finally(() => this.syncing.delete(table.tableName));
+      this.syncing.set(table.tableName, pending);
+    }
+    return pending;
+  }
+
+  // DuckDB 파서의 구문 트리(json_serialize_sql)에서 읽는 테이블 확인 (SELECT가 아닌 문장은 직렬화되지 않음)
+  async analyzeQuery(sql: string): Promise<QueryAnalysis | { error: string }> {
+    return this.withConnection(async connection => {
+      const statements = await connection.extractStatements(sql);
+      if (statements.count !== 1) {
+        return { error: '한 번에 하나의 SELECT 문만 실행할 수 있습니다.' };
+      }
+      const reader = await connection.runAndReadAll(`SELECT json_serialize_sql('${sql.replace(/'/g, "''")}') AS ast`);
+      const ast = JSON.parse(reader.getRowObjectsJson()[0].ast as string);
+      if (ast.error) {
+        return {
+          error: ast.error_type === 'not implemented' ? '보안상 SELECT 쿼리만 허용됩니다.' : ast.error_message
+        };
+      }
+
+      // CTE 이름으로 참조한 것은 테이블이 아님
+      const cteNames = new Set<string>();
+      const baseTables: { schema: string; catalog: string; name: string }[] = [];
+      const tableFunctions: string[] = [];
+      const visit = (node: unknown): void => {
+        if (Array.isArray(node)) {
+          node.forEach(visit);
+          return;
+        }
+        if (!node || typeof node !== 'object') return;
+        const record = node as Record<string, unknown>;
+        if (record.cte_map && typeof record.cte_map === 'object') {
+          ((record.cte_map as { map: { key: string }[] }).map || []).forEach(entry => cteNames.add(entry.key.toLowerCase()));
+        }
+        if (record.type === 'BASE_TABLE') {
+          baseTables.push({
+            schema: String(record.schema_name || ''),
+            catalog: String(record.catalog_name || ''),
+            name: String(record.table_name)
+          });
+        } else if (record.type === 'TABLE_FUNCTION') {
+          tableFunctions.push(String((record.function as { function_name?: string })?.function_name || '').toLowerCase());
+        }
+        Object.values(record).forEach(visit);
+      };
+      visit(ast.statements);
+
+      const blockedFunction = tableFunctions.find(name => !ALLOWED_TABLE_FUNCTIONS.includes(name));
+      if (blockedFunction) {
+        return { error: `테이블 함수는 ${ALLOWED_TABLE_FUNCTIONS.join(', ')}만 사용할 수 있습니다 (${blockedFunction}).` };
+      }
+      const tables = new Set<string>();
+      for (const table of baseTables) {
+        if (table.catalog || (table.schema && table.schema.toLowerCase() !== 'main')) {
+          return { error: '다른 스키마나 데이터베이스의 테이블은 조회할 수 없습니다.' };
+        }
+        if (!table.schema && cteNames.has(table.name.toLowerCase())) continue;
+        tables.add(table.name);
+      }
+      return { tables: [...tables] };
+    });
+  }
+
+  async query(sql: string, tables: AnalyticsTableRef[], rowLimit?: number): Promise<DatabaseResult> {
+    const limits = getQueryLimits();
+    try {
+      for (const table of tables) {
+        await this.ensureSynced(table);
+      }
+
+      return await this.withConnection(async connection => {
+        // 여러 문장을 이어 붙이거나 SELECT가 아닌 문장은 실행하지 않음
+        const statements = await connection.extractStatements(sql);
+        if (statements.count !== 1) {
+          return { success: false, error: '한 번에 하나의 SELECT 문만 실행할 수 있습니다.' };
+        }
+        const prepared = await statements.prepare(0);
+        if (prepared.statementType !== StatementType.SELECT) {
+          return { success: false, error: '보안상 SELECT 쿼리만 허용됩니다.' };
+        }
+
+        // 실행 시간 제한 (복사 시간은 제외하고 쿼리 실행부터 잼)
+        let timedOut = false;
+        const timer = setTimeout(() => {
+          timedOut = true;
+          connection.interrupt();
+        }, limits.timeoutMs);
+        // rowLimit까지만 읽고, 없으면 최대 행 수보다 한 행 더 읽어 넘었는지 확인
+        const rowsToRead = Math.min(rowLimit ?? Infinity, limits.maxRows + 1);
+        let reader;
+        try {
+          reader = await prepared.streamAndReadUntil(rowsToRead);
+        } catch (error) {
+          if (timedOut) return { success: false, error: describeLimit('timeout', limits) };
+          if (/out of memory/i.test(errorMessage(error))) return { success: false, error: describeLimit('memory', limits) };
+          throw error;
+        } finally {
+          clearTimeout(timer);
+        }
+        if (rowsToRead > limits.maxRows && reader.currentRowCount > limits.maxRows) {
+          return { success: false, error: describeLimit('rows', limits) };
+        }
+
+        const numericColumns = reader.columnNames().filter((_, index) =>
+          NUMERIC_TEXT_TYPES.includes(reader.columnType(index).typeId)
+        );
+        // 청크 단위로 읽으므로 요청한 행 수보다 많이 읽은 행은 버림
+        const rows = reader.getRowObjectsJson().slice(0, rowsToRead).map(row => {
+          numericColumns.forEach(column => {
+            if (row[column] !== null) row[column] = Number(row[column]);
+          });
+          return row;
+        });
+        if (JSON.stringify(rows).length > limits.maxResultBytes) {
+          return { success: false, error: describeLimit('bytes', limits) };
+        }
+        return { success: true, data: rows, rowCount: rows.length };
+      });
+    } catch (error) {
+      return { success: false, error: errorMessage(error) };
+    }
+  }
+
+  async dropTables(tableNames: string[]): Promise<void> {
+    await this.withConnection(async connection => {
+      for (const tableName of tableNames) {
+        await connection.run(`DROP TABLE IF EXISTS ${quote(tableName)}`);
+        await connection.run(`DELETE FROM ${SYNC_TABLE} WHERE tableName = $1`, [tableName]);
+      }
+    });
+  }
+}
+
+// DuckDB 파일 열기 (쿼리에서 파일 읽기/쓰기와 확장 설치를 막고, 메모리 한도를 둔 뒤 설정을 바꾸지 못하게 잠금)
+export async function createDuckDBStore(): Promise<AnalyticsStore> {
+  const dbPath = path.join(process.cwd(), 'data', 'analytics.duckdb');
+  const instance = await DuckDBInstance.create(dbPath, {
+    enable_external_access: 'false',
+    memory_limit: `${getQueryLimits().memoryMb}MB`,
+    lock_configuration: 'true'
+  });
+  const store = new DuckDBStore(instance);
+  await store.initialize();
+  console.log(`[ANALYTICS] DuckDB 분석 저장소 사용: ${dbPath}`);
+  return store;
+}
@@ -0,0 +1,313 @@
+import { db, DatabaseRow } from './database';
+import { DatasetTable, getDatasetTablesById } from './datasets';
+import { getColumnTypes } from './dataset-update';
+import { DatasetIndex, IndexOrigin, IndexSuggestion, ScanUsage } from '@/types';
+
+// 같은 컬럼이 이 횟수 이상 전체 스캔되면 인덱스를 제안
+const SUGGEST_MIN_SCANS = 3;
+// 이보다 작은 테이블은 전체 스캔으로도 충분히 빠르므로 제안하지 않음
+const SUGGEST_MIN_ROWS = 10000;
+
+// 절 끝을 나타내는 키워드 (닫는 괄호는 서브쿼리 끝)
+const CLAUSE_END = String.raw`(?=\bgroup\s+by\b|\border\s+by\b|\bhaving\b|\blimit\b|\bunion\b|\bexcept\b|\bintersect\b|\bwindow\b|\)|$)`;
+const CLAUSE_PATTERNS: Record<ScanUsage, RegExp> = {
+  filter: new RegExp(String.raw`\b(?:where|on)\b([\s\S]*?)` + CLAUSE_END, 'gi'),
+  group: new RegExp(String.raw`\bgroup\s+by\b([\s\S]*?)` + CLAUSE_END, 'gi')
+};
+
+function run(query: string, params: unknown[] = []): void {
+  const result = db.execute(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+function selectAll(query: string, params: unknown[] = []): DatabaseRow[] {
+  const result = db.select(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!;
+}
+
+const quote = (name: string) => `"${name.replace(/"/g, '""')}"`;
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// 인덱스 이름 (테이블명 + 컬럼명, 새 버전의 테이블에도 같은 이름으로 다시 만듦)
+export function getIndexName(tableName: string, columns: string[]): string {
+  return `idx_${tableName}__${columns.join('__')}`;
+}
+
+// 테이블에 걸린 인덱스 (CREATE INDEX로 만든 것만, 저장 컬럼명 순서대로)
+function readTableIndexes(tableName: string): { name: string; columns: string[] }[] {
+  return selectAll(`PRAGMA index_list(${quote(tableName)})`)
+    .filter(row => row.origin === 'c')
+    .map(row => ({
+      name: row.name as string,
+      columns: selectAll(`PRAGMA index_info(${quote(row.name as string)})`)
+        .sort((a, b) => (a.seqno as number) - (b.seqno as number))
+        .map(col => col.name as string)
+    }));
+}
+
+// 데이터셋 시트별 인덱스 목록
+export function listIndexes(fileId: string, tables: DatasetTable[]): DatasetIndex[] {
+  const definitions = new Map(
+    selectAll('SELECT name, origin, createdAt FROM dataset_indexes WHERE fileId = ?', [fileId])
+      .map(row => [row.name as string, row])
+  );
+
+  return tables.flatMap(table => readTableIndexes(table.tableName).map(index => {
+    const definition = definitions.get(index.name);
+    return {
+      name: index.name,
+      sheet: table.name,
+      tableName: table.tableName,
+      columns: index.columns,
+      origin: (definition?.origin as IndexOrigin) || 'manual',
+      createdAt: (definition?.createdAt as string) || null
+    };
+  }));
+}
+
+// 인덱스를 만들 컬럼 확인 (저장 컬럼명이나 원본 컬럼명으로 지정, 잘못된 요청이면 오류 메시지)
+export function planIndexColumns(table: DatasetTable, columns: unknown): string[] | { error: string } {
+  if (!Array.isArray(columns) || columns.length === 0) {
+    return { error: '인덱스를 만들 컬럼을 지정해주세요.' };
+  }
+
+  const storedColumns = new Set(Object.values(table.columnMapping));
+  const resolved: string[] = [];
+  for (const column of columns) {
+    const name = typeof column === 'string'
+      ? (storedColumns.has(column) ? column : table.columnMapping[column])
+      : undefined;
+    if (!name) {
+      return { error: `컬럼을 찾을 수 없습니다: ${column}` };
+    }
+    if (resolved.includes(name)) {
+      return { error: `같은 컬럼을 두 번 지정할 수 없습니다: ${column}` };
+    }
+    resolved.push(name);
+  }
+  return resolved;
+}
+
+// 시트 테이블에 인덱스 생성 (같은 컬럼 구성의 인덱스가 있으면 그대로 둠)
+export function createIndex(
+  fileId: string,
+  table: DatasetTable,
+  columns: string[],
+  origin: IndexOrigin = 'manual'
+): { index: DatasetIndex; created: boolean } {
+  const name = getIndexName(table.tableName, columns);
+  const existing = listIndexes(fileId, [table]).find(index => index.name === name);
+  if (existing) {
+    return { index: existing, created: false };
+  }
+
+  const result = db.transaction(() => {
+    run(`DROP INDEX IF EXISTS ${quote(name)}`);
+    run(`CREATE INDEX ${quote(name)} ON ${quote(table.tableName)} (${columns.map(quote).join(', ')})`);
+    run(
+      'INSERT OR REPLACE INTO dataset_indexes (name, fileId, tableName, columns, origin) VALUES (?, ?, ?, ?, ?)',
+      [name, fileId, table.tableName, JSON.stringify(columns), origin]
+    );
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  console.log(`[INDEX] 인덱스 생성: ${name} (${origin})`);
+  return { index: listIndexes(fileId, [table]).find(index => index.name === name)!, created: true };
+}
+
+// 인덱스 삭제 (해당 컬럼의 스캔 기록도 지워 바로 다시 제안되지 않게 함)
+export function dropIndex(fileId: string, tables: DatasetTable[], name: string): boolean {
+  const index = listIndexes(fileId, tables).find(candidate => candidate.name === name);
+  if (!index) return false;
+
+  const result = db.transaction(() => {
+    run(`DROP INDEX IF EXISTS ${quote(name)}`);
+    run('DELETE FROM dataset_indexes WHERE name = ?', [name]);
+    run(
+      `DELETE FROM query_scan_stats WHERE fileId = ? AND tableName = ? AND columnName IN (${index.columns.map(() => '?').join(', ')})`,
+      [fileId, index.tableName, ...index.columns]
+    );
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  console.log(`[INDEX] 인덱스 삭제: ${name}`);
+  return true;
+}
+
+// 새로 만든 현재 테이블에 인덱스 다시 생성 (같은 이름의 인덱스는 보관 테이블에서 떼어 옴)
+// 컬럼이 없어진 인덱스 정의는 삭제, 호출한 쪽의 트랜잭션 안에서 실행
+export function restoreIndexes(fileId: string, tables: DatasetTable[]): void {
+  const definitions = selectAll('SELECT * FROM dataset_indexes WHERE fileId = ?', [fileId]);
+  tables.forEach(table => {
+    const types = getColumnTypes(table.tableName);
+    definitions
+      .filter(definition => definition.tableName === table.tableName)
+      .forEach(definition => {
+        const name = definition.name as string;
+        const columns = JSON.parse(definition.columns as string) as string[];
+        run(`DROP INDEX IF EXISTS ${quote(name)}`);
+        if (columns.every(column => column in types)) {
+          run(`CREATE INDEX ${quote(name)} ON ${quote(table.tableName)} (${columns.map(quote).join(', ')})`);
+        } else {
+          run('DELETE FROM dataset_indexes WHERE name = ?', [name]);
+        }
+      });
+  });
+}
+
+// 컬럼 이름 변경/삭제를 인덱스 정의에 반영 (renames: 이전 저장 컬럼명 → 새 이름, 삭제면 null)
+// 실제 인덱스는 이어서 restoreIndexes로 만듦
+export function renameIndexColumns(fileId: string, tableName: string, renames: Record<string, string | null>): void {
+  selectAll('SELECT * FROM dataset_indexes WHERE fileId = ? AND tableName = ?', [fileId, tableName])
+    .forEach(definition => {
+      const columns = (JSON.parse(definition.columns as string) as string[])
+        .map(column => column in renames ? renames[column] : column);
+      if (columns.some(column => column === null)) {
+        run('DELETE FROM dataset_indexes WHERE name = ?', [definition.name]);
+        return;
+      }
+      const name = getIndexName(tableName, columns as string[]);
+      if (name === definition.name) return;
+      run(`DROP INDEX IF EXISTS ${quote(definition.name as string)}`);
+      run(
+        'UPDATE OR REPLACE dataset_indexes SET name = ?, columns = ? WHERE name = ?',
+        [name, JSON.stringify(columns), definition.name]
+      );
+    });
+
+  Object.entries(renames).forEach(([column, renamed]) => {
+    if (renamed === null) {
+      run('DELETE FROM query_scan_stats WHERE fileId = ? AND tableName = ? AND columnName = ?', [fileId, tableName, column]);
+    } else if (renamed !== column) {
+      run(
+        'UPDATE OR REPLACE query_scan_stats SET columnName = ? WHERE fileId = ? AND tableName = ? AND columnName = ?',
+        [renamed, fileId, tableName, column]
+      );
+    }
+  });
+}
+
+// WHERE/ON 절과 GROUP BY 절 본문 (문자열 상수는 비워서 컬럼명으로 오인하지 않게 함)
+function extractClauses(query: string): Record<ScanUsage, string> {
+  const stripped = query.replace(/'(?:[^']|'')*'/g, "''");
+  const clauses = {} as Record<ScanUsage, string>;
+  (Object.keys(CLAUSE_PATTERNS) as ScanUsage[]).forEach(usage => {
+    clauses[usage] = Array.from(stripped.matchAll(CLAUSE_PATTERNS[usage]), match => match[1]).join(' ');
+  });
+  return clauses;
+}
+
+function mentionsColumn(clause: string, column: string): boolean {
+  return new RegExp(String.raw`(^|[^\w가-힣])"?${escapeRegExp(column)}"?(?=$|[^\w가-힣])`, 'i').test(clause);
+}
+
+// 실행 계획의 SCAN 대상(테이블명 또는 별칭)을 데이터셋 테이블로 대응
+function resolveScannedTable(target: string, query: string, tables: DatasetTable[]): DatasetTable | undefined {
+  return tables.find(table => table.tableName.toLowerCase() === target.toLowerCase())
+    || tables.find(table => new RegExp(
+      String.raw`"?${escapeRegExp(table.tableName)}"?\s+(?:as\s+)?"?${escapeRegExp(target)}"?(?![\w가-힣])`,
+      'i'
+    ).test(query));
+}
+
+// 에이전트가 실행한 쿼리의 실행 계획을 확인해 인덱스 없이 전체 스캔한 필터/그룹 컬럼을 기록
+// INDEX_AUTO_CREATE=true 면 제안 기준을 넘은 컬럼에 바로 인덱스를 만들고 만든 인덱스를 돌려줌
+export function recordQueryPlan(fileId: string, query: string): DatasetIndex[] {
+  const tables = getDatasetTablesById(fileId);
+  if (!tables) return [];
+
+  const scanned = new Set<DatasetTable>();
+  selectAll(`EXPLAIN QUERY PLAN ${query}`).forEach(step => {
+    const match = /^SCAN (\S+)$/.exec(step.detail as string);
+    const table = match && resolveScannedTable(match[1], query, tables);
+    if (table) scanned.add(table);
+  });
+  if (scanned.size === 0) return [];
+
+  const clauses = extractClauses(query);
+  const recorded: { table: DatasetTable; column: string }[] = [];
+  scanned.forEach(table => {
+    Object.values(table.columnMapping).forEach(column => {
+      (Object.keys(clauses) as ScanUsage[])
+        .filter(usage => mentionsColumn(clauses[usage], column))
+        .forEach(usage => {
+          run(
+            `INSERT INTO query_scan_stats (fileId, tableName, columnName, usage, scanCount, lastQuery, lastSeenAt)
+             VALUES (?, ?, ?, ?, 1, ?, CURRENT_TIMESTAMP)
+             ON CONFLICT (fileId, tableName, columnName, usage) DO UPDATE SET
+               scanCount = scanCount + 1, lastQuery = excluded.lastQuery, lastSeenAt = CURRENT_TIMESTAMP`,
+            [fileId, table.tableName, column, usage, query]
+          );
+          if (!recorded.some(entry => entry.table === table && entry.column === column)) {
+            recorded.push({ table, column });
+          }
+        });
+    });
+  });
+
+  if (process.env.INDEX_AUTO_CREATE !== 'true' || recorded.length === 0) return [];
+
+  const created: DatasetIndex[] = [];
+  getIndexSuggestions(fileId, tables)
+    .filter(suggestion => recorded.some(entry => entry.table.tableName === suggestion.tableName && entry.column === suggestion.column))
+    .forEach(suggestion => {
+      const table = tables.find(candidate => candidate.tableName === suggestion.tableName)!;
+      const result = createIndex(fileId, table, [suggestion.column], 'auto');
+      if (result.created) created.push(result.index);
+    });
+  return created;
+}
+
+// 전체 스캔이 반복된 컬럼 중 아직 인덱스(첫 컬럼 기준)가 없는 것
+export function getIndexSuggestions(fileId: string, tables: DatasetTable[]): IndexSuggestion[] {
+  const indexedColumns = new Set(listIndexes(fileId, tables).map(index => `${index.tableName}\u0000${index.columns[0]}`));
+  const rows = selectAll(
+    `SELECT tableName, columnName, usage, scanCount, lastQuery, lastSeenAt FROM query_scan_stats
+     WHERE fileId = ? ORDER BY lastSeenAt`,
+    [fileId]
+  );
+
+  const suggestions = new Map<string, IndexSuggestion>();
+  rows.forEach(row => {
+    const table = tables.find(candidate => candidate.tableName === row.tableName);
+    const column = row.columnName as string;
+    const key = `${row.tableName}\u0000${column}`;
+    if (!table || !Object.values(table.columnMapping).includes(column) || indexedColumns.has(key)) return;
+
+    const suggestion = suggestions.get(key) || {
+      sheet: table.name,
+      tableName: table.tableName,
+      column,
+      usage: [],
+      scanCount: 0,
+      lastQuery: null,
+      lastSeenAt: row.lastSeenAt as string
+    };
+    suggestion.usage.push(row.usage as ScanUsage);
+    suggestion.scanCount += row.scanCount as number;
+    suggestion.lastQuery = (row.lastQuery as string) || suggestion.lastQuery;
+    suggestion.lastSeenAt = row.lastSeenAt as string;
+    suggestions.set(key, suggestion);
+  });
+
+  return Array.from(suggestions.values())
+    .filter(suggestion => suggestion.scanCount >= SUGGEST_MIN_SCANS)
+    .filter(suggestion => (tables.find(table => table.tableName === suggestion.tableName)?.rowCount || 0) >= SUGGEST_MIN_ROWS)
+    .sort((a, b) => b.scanCount - a.scanCount);
+}
+
+// 데이터셋의 인덱스 정의와 스캔 기록 삭제 (인덱스 자체는 테이블과 함께 삭제됨)
+export function deleteIndexRecords(fileId: string): void {
+  run('DELETE FROM dataset_indexes WHERE fileId = ?', [fileId]);
+  run('DELETE FROM query_scan_stats WHERE fileId = ?', [fileId]);
+}
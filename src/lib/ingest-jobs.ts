@@ -0,0 +1,624 @@
+import { db, DatabaseRow } from './database';
+import { IngestHooks, UploadOptions, ingestRows, openUploadSources, trackBytes } from './ingestion';
+import { DatasetTable, getDataTableName, getDatasetTables, getPendingTableName, getSheetTableName } from './datasets';
+import {
+  IncomingTable,
+  applyTableUpdate,
+  matchIncomingTables,
+  planTableUpdate,
+  updateDatasetMetadata
+} from './dataset-update';
+import { profileDataset } from './profiling';
+import { archiveCurrentTables, copyTable, getCurrentVersion, getVersionTableName, recordVersion } from './versions';
+import { restoreIndexes } from './indexes';
+import { deleteRejections, mergeRejectionSummaries } from './rejections';
+import { StoredUpload, deleteStoredFile, deleteStoredFiles, openStoredFile } from './uploads';
+import { generateId } from '@/shared/lib/utils';
+import {
+  ACTIVE_INGEST_JOB_STATUSES,
+  DatasetUpdateJobResult,
+  DatasetUpdateMode,
+  IngestJob,
+  IngestJobResult,
+  IngestJobStatus,
+  RejectionSummary
+} from '@/types';
+
+// 작업에 저장하는 업로드 옵션 (재시작 후 같은 설정으로 다시 가져오기 위해 보관)
+// update: 기존 데이터셋 갱신 작업의 방식과 타입 충돌 확인 여부 (없으면 새 데이터셋)
+export type IngestJobOptions = Omit<UploadOptions, 'fileName'> & {
+  update?: { mode: DatasetUpdateMode; confirmed: boolean };
+};
+
+// 진행 상태 (rowsProcessed/bytesProcessed를 일정 간격으로만 DB에 기록)
+interface JobProgress {
+  rowsProcessed: number;
+  bytesProcessed: number;
+  write: (force?: boolean) => void;
+}
+
+// 진행 상태를 DB에 기록하는 최소 간격
+const PROGRESS_WRITE_INTERVAL_MS = 300;
+
+// 프로세스 전체에서 하나만 유지하는 작업 큐 (라우트 번들마다 모듈이 따로 로드되어도 공유)
+const jobQueue = globalThis as unknown as {
+  ingestJobQueue?: { pending: string[]; running: boolean; recovered: boolean };
+};
+
+function getQueue() {
+  if (!jobQueue.ingestJobQueue) {
+    jobQueue.ingestJobQueue = { pending: [], running: false, recovered: false };
+  }
+  return jobQueue.ingestJobQueue;
+}
+
+function toJob(row: DatabaseRow): IngestJob {
+  const { update } = JSON.parse(row.options as string) as IngestJobOptions;
+  return {
+    id: row.id as string,
+    fileId: row.fileId as string,
+    fileName: row.fileName as string,
+    mode: update?.mode || null,
+    status: row.status as IngestJobStatus,
+    rowsProcessed: row.rowsProcessed as number,
+    bytesProcessed: row.bytesProcessed as number,
+    totalBytes: row.totalBytes as number,
+    error: (row.error as string) || null,
+    result: row.result ? JSON.parse(row.result as string) : null,
+    createdAt: row.createdAt as string,
+    updatedAt: row.updatedAt as string,
+    finishedAt: (row.finishedAt as string) || null
+  };
+}
+
+function updateJob(jobId: string, fields: Record<string, unknown>): void {
+  const entries = Object.entries(fields);
+  const result = db.execute(
+    `UPDATE ingest_jobs SET ${entries.map(([key]) => `${key} = ?`).join(', ')}, updatedAt = ? WHERE id = ?`,
+    [...entries.map(([, value]) => value), new Date().toISOString(), jobId]
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+export function getIngestJob(jobId: string): IngestJob | null {
+  const result = db.selectOne('SELECT * FROM ingest_jobs WHERE id = ?', [jobId]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data?.[0] ? toJob(result.data[0]) : null;
+}
+
+// 작업 목록 (최신순, active: 진행 중인 작업만, fileId: 해당 데이터셋의 작업만)
+export function listIngestJobs(
+  { active = false, limit = 50, fileId }: { active?: boolean; limit?: number; fileId?: string } = {}
+): IngestJob[] {
+  const conditions: string[] = [];
+  const params: unknown[] = [];
+  if (active) {
+    conditions.push(`status IN (${ACTIVE_INGEST_JOB_STATUSES.map(() => '?').join(', ')})`);
+    params.push(...ACTIVE_INGEST_JOB_STATUSES);
+  }
+  if (fileId) {
+    conditions.push('fileId = ?');
+    params.push(fileId);
+  }
+  const result = db.select(
+    `SELECT * FROM ingest_jobs
+     ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+     ORDER BY createdAt DESC LIMIT ?`,
+    [...params, limit]
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!.map(toJob);
+}
+
+// 같은 내용의 파일을 가져오는 중인 작업 (중복 업로드 확인용)
+export function findActiveJobByChecksum(checksum: string): IngestJob | null {
+  const statuses = ACTIVE_INGEST_JOB_STATUSES;
+  const result = db.selectOne(
+    `SELECT * FROM ingest_jobs WHERE checksum = ? AND status IN (${statuses.map(() => '?').join(', ')})
+     ORDER BY createdAt LIMIT 1`,
+    [checksum, ...statuses]
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data?.[0] ? toJob(result.data[0]) : null;
+}
+
+// 보관된 원본으로 가져오기 작업을 만들고 큐에 넣음 (options.update가 있으면 기존 데이터셋 갱신)
+export function createIngestJob(
+  fileId: string,
+  fileName: string,
+  fileType: string,
+  stored: StoredUpload,
+  options: IngestJobOptions
+): IngestJob {
+  const jobId = generateId();
+  const now = new Date().toISOString();
+  const result = db.execute(
+    `INSERT INTO ingest_jobs
+       (id, fileId, fileName, fileType, originalPath, checksum, options, status, totalBytes, createdAt, updatedAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, 'queued', ?, ?, ?)`,
+    [jobId, fileId, fileName, fileType, stored.relativePath, stored.checksum, JSON.stringify(options), stored.size, now, now]
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  enqueue(jobId);
+  return getIngestJob(jobId)!;
+}
+
+// 서버가 작업 도중 종료되었으면 만들다 만 테이블을 지우고 처음부터 다시 가져옴
+// 서버 시작 시 한 번 실행 (instrumentation.ts)
+export function recoverInterruptedJobs(): void {
+  const queue = getQueue();
+  if (queue.recovered) return;
+  queue.recovered = true;
+
+  const result = db.select(
+    `SELECT id, fileId, originalPath, options FROM ingest_jobs
+     WHERE status IN (${ACTIVE_INGEST_JOB_STATUSES.map(() => '?').join(', ')})
+     ORDER BY createdAt`,
+    ACTIVE_INGEST_JOB_STATUSES
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+
+  result.data!.forEach(row => {
+    const { update } = JSON.parse(row.options as string) as IngestJobOptions;
+    if (update) {
+      recoverUpdateJob(row);
+      return;
+    }
+
+    // files 행까지 저장한 뒤 중단되었으면 데이터셋은 완성된 상태
+    const fileResult = db.selectOne('SELECT id FROM files WHERE id = ?', [row.fileId]);
+    if (fileResult.data?.[0]) {
+      updateJob(row.id as string, { status: 'done', finishedAt: new Date().toISOString() });
+      return;
+    }
+
+    dropPartialTables(row.fileId as string);
+    deleteRejections(row.fileId as string);
+    updateJob(row.id as string, { status: 'queued', rowsProcessed: 0, bytesProcessed: 0 });
+    console.log(`[INGEST] 중단된 작업 다시 시작: ${row.id}`);
+    enqueue(row.id as string);
+  });
+}
+
+// 중단된 갱신 작업: 새 버전까지 기록했으면 완료, 아니면 대조용 임시 테이블을 지우고 다시 실행
+// (기존 데이터셋 테이블은 반영 트랜잭션 안에서만 바뀌므로 그대로 둠)
+function recoverUpdateJob(row: DatabaseRow): void {
+  const fileId = row.fileId as string;
+  const versionResult = db.selectOne(
+    'SELECT version FROM dataset_versions WHERE fileId = ? AND originalPath = ?',
+    [fileId, row.originalPath]
+  );
+  if (versionResult.data?.[0]) {
+    updateJob(row.id as string, { status: 'done', finishedAt: new Date().toISOString() });
+    return;
+  }
+
+  dropIncomingTables(fileId);
+  deleteRejections(fileId, getCurrentVersion(fileId) + 1);
+  updateJob(row.id as string, { status: 'queued', rowsProcessed: 0, bytesProcessed: 0 });
+  console.log(`[INGEST] 중단된 갱신 작업 다시 시작: ${row.id}`);
+  enqueue(row.id as string);
+}
+
+// 갱신 작업이 대조용으로 만든 임시 테이블 (data_<id>__incoming_<순번>)
+function getIncomingTableName(fileId: string, index: number): string {
+  return `${getDataTableName(fileId)}__incoming_${index}`;
+}
+
+function dropIncomingTables(fileId: string): void {
+  const prefix = `${getDataTableName(fileId)}__incoming_`;
+  const result = db.select(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name LIKE ? ESCAPE '\\'`,
+    [`${prefix.replace(/_/g, '\\_')}%`]
+  );
+  result.data?.forEach(row => db.dropTable(row.name as string));
+}
+
+// 작업이 만들던 데이터 테이블 삭제 (files 행이 생기기 전에만 호출)
+function dropPartialTables(fileId: string): void {
+  const prefix = getDataTableName(fileId);
+  const result = db.select(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND (name = ? OR name LIKE ? ESCAPE '\\')`,
+    [prefix, `${prefix.replace(/_/g, '\\_')}\\_%`]
+  );
+  result.data?.forEach(row => db.dropTable(row.name as string));
+}
+
+function enqueue(jobId: string): void {
+  const queue = getQueue();
+  queue.pending.push(jobId);
+  void drainQueue();
+}
+
+// 작업을 하나씩 순서대로 실행 (요청 처리와 분리된 백그라운드 실행)
+async function drainQueue(): Promise<void> {
+  const queue = getQueue();
+  if (queue.running) return;
+  queue.running = true;
+
+  try {
+    while (queue.pending.length > 0) {
+      const jobId = queue.pending.shift()!;
+      try {
+        await runIngestJob(jobId);
+      } catch (error) {
+        console.error(`[INGEST] 작업 실패: ${jobId}`, error);
+      }
+    }
+  } finally {
+    queue.running = false;
+  }
+}
+
+function createJobProgress(jobId: string): JobProgress {
+  let lastWrite = 0;
+  const progress: JobProgress = {
+    rowsProcessed: 0,
+    bytesProcessed: 0,
+    write: (force = false) => {
+      const now = Date.now();
+      if (!force && now - lastWrite < PROGRESS_WRITE_INTERVAL_MS) return;
+      lastWrite = now;
+      updateJob(jobId, { rowsProcessed: progress.rowsProcessed, bytesProcessed: progress.bytesProcessed });
+    }
+  };
+  return progress;
+}
+
+// 보관된 원본을 파싱해 시트마다 getTableName(순번)의 테이블로 저장 (빈 시트는 건너뜀)
+// 변환 실패는 version에 기록하고, 빈 시트를 포함한 모든 시트의 실패 건수를 돌려줌
+async function ingestStoredSheets(
+  jobId: string,
+  row: DatabaseRow,
+  progress: JobProgress,
+  version: number,
+  getTableName: (index: number) => string
+): Promise<{ dialect: Awaited<ReturnType<typeof openUploadSources>>['dialect']; tables: IncomingTable[]; rejections: RejectionSummary[] }> {
+  const fileId = row.fileId as string;
+  const { format, dialectOverrides, schemaOverrides, nested, maxErrorRate } = JSON.parse(row.options as string) as IngestJobOptions;
+  const tables: IncomingTable[] = [];
+  const rejections: RejectionSummary[] = [];
+
+  const stored = openStoredFile(row.originalPath as string);
+  if (!stored) {
+    throw new Error('보관된 원본 파일을 찾을 수 없습니다.');
+  }
+  const source = trackBytes(stored.stream, (bytes) => {
+    progress.bytesProcessed += bytes;
+  });
+  const { dialect, sheets } = await openUploadSources(row.fileName as string, format, source, dialectOverrides, { nested });
+
+  for (const sheet of sheets) {
+    const tableName = getTableName(tables.length);
+    const rowsBefore = progress.rowsProcessed;
+    const hooks: IngestHooks = {
+      onRows: (count) => {
+        progress.rowsProcessed = rowsBefore + count;
+        progress.write();
+      },
+      onConvert: () => {
+        progress.write(true);
+        updateJob(jobId, { status: 'inserting' });
+      }
+    };
+    const result = await ingestRows(
+      sheet.rows,
+      tableName,
+      schemaOverrides[sheet.name],
+      hooks,
+      { rejections: { fileId, version, sheet: sheet.name }, maxErrorRate }
+    );
+    rejections.push(result.rejections);
+    if (result.rowCount === 0) {
+      console.log(`[INGEST] 빈 시트 건너뜀: ${sheet.name}`);
+      continue;
+    }
+    tables.push({ name: sheet.name, tableName, result });
+    updateJob(jobId, { status: 'parsing' });
+  }
+
+  if (tables.length === 0) {
+    throw new Error('파일에 데이터가 없습니다.');
+  }
+  return { dialect, tables, rejections };
+}
+
+// 작업 하나 실행 (기존 데이터셋 갱신 작업은 runUpdateJob)
+async function runIngestJob(jobId: string): Promise<void> {
+  const jobResult = db.selectOne('SELECT * FROM ingest_jobs WHERE id = ?', [jobId]);
+  const row = jobResult.data?.[0];
+  if (!row || row.status !== 'queued') return;
+
+  const { format, update } = JSON.parse(row.options as string) as IngestJobOptions;
+  if (update) {
+    await runUpdateJob(jobId, row, update);
+    return;
+  }
+
+  const fileId = row.fileId as string;
+  const fileName = row.fileName as string;
+  const fileType = row.fileType as string;
+  const originalPath = row.originalPath as string;
+  const checksum = row.checksum as string;
+  const fileSize = row.totalBytes as number;
+
+  const startTime = Date.now();
+  const tables: DatasetTable[] = [];
+  const progress = createJobProgress(jobId);
+  let committed = false;
+
+  try {
+    updateJob(jobId, { status: 'parsing' });
+    console.log(`[INGEST] 가져오기 시작: ${jobId} (${fileName} → ${getDataTableName(fileId)})`);
+
+    // 시트마다 별도 테이블로 저장, 가져오는 동안에는 임시 이름으로 만들고 files 행을 저장할 때 실제 이름으로 바꿈
+    // 새 데이터셋이므로 변환 실패는 첫 번째 버전에 기록
+    const ingested = await ingestStoredSheets(
+      jobId,
+      row,
+      progress,
+      1,
+      index => getPendingTableName(getSheetTableName(fileId, index))
+    );
+    const { dialect, rejections } = ingested;
+    ingested.tables.forEach(({ name, result }, index) => {
+      const { columns, columnMapping, rowCount } = result;
+      tables.push({ name, tableName: getSheetTableName(fileId, index), columns, columnMapping, rowCount });
+    });
+
+    updateJob(jobId, { status: 'inserting', rowsProcessed: progress.rowsProcessed, bytesProcessed: fileSize });
+    // 기본 테이블(첫 시트)이 파일의 대표 컬럼 정보가 됨
+    const { columns, columnMapping, rowCount } = tables[0];
+    const uploadedAt = new Date().toISOString();
+
+    // 테이블 이름 변경, 파일 메타데이터, 첫 번째 버전 기록을 함께 저장
+    // (data_<id> 테이블은 files 행과 함께만 생기므로 중간에 중단되어도 임시 테이블만 남음)
+    const insertFileResult = db.transaction(() => {
+      tables.forEach(table => {
+        const renameResult = db.execute(
+          `ALTER TABLE "${getPendingTableName(table.tableName)}" RENAME TO "${table.tableName}"`
+        );
+        if (!renameResult.success) {
+          throw new Error(renameResult.error);
+        }
+      });
+      const result = db.execute(
+        `INSERT INTO files (id, name, type, size, uploadedAt, columns, columnCount, rowCount, columnMapping, sheets, originalPath, checksum)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          fileId,
+          fileName,
+          fileType,
+          fileSize,
+          uploadedAt,
+          JSON.stringify(columns),
+          columns.length,
+          rowCount,
+          JSON.stringify(columnMapping),
+          format === 'excel' ? JSON.stringify(tables) : null,
+          originalPath,
+          checksum
+        ]
+      );
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      recordVersion(fileId, {
+        action: 'upload',
+        sourceFileName: fileName,
+        tables,
+        size: fileSize,
+        originalPath,
+        checksum,
+        createdAt: uploadedAt
+      });
+    });
+    if (!insertFileResult.success) {
+      throw new Error(insertFileResult.error);
+    }
+    committed = true;
+
+    // 컬럼 프로필 계산 (실패해도 업로드는 유지, 프로필 조회 시 다시 계산)
+    try {
+      profileDataset(fileId, tables);
+    } catch (profileError) {
+      console.error('[INGEST] 컬럼 프로필 계산 실패:', profileError);
+    }
+
+    const result: IngestJobResult = {
+      file: {
+        id: fileId,
+        name: fileName,
+        type: fileType,
+        size: fileSize,
+        uploadedAt,
+        columns,
+        columnCount: columns.length,
+        rowCount,
+        columnMapping,
+        checksum,
+        sheets: tables.map(table => ({ name: table.name, rowCount: table.rowCount, columnCount: table.columns.length }))
+      },
+      rejections: mergeRejectionSummaries(rejections),
+      dialect
+    };
+    updateJob(jobId, {
+      status: 'done',
+      rowsProcessed: progress.rowsProcessed,
+      bytesProcessed: fileSize,
+      result: JSON.stringify(result),
+      finishedAt: new Date().toISOString()
+    });
+    console.log(`[INGEST] 가져오기 완료: ${jobId} (${Date.now() - startTime}ms, ${progress.rowsProcessed}행)`);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[INGEST] 가져오기 실패: ${jobId}`, error);
+
+    // 데이터셋이 만들어지지 않았으면 테이블과 보관한 원본도 남기지 않음
+    if (!committed) {
+      tables.forEach(table => db.dropTable(getPendingTableName(table.tableName)));
+      dropPartialTables(fileId);
+      deleteRejections(fileId);
+      await deleteStoredFiles(fileId);
+    }
+    updateJob(jobId, {
+      status: 'failed',
+      rowsProcessed: progress.rowsProcessed,
+      bytesProcessed: progress.bytesProcessed,
+      error: message,
+      finishedAt: new Date().toISOString()
+    });
+  }
+}
+
+// 기존 데이터셋 갱신 작업: 새 데이터를 임시 테이블에 가져와 기존 스키마와 대조한 뒤 새 버전으로 반영
+// 갱신 전 데이터는 이전 버전으로 보관, 확인하지 않은 타입 충돌이 있으면 반영하지 않고 대조 결과와 함께 실패로 끝냄
+async function runUpdateJob(
+  jobId: string,
+  row: DatabaseRow,
+  { mode, confirmed }: { mode: DatasetUpdateMode; confirmed: boolean }
+): Promise<void> {
+  const fileId = row.fileId as string;
+  const fileName = row.fileName as string;
+  const originalPath = row.originalPath as string;
+  const fileSize = row.totalBytes as number;
+
+  const startTime = Date.now();
+  const progress = createJobProgress(jobId);
+  let committed = false;
+  // 변환 실패는 반영될 새 버전에 기록
+  const nextVersion = getCurrentVersion(fileId) + 1;
+
+  const finish = (fields: Record<string, unknown>) => updateJob(jobId, {
+    rowsProcessed: progress.rowsProcessed,
+    bytesProcessed: progress.bytesProcessed,
+    finishedAt: new Date().toISOString(),
+    ...fields
+  });
+
+  try {
+    updateJob(jobId, { status: 'parsing' });
+    console.log(`[INGEST] 데이터셋 갱신 시작: ${jobId} (${mode}, ${fileName} → ${fileId})`);
+
+    const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [fileId]);
+    if (!fileResult.success || !fileResult.data?.[0]) {
+      throw new Error('파일을 찾을 수 없습니다.');
+    }
+    const fileData = fileResult.data[0];
+
+    const ingested = await ingestStoredSheets(jobId, row, progress, nextVersion, index => getIncomingTableName(fileId, index));
+
+    const existingTables = getDatasetTables(fileData);
+    const { matches, unmatched } = matchIncomingTables(existingTables, ingested.tables);
+    if (unmatched.length > 0) {
+      throw new Error(`데이터셋에 없는 시트입니다: ${unmatched.join(', ')}`);
+    }
+
+    const plans = matches.map(([target, incoming]) => planTableUpdate(target, incoming, mode));
+    const changes = plans.map(plan => plan.reconciliation);
+    console.log(`[INGEST] 스키마 대조 결과:`, JSON.stringify(changes));
+
+    // 타입 충돌은 사용자 확인 없이 반영하지 않음
+    if (changes.some(change => change.conflicts.length > 0) && !confirmed) {
+      const result: DatasetUpdateJobResult = { mode, changes, requiresConfirmation: true };
+      finish({
+        status: 'failed',
+        error: '기존 데이터와 컬럼 타입이 맞지 않습니다. 확인 후 다시 요청해주세요.',
+        result: JSON.stringify(result)
+      });
+      console.log(`[INGEST] 타입 충돌 확인 필요: ${jobId}`);
+      return;
+    }
+
+    updateJob(jobId, { status: 'inserting' });
+
+    // 현재 데이터를 이전 버전으로 보관하고 모든 시트를 하나의 트랜잭션으로 반영
+    const previousVersion = getCurrentVersion(fileId);
+    const totalSize = mode === 'append' ? (fileData.size as number) + fileSize : fileSize;
+    const applyResult = db.transaction(() => {
+      archiveCurrentTables(existingTables, previousVersion);
+
+      const updated = plans.map(plan =>
+        applyTableUpdate(plan, mode, getVersionTableName(plan.target.tableName, previousVersion))
+      );
+      const updatedByName = new Map(updated.map(table => [table.tableName, table]));
+
+      // 이번 업로드에 없는 시트는 보관본에서 그대로 복원
+      const tables = existingTables.map(table => {
+        const updatedTable = updatedByName.get(table.tableName);
+        if (updatedTable) return updatedTable;
+        copyTable(getVersionTableName(table.tableName, previousVersion), table.tableName);
+        return table;
+      });
+
+      restoreIndexes(fileId, tables);
+      updateDatasetMetadata(fileId, tables, !!fileData.sheets, totalSize);
+      const version = recordVersion(fileId, {
+        action: mode,
+        sourceFileName: fileName,
+        tables,
+        size: totalSize,
+        originalPath,
+        checksum: row.checksum as string
+      });
+      return { updated, tables, version };
+    });
+    if (!applyResult.success) {
+      throw new Error(applyResult.error);
+    }
+    const { updated, tables, version } = applyResult.result!;
+    committed = true;
+
+    try {
+      profileDataset(fileId, updated);
+    } catch (profileError) {
+      console.error('[INGEST] 컬럼 프로필 계산 실패:', profileError);
+    }
+
+    const result: DatasetUpdateJobResult = {
+      mode,
+      changes,
+      version,
+      file: {
+        id: fileId,
+        name: fileData.name as string,
+        displayName: (fileData.displayName as string) || null,
+        size: totalSize,
+        columns: tables[0].columns,
+        columnCount: tables[0].columns.length,
+        rowCount: tables[0].rowCount,
+        columnMapping: tables[0].columnMapping,
+        sheets: tables.map(table => ({ name: table.name, rowCount: table.rowCount, columnCount: table.columns.length }))
+      },
+      rejections: mergeRejectionSummaries(ingested.rejections)
+    };
+    finish({ status: 'done', bytesProcessed: fileSize, result: JSON.stringify(result) });
+    console.log(`[INGEST] 데이터셋 갱신 완료: ${jobId} (${Date.now() - startTime}ms, 버전 ${version})`);
+
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[INGEST] 데이터셋 갱신 실패: ${jobId}`, error);
+    finish({ status: 'failed', error: message });
+  } finally {
+    dropIncomingTables(fileId);
+    // 반영되지 않은 업로드(타입 충돌 확인 대기 포함)의 원본과 변환 실패 기록은 남기지 않음
+    if (!committed) {
+      await deleteStoredFile(originalPath);
+      deleteRejections(fileId, nextVersion);
+    }
+  }
+}
@@ -0,0 +1,620 @@
+import { pipeline, Readable, Transform } from 'stream';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import csv from 'csv-parser';
+import * as XLSX from 'xlsx';
+import * as iconv from 'iconv-lite';
+import { db } from './database';
+import {
+  CsvDialect,
+  CsvDialectOverrides,
+  countReplacementChars,
+  readDialectOverrides,
+  resolveDialect,
+  splitRecords,
+  validateDialectOverrides
+} from './csv-dialect';
+import {
+  convertValue,
+  createTypeObserver,
+  formatDate,
+  inferColumnType,
+  toStorableValue
+} from './type-inference';
+import { parseJsonRecords, parseNdjsonRecords, parseParquetRecords } from './record-formats';
+import { RejectionTarget, checkErrorRate, recordRejections } from './rejections';
+import { normalizeColumnNames } from '@/shared/lib/utils';
+import {
+  COLUMN_TYPES,
+  ColumnOverride,
+  ColumnType,
+  NESTED_MODES,
+  NestedMode,
+  RejectionSummary,
+  SchemaOverrides,
+  SheetPreview
+} from '@/types';
+
+export type DataRow = Record<string, unknown>;
+
+export interface IngestResult {
+  columns: string[];
+  columnMapping: Record<string, string>;
+  columnTypes: Record<string, ColumnType>;
+  rowCount: number;
+  rejections: RejectionSummary;
+}
+
+// 원본 컬럼 → 저장 컬럼 구성 (원본 순서 기준, 제외된 컬럼은 빠짐)
+export interface ColumnPlan {
+  columns: string[];
+  normalizedColumns: string[];
+  columnMapping: Record<string, string>;
+  columnTypes: Record<string, ColumnType>;
+}
+
+// 가져오기 진행 알림 (onRows: 스테이징 테이블에 배치를 쓸 때마다 누적 행 수, onConvert: 최종 테이블로 옮기기 직전)
+export interface IngestHooks {
+  onRows?: (rowCount: number) => void;
+  onConvert?: () => void;
+}
+
+// 변환 실패 기록 설정 (rejections가 없으면 기록하지 않음, maxErrorRate: 허용하는 실패 행 비율 0~1)
+export interface IngestOptions {
+  rejections?: RejectionTarget;
+  maxErrorRate?: number | null;
+}
+
+// 업로드 파일 안의 시트(CSV는 파일 전체) 단위 행 스트림
+export interface SheetSource {
+  name: string;
+  rows: AsyncIterable<DataRow> | Iterable<DataRow>;
+}
+
+// 인코딩/구분자 감지에 사용할 선두 바이트 수
+const SNIFF_SAMPLE_BYTES = 64 * 1024;
+// 컬럼 구성 결정과 미리보기 타입 추론에 사용할 선두 행 수
+const INFERENCE_SAMPLE_ROWS = 1000;
+// 한 트랜잭션에 삽입할 행 수
+const INSERT_BATCH_SIZE = 1000;
+
+// 스트림 앞부분을 미리 읽고, 읽은 부분을 포함한 원래 스트림을 다시 돌려줌
+async function peekStream(
+  source: Readable,
+  size: number
+): Promise<{ head: Buffer; stream: Readable; exhausted: boolean }> {
+  const iterator = source[Symbol.asyncIterator]();
+  const chunks: Buffer[] = [];
+  let length = 0;
+  let exhausted = false;
+
+  while (length < size) {
+    const next = await iterator.next();
+    if (next.done) {
+      exhausted = true;
+      break;
+    }
+    const chunk = Buffer.from(next.value);
+    chunks.push(chunk);
+    length += chunk.length;
+  }
+
+  const head = Buffer.concat(chunks);
+
+  async function* replay() {
+    if (head.length > 0) yield head;
+    if (exhausted) return;
+    while (true) {
+      const next = await iterator.next();
+      if (next.done) return;
+      yield Buffer.from(next.value);
+    }
+  }
+
+  return { head, stream: Readable.from(replay(), { objectMode: false }), exhausted };
+}
+
+// 디코딩 결과에 대체 문자(U+FFFD)가 나오면 잘못된 인코딩으로 보고 중단
+function guardDecoding(encoding: string): Transform {
+  return new Transform({
+    decodeStrings: false,
+    transform(chunk: string | Buffer, _encoding, callback) {
+      const text = chunk.toString();
+      const count = countReplacementChars(text);
+      if (count > 0) {
+        callback(new Error(
+          `'${encoding}' 인코딩으로 해석할 수 없는 문자가 ${count}개 있습니다. 올바른 인코딩을 지정해 다시 업로드해주세요.`
+        ));
+        return;
+      }
+      callback(null, text);
+    }
+  });
+}
+
+// CSV 스트림의 방언을 감지하고 디코딩하며 행 단위로 파싱
+export async function openCSVStream(
+  source: Readable,
+  overrides: CsvDialectOverrides = {}
+): Promise<{ dialect: CsvDialect; rows: AsyncGenerator<DataRow> }> {
+  const { head, stream, exhausted } = await peekStream(source, SNIFF_SAMPLE_BYTES);
+  const dialect = resolveDialect(head, !exhausted, overrides);
+  console.log(`[UPLOAD] CSV 방언:`, dialect);
+
+  // 헤더가 없으면 필드 수만큼 열 이름 생성
+  let headers: string[] | undefined;
+  if (!dialect.hasHeader) {
+    const records = splitRecords(iconv.decode(head, dialect.encoding), dialect.delimiter, dialect.quote, dialect.headerRow + 1);
+    const fieldCount = records[dialect.headerRow]?.length || 1;
+    headers = Array.from({ length: fieldCount }, (_, index) => `column_${index + 1}`);
+  }
+
+  // pipeline으로 연결해 중간 단계 오류가 파서까지 전달되도록 함
+  const parser = pipeline(
+    stream,
+    iconv.decodeStream(dialect.encoding),
+    guardDecoding(dialect.encoding),
+    csv({
+      separator: dialect.delimiter,
+      quote: dialect.quote,
+      escape: dialect.quote,
+      skipLines: dialect.headerRow,
+      headers
+    }),
+    () => {
+      // 오류는 파서를 읽는 쪽에서 처리
+    }
+  );
+
+  async function* rows(): AsyncGenerator<DataRow> {
+    for await (const row of parser) {
+      // 빈 줄은 값이 없는 행으로 파싱되므로 건너뜀
+      if (Object.values(row as DataRow).every(value => value === '' || value === undefined)) continue;
+      yield row as DataRow;
+    }
+  }
+
+  return { dialect, rows: rows() };
+}
+
+// 날짜 서식 셀은 일련번호 대신 날짜 문자열로 (시간대 영향 없이 변환)
+function getCellValue(cell: XLSX.CellObject): unknown {
+  if (cell.t === 'n' && cell.z && XLSX.SSF.is_date(cell.z)) {
+    const parts = XLSX.SSF.parse_date_code(cell.v as number);
+    const hasTime = parts.H !== 0 || parts.M !== 0 || parts.S !== 0;
+    const date = formatDate(parts.y, parts.m, parts.d, hasTime ? { h: parts.H, m: parts.M, s: parts.S } : undefined);
+    if (date) return date;
+  }
+  return cell.v;
+}
+
+// 워크시트를 행 단위로 순회 (sheet_to_json과 같은 키 규칙 사용)
+export function* iterateWorksheet(worksheet: XLSX.WorkSheet, headerRow = 0): Generator<DataRow> {
+  if (!worksheet || !worksheet['!ref']) return;
+
+  const range = XLSX.utils.decode_range(worksheet['!ref']);
+  range.s.r += headerRow;
+  const headers: string[] = [];
+  const usedHeaders = new Map<string, number>();
+
+  for (let c = range.s.c; c <= range.e.c; c++) {
+    const cell = worksheet[XLSX.utils.encode_cell({ r: range.s.r, c })];
+    const base = cell && cell.v !== undefined && cell.v !== null && String(cell.v) !== ''
+      ? String(cell.w ?? cell.v)
+      : '__EMPTY';
+    const count = usedHeaders.get(base) || 0;
+    headers.push(count === 0 ? base : `${base}_${count}`);
+    usedHeaders.set(base, count + 1);
+  }
+
+  for (let r = range.s.r + 1; r <= range.e.r; r++) {
+    const row: DataRow = {};
+    let hasValue = false;
+
+    for (let c = range.s.c; c <= range.e.c; c++) {
+      const cell = worksheet[XLSX.utils.encode_cell({ r, c })];
+      if (!cell || cell.v === undefined || cell.v === null) continue;
+      row[headers[c - range.s.c]] = getCellValue(cell);
+      hasValue = true;
+    }
+
+    if (hasValue) yield row;
+  }
+}
+
+// 워크북의 모든 시트를 시트 순서대로 반환 (headerRow: 헤더 행 위치, 0부터 시작)
+export function parseExcel(buffer: Buffer, headerRow = 0): SheetSource[] {
+  const workbook = XLSX.read(buffer, { type: 'buffer', cellNF: true });
+  return workbook.SheetNames.map(name => ({
+    name,
+    rows: iterateWorksheet(workbook.Sheets[name], headerRow)
+  }));
+}
+
+export type UploadFormat = 'csv' | 'excel' | 'json' | 'ndjson' | 'parquet';
+
+// 파일 확장자로 업로드 형식 판별 (지원하지 않으면 null)
+export function getUploadFormat(fileName: string): UploadFormat | null {
+  const lowerName = fileName.toLowerCase();
+  if (['.csv', '.tsv', '.txt'].some(ext => lowerName.endsWith(ext))) return 'csv';
+  if (lowerName.endsWith('.xlsx') || lowerName.endsWith('.xls')) return 'excel';
+  if (lowerName.endsWith('.ndjson') || lowerName.endsWith('.jsonl')) return 'ndjson';
+  if (lowerName.endsWith('.json')) return 'json';
+  if (lowerName.endsWith('.parquet')) return 'parquet';
+  return null;
+}
+
+// 요청 본문(웹 스트림)을 Node 스트림으로 변환하며 받은 바이트 수 보고
+export function readableFromWeb(body: ReadableStream<Uint8Array>, onBytes?: (bytes: number) => void): Readable {
+  const source = Readable.fromWeb(body as unknown as NodeReadableStream<Uint8Array>);
+  return onBytes ? trackBytes(source, onBytes) : source;
+}
+
+// 스트림을 그대로 전달하면서 지나간 바이트 수 보고
+export function trackBytes(source: Readable, onBytes: (bytes: number) => void): Readable {
+  return pipeline(
+    source,
+    new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        onBytes(chunk.length);
+        callback(null, chunk);
+      }
+    }),
+    () => {
+      // 오류는 스트림을 읽는 쪽에서 처리
+    }
+  );
+}
+
+// 스트림 전체를 버퍼로 수집 (Excel/JSON 배열/Parquet은 파일 전체가 있어야 파싱 가능)
+export async function readAll(source: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of source) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+// 업로드 형식에 맞게 시트별 행 스트림 열기
+// nested: JSON/Parquet 중첩 값 저장 방식, truncated: 파일 앞부분만 받음 (미리보기)
+export async function openUploadSources(
+  fileName: string,
+  format: UploadFormat,
+  source: Readable,
+  overrides: CsvDialectOverrides = {},
+  { nested = 'flatten', truncated = false }: { nested?: NestedMode; truncated?: boolean } = {}
+): Promise<{ dialect?: CsvDialect; sheets: SheetSource[] }> {
+  switch (format) {
+    case 'csv': {
+      const { dialect, rows } = await openCSVStream(source, overrides);
+      return { dialect, sheets: [{ name: fileName, rows }] };
+    }
+    case 'json':
+      return { sheets: [{ name: fileName, rows: parseJsonRecords(await readAll(source), nested) }] };
+    case 'ndjson':
+      return { sheets: [{ name: fileName, rows: parseNdjsonRecords(source, nested, truncated) }] };
+    case 'parquet':
+      return { sheets: [{ name: fileName, rows: parseParquetRecords(await readAll(source), nested) }] };
+    default:
+      return { sheets: parseExcel(await readAll(source), overrides.headerRow) };
+  }
+}
+
+// 요청 파라미터의 컬럼 지정값(JSON) 해석 (형식이 잘못되면 null)
+export function parseSchemaOverrides(raw: string | null): SchemaOverrides | null {
+  if (!raw) return {};
+
+  try {
+    const parsed = JSON.parse(raw) as SchemaOverrides;
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) return null;
+
+    const valid = Object.values(parsed).every(overrides =>
+      Array.isArray(overrides) && overrides.every(override =>
+        typeof override?.original === 'string' &&
+        (override.name === undefined || typeof override.name === 'string') &&
+        (override.type === undefined || COLUMN_TYPES.includes(override.type)) &&
+        (override.drop === undefined || typeof override.drop === 'boolean')
+      )
+    );
+    return valid ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+// 업로드/미리보기 요청 공통 옵션
+export interface UploadOptions {
+  fileName: string;
+  format: UploadFormat;
+  dialectOverrides: CsvDialectOverrides;
+  schemaOverrides: SchemaOverrides;
+  nested: NestedMode;
+  maxErrorRate: number | null;
+}
+
+// 요청 쿼리 파라미터에서 업로드 옵션 읽기 (잘못된 값이면 오류 메시지 반환)
+export function readUploadOptions(params: URLSearchParams): UploadOptions | { error: string } {
+  const fileName = params.get('fileName');
+  if (!fileName) {
+    return { error: '파일이 제공되지 않았습니다.' };
+  }
+
+  const format = getUploadFormat(fileName);
+  if (!format) {
+    return { error: '지원되지 않는 파일 형식입니다.' };
+  }
+
+  // 구분자/인코딩 등 CSV 해석 방식 지정값 (지정하지 않은 항목은 자동 감지)
+  const dialectOverrides = readDialectOverrides(params);
+  const overrideError = validateDialectOverrides(dialectOverrides);
+  if (overrideError) {
+    return { error: overrideError };
+  }
+
+  const schemaOverrides = parseSchemaOverrides(params.get('schema'));
+  if (!schemaOverrides) {
+    return { error: '컬럼 설정 형식이 올바르지 않습니다.' };
+  }
+
+  // JSON/Parquet 중첩 객체 저장 방식 (기본: 점으로 이은 컬럼으로 펼침)
+  const nested = (params.get('nested') || 'flatten') as NestedMode;
+  if (!NESTED_MODES.includes(nested)) {
+    return { error: '중첩 값 저장 방식은 flatten 또는 json이어야 합니다.' };
+  }
+
+  // 허용하는 변환 실패 행 비율 (지정하지 않으면 INGEST_MAX_ERROR_RATE, 둘 다 없으면 제한 없음)
+  const maxErrorRateParam = params.get('maxErrorRate') ?? process.env.INGEST_MAX_ERROR_RATE ?? null;
+  const maxErrorRate = maxErrorRateParam === null || maxErrorRateParam === '' ? null : Number(maxErrorRateParam);
+  if (maxErrorRate !== null && !(maxErrorRate >= 0 && maxErrorRate <= 1)) {
+    return { error: '허용 오류 비율은 0에서 1 사이의 숫자여야 합니다.' };
+  }
+
+  return { fileName, format, dialectOverrides, schemaOverrides, nested, maxErrorRate };
+}
+
+// 샘플 행에서 컬럼 구성 결정 (추론 결과에 사용자 지정값 적용)
+export function planColumns(sampleRows: DataRow[], overrides: ColumnOverride[] = []): ColumnPlan {
+  const columnSet = new Set<string>();
+  sampleRows.forEach(row => Object.keys(row).forEach(key => columnSet.add(key)));
+
+  const overrideMap = new Map(overrides.map(override => [override.original, override]));
+  const columns = Array.from(columnSet).filter(col => !overrideMap.get(col)?.drop);
+
+  // 사용자가 지정한 이름도 정규화 규칙을 거쳐 안전한 컬럼명으로 만듦
+  const requestedNames = columns.map(col => overrideMap.get(col)?.name?.trim() || col);
+  const { normalizedColumns } = normalizeColumnNames(requestedNames);
+
+  const columnMapping: Record<string, string> = {};
+  const columnTypes: Record<string, ColumnType> = {};
+  columns.forEach((col, index) => {
+    columnMapping[col] = normalizedColumns[index];
+    columnTypes[normalizedColumns[index]] = overrideMap.get(col)?.type
+      || inferColumnType(sampleRows.map(row => row[col]));
+  });
+
+  return { columns, normalizedColumns, columnMapping, columnTypes };
+}
+
+// 스트림 앞부분의 행을 모아 반환 (미리보기용, 나머지는 읽지 않음)
+export async function takeRows(rows: AsyncIterable<DataRow> | Iterable<DataRow>, count: number): Promise<DataRow[]> {
+  const taken: DataRow[] = [];
+  if (count <= 0) return taken;
+  for await (const row of rows) {
+    taken.push(row);
+    if (taken.length >= count) break;
+  }
+  return taken;
+}
+
+// 시트 미리보기: 추론 샘플로 컬럼 구성을 정하고 앞부분 행을 저장될 형태로 변환
+export async function previewRows(
+  name: string,
+  rows: AsyncIterable<DataRow> | Iterable<DataRow>,
+  rowLimit: number,
+  overrides: ColumnOverride[] = [],
+  truncated = false
+): Promise<SheetPreview> {
+  let sampleRows = await takeRows(rows, INFERENCE_SAMPLE_ROWS);
+  // 파일 일부만 받은 경우 마지막 행은 잘렸을 수 있으므로 제외
+  if (truncated && sampleRows.length < INFERENCE_SAMPLE_ROWS) {
+    sampleRows = sampleRows.slice(0, -1);
+  }
+
+  const plan = planColumns(sampleRows, overrides);
+
+  return {
+    name,
+    columns: plan.columns.map((col, index) => ({
+      original: col,
+      name: plan.normalizedColumns[index],
+      type: plan.columnTypes[plan.normalizedColumns[index]]
+    })),
+    rows: sampleRows.slice(0, rowLimit).map(row => {
+      const converted: DataRow = {};
+      plan.columns.forEach((col, index) => {
+        const normalized = plan.normalizedColumns[index];
+        converted[normalized] = convertValue(row[col], plan.columnTypes[normalized]);
+      });
+      return converted;
+    })
+  };
+}
+
+// 스테이징 테이블의 원본 값을 최종 타입으로 변환하는 SQL 함수 등록
+let converterRegistered = false;
+export function ensureConverter(): void {
+  if (converterRegistered) return;
+  db.defineFunction('convert_value', { deterministic: true }, (value, columnType) =>
+    convertValue(value, String(columnType))
+  );
+  converterRegistered = true;
+}
+
+// 행 스트림을 원본 값 그대로 스테이징 테이블에 배치 삽입하면서 컬럼 전체 값을 관찰하고,
+// 끝까지 읽은 뒤 확정된 타입으로 최종 테이블 생성 (전체 데이터를 메모리에 올리지 않음)
+export async function ingestRows(
+  rows: AsyncIterable<DataRow> | Iterable<DataRow>,
+  tableName: string,
+  overrides: ColumnOverride[] = [],
+  hooks: IngestHooks = {},
+  options: IngestOptions = {}
+): Promise<IngestResult> {
+  const stagingTableName = `${tableName}__staging`;
+  const sampleRows: DataRow[] = [];
+  let plan: ColumnPlan = { columns: [], normalizedColumns: [], columnMapping: {}, columnTypes: {} };
+  let observers: (ReturnType<typeof createTypeObserver> | null)[] = [];
+  let insertQuery = '';
+  let batch: unknown[][] = [];
+  let rowCount = 0;
+  let rejections: RejectionSummary = { count: 0, rows: 0 };
+  let stagingCreated = false;
+  let tableCreated = false;
+  const overrideMap = new Map(overrides.map(override => [override.original, override]));
+  let knownColumns = new Set<string>();
+
+  const toValues = (row: DataRow) =>
+    plan.columns.map((col, index) => {
+      const value = toStorableValue(row[col]);
+      observers[index]?.observe(value);
+      return value;
+    });
+
+  const flush = () => {
+    if (batch.length === 0) return;
+    const result = db.executeMany(insertQuery, batch);
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    rowCount += batch.length;
+    batch = [];
+    hooks.onRows?.(rowCount);
+  };
+
+  const prepareInsert = () => {
+    const stagingColumns = plan.normalizedColumns.map(col => `"${col}"`).join(', ');
+    const placeholders = plan.normalizedColumns.map(() => '?').join(', ');
+    insertQuery = `INSERT INTO "${stagingTableName}" (${stagingColumns}) VALUES (${placeholders})`;
+    knownColumns = new Set(plan.columns);
+  };
+
+  // 샘플 행으로 컬럼 구성을 정하고 타입 없는 스테이징 테이블 생성
+  const createStagingTable = () => {
+    plan = planColumns(sampleRows, overrides);
+    const { normalizedColumns } = plan;
+
+    if (normalizedColumns.length === 0) {
+      throw new Error('저장할 컬럼이 없습니다.');
+    }
+
+    // 사용자가 타입을 지정한 컬럼은 관찰하지 않음
+    observers = plan.columns.map(col => overrideMap.get(col)?.type ? null : createTypeObserver());
+
+    db.dropTable(stagingTableName);
+    const createResult = db.execute(`CREATE TABLE "${stagingTableName}" (${normalizedColumns.map(col => `"${col}"`).join(', ')})`);
+    if (!createResult.success) {
+      throw new Error(createResult.error);
+    }
+    stagingCreated = true;
+    prepareInsert();
+
+    batch = sampleRows.map(toValues);
+    sampleRows.length = 0;
+    flush();
+  };
+
+  // 추론 샘플 뒤에 처음 나온 키(JSON/NDJSON/Parquet 이벤트 로그 등)는 스테이징 테이블에 컬럼을 추가해 함께 저장
+  // (앞선 행의 값은 NULL, 타입은 이 컬럼에서 관찰한 값으로 결정)
+  const addLateColumns = (row: DataRow) => {
+    const added = Object.keys(row).filter(key => !knownColumns.has(key) && !overrideMap.get(key)?.drop);
+    if (added.length === 0) return;
+    flush();
+
+    const columns = [...plan.columns, ...added];
+    const { normalizedColumns } = normalizeColumnNames(columns.map(col => overrideMap.get(col)?.name?.trim() || col));
+    added.forEach((col, index) => {
+      const normalized = normalizedColumns[plan.columns.length + index];
+      const result = db.execute(`ALTER TABLE "${stagingTableName}" ADD COLUMN "${normalized}"`);
+      if (!result.success) {
+        throw new Error(result.error);
+      }
+      plan.columnMapping[col] = normalized;
+      plan.columnTypes[normalized] = overrideMap.get(col)?.type || 'TEXT';
+      observers.push(overrideMap.get(col)?.type ? null : createTypeObserver());
+    });
+    plan.columns = columns;
+    plan.normalizedColumns = normalizedColumns;
+    prepareInsert();
+    console.log(`[UPLOAD] 추론 샘플 이후에 나온 컬럼 추가 (${rowCount + 1}번째 행부터): ${added.join(', ')}`);
+  };
+
+  // 관찰한 전체 값으로 타입을 확정하고 변환해 최종 테이블로 옮김
+  const createTable = () => {
+    const { normalizedColumns, columnTypes } = plan;
+    observers.forEach((observer, index) => {
+      if (observer) columnTypes[normalizedColumns[index]] = observer.result();
+    });
+    console.log(`[UPLOAD] 컬럼 타입:`, columnTypes);
+
+    // 확정된 타입으로 바뀌지 않는 값을 기록하고, 실패한 행이 너무 많으면 테이블을 만들기 전에 중단
+    if (options.rejections) {
+      rejections = recordRejections(
+        options.rejections,
+        stagingTableName,
+        plan.columns.map((original, index) => ({
+          original,
+          name: normalizedColumns[index],
+          type: columnTypes[normalizedColumns[index]]
+        }))
+      );
+      if (rejections.count > 0) {
+        console.log(`[UPLOAD] 변환 실패: ${rejections.count}개 값 (${rejections.rows}/${rowCount}행)`);
+      }
+      checkErrorRate(rejections, rowCount, options.maxErrorRate);
+    }
+
+    hooks.onConvert?.();
+    ensureConverter();
+    const createTableColumns = normalizedColumns.map(col => `"${col}" ${columnTypes[col]}`).join(', ');
+    const createTableResult = db.execute(`CREATE TABLE IF NOT EXISTS "${tableName}" (${createTableColumns})`);
+    if (!createTableResult.success) {
+      throw new Error(createTableResult.error);
+    }
+    tableCreated = true;
+
+    const quotedColumns = normalizedColumns.map(col => `"${col}"`).join(', ');
+    const convertedColumns = normalizedColumns.map(col => `convert_value("${col}", '${columnTypes[col]}')`).join(', ');
+    const copyResult = db.execute(
+      `INSERT INTO "${tableName}" (${quotedColumns}) SELECT ${convertedColumns} FROM "${stagingTableName}" ORDER BY rowid`
+    );
+    if (!copyResult.success) {
+      throw new Error(copyResult.error);
+    }
+    console.log(`[UPLOAD] 테이블 생성 완료: ${tableName}`);
+  };
+
+  try {
+    for await (const row of rows) {
+      if (!stagingCreated) {
+        sampleRows.push(row);
+        if (sampleRows.length >= INFERENCE_SAMPLE_ROWS) createStagingTable();
+        continue;
+      }
+
+      addLateColumns(row);
+      batch.push(toValues(row));
+      if (batch.length >= INSERT_BATCH_SIZE) flush();
+    }
+
+    if (!stagingCreated && sampleRows.length > 0) createStagingTable();
+    flush();
+    if (stagingCreated) createTable();
+  } catch (error) {
+    // 중간에 실패하면 만들어진 테이블을 남기지 않음
+    if (tableCreated) db.dropTable(tableName);
+    throw error;
+  } finally {
+    if (stagingCreated) db.dropTable(stagingTableName);
+  }
+
+  const { columns, columnMapping, columnTypes } = plan;
+  return { columns, columnMapping, columnTypes, rowCount, rejections };
+}
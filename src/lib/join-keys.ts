@@ -0,0 +1,195 @@
+import { db, DatabaseRow } from './database';
+import { getDatasetProfile } from './profiling';
+import { AnalysisScope } from './workspaces';
+import { ColumnProfile, JoinCandidate, JoinCandidateColumn, JoinCardinality } from '@/types';
+
+// 키로 비교할 컬럼 타입 (정수 ID를 텍스트로 저장한 쪽과도 비교)
+const KEY_TYPES = ['INTEGER', 'TEXT'];
+// 적어도 한쪽 컬럼의 고유 값 비율이 이 값 이상이어야 후보 (양쪽 모두 중복이 많으면 키가 아님)
+const MIN_KEY_UNIQUENESS = 0.9;
+// 한쪽 고유 값 중 이 비율 이상이 다른 쪽에도 있어야 후보
+const MIN_CONTAINMENT = 0.5;
+// 겹치는 고유 값이 이보다 적으면 우연의 일치로 봄
+const MIN_OVERLAP = 2;
+// 고유 값이 이보다 많으면 무작위로 뽑은 값만 비교해 추정
+const SAMPLE_SIZE = 2000;
+// 반환할 최대 후보 수
+const MAX_CANDIDATES = 30;
+// 키 컬럼 이름에 흔히 쓰이는 표현 (한글은 이름 끝에 붙는 경우)
+const KEY_NAME_HINTS = ['id', 'key', 'code', 'no', 'num', 'number', '번호', '코드', '아이디', '키'];
+
+interface KeyColumn {
+  ref: JoinCandidateColumn;
+  profile: ColumnProfile;
+}
+
+function selectAll(query: string, params: unknown[] = []): DatabaseRow[] {
+  const result = db.select(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!;
+}
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9가-힣]/g, '');
+
+// 이름을 단어로 나눔 (customerId, customer_id → customer, id)
+const splitName = (name: string) =>
+  name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase().split(/[^a-z0-9가-힣]+/).filter(Boolean);
+
+function hasKeyHint(name: string): boolean {
+  return splitName(name).some(token =>
+    KEY_NAME_HINTS.some(hint => /[가-힣]/.test(hint) ? token.endsWith(hint) : token === hint)
+  );
+}
+
+// 컬럼 이름 유사도 (저장 컬럼명과 원본 컬럼명 모두 비교)
+// 1: 같은 이름, 0.6: 한쪽 이름이 다른 쪽을 포함, 0.3: 양쪽 모두 키처럼 보이는 이름
+function getNameSimilarity(left: JoinCandidateColumn, right: JoinCandidateColumn): number {
+  const leftNames = [left.column, left.label];
+  const rightNames = [right.column, right.label];
+  let similarity = 0;
+
+  for (const leftName of leftNames) {
+    for (const rightName of rightNames) {
+      const a = normalizeName(leftName);
+      const b = normalizeName(rightName);
+      if (!a || !b) continue;
+      if (a === b) return 1;
+      if (Math.min(a.length, b.length) >= 2 && (a.includes(b) || b.includes(a))) {
+        similarity = Math.max(similarity, 0.6);
+      } else if (hasKeyHint(leftName) && hasKeyHint(rightName)) {
+        similarity = Math.max(similarity, 0.3);
+      }
+    }
+  }
+  return similarity;
+}
+
+// 값을 비교할 가치가 있는 컬럼 쌍인지 (타입, 고유 값 비율, 숫자 범위)
+function isComparable(left: KeyColumn, right: KeyColumn): boolean {
+  if (left.ref.distinctCount < MIN_OVERLAP || right.ref.distinctCount < MIN_OVERLAP) return false;
+  if (Math.max(left.ref.uniqueness, right.ref.uniqueness) < MIN_KEY_UNIQUENESS) return false;
+  if (left.ref.type === 'INTEGER' && right.ref.type === 'INTEGER') {
+    const { min: leftMin, max: leftMax } = left.profile;
+    const { min: rightMin, max: rightMax } = right.profile;
+    if ((leftMax as number) < (rightMin as number) || (rightMax as number) < (leftMin as number)) return false;
+  }
+  return true;
+}
+
+// 고유 값이 적은 쪽(small)의 값 중 큰 쪽(large)에도 있는 값 수 (값은 텍스트로 바꿔 비교)
+function measureOverlap(small: JoinCandidateColumn, large: JoinCandidateColumn): { matched: number; compared: number } {
+  const sampled = small.distinctCount > SAMPLE_SIZE;
+  const [row] = selectAll(
+    `SELECT COUNT(*) AS compared,
+       SUM(v IN (SELECT CAST("${large.column}" AS TEXT) FROM "${large.tableName}" WHERE "${large.column}" IS NOT NULL)) AS matched
+     FROM (
+       SELECT DISTINCT CAST("${small.column}" AS TEXT) AS v FROM "${small.tableName}"
+       WHERE "${small.column}" IS NOT NULL ${sampled ? 'ORDER BY RANDOM()' : ''} LIMIT ?
+     )`,
+    [SAMPLE_SIZE]
+  );
+  return { matched: (row.matched as number) || 0, compared: (row.compared as number) || 0 };
+}
+
+// 키 값이 중복 없이 한 번씩만 나오는 컬럼인지
+const isUnique = ({ profile }: KeyColumn) => profile.distinctCount === profile.rowCount - profile.nullCount;
+
+function getCardinality(left: KeyColumn, right: KeyColumn): JoinCardinality {
+  const leftOne = isUnique(left);
+  const rightOne = isUnique(right);
+  if (leftOne && rightOne) return 'one-to-one';
+  if (leftOne) return 'one-to-many';
+  if (rightOne) return 'many-to-one';
+  return 'many-to-many';
+}
+
+const round = (value: number) => Math.round(value * 1000) / 1000;
+
+// 두 컬럼이 조인 키 후보인지 검사 (조건에 맞지 않으면 null)
+function evaluatePair(left: KeyColumn, right: KeyColumn): Omit<JoinCandidate, 'confirmed'> | null {
+  if (!isComparable(left, right)) return null;
+
+  const leftIsSmall = left.ref.distinctCount <= right.ref.distinctCount;
+  const [small, large] = leftIsSmall ? [left.ref, right.ref] : [right.ref, left.ref];
+  const { matched, compared } = measureOverlap(small, large);
+  if (compared === 0) return null;
+
+  // 일부만 비교했으면 전체 고유 값 수에 비율을 곱해 추정
+  const sampled = compared < small.distinctCount;
+  const overlapCount = sampled ? Math.round(small.distinctCount * matched / compared) : matched;
+  if (overlapCount < MIN_OVERLAP) return null;
+
+  const smallContainment = Math.min(1, overlapCount / small.distinctCount);
+  const largeContainment = Math.min(1, overlapCount / large.distinctCount);
+  if (smallContainment < MIN_CONTAINMENT) return null;
+
+  // 이름이 전혀 닮지 않았으면 양쪽 값이 모두 충분히 겹쳐야 후보 (작은 범주 값이 우연히 ID와 겹치는 경우 제외)
+  const nameSimilarity = getNameSimilarity(left.ref, right.ref);
+  if (nameSimilarity === 0 && largeContainment < MIN_CONTAINMENT) return null;
+  return {
+    left: left.ref,
+    right: right.ref,
+    nameSimilarity,
+    overlapCount,
+    leftContainment: round(leftIsSmall ? smallContainment : largeContainment),
+    rightContainment: round(leftIsSmall ? largeContainment : smallContainment),
+    cardinality: getCardinality(left, right),
+    score: round(0.7 * smallContainment + 0.3 * nameSimilarity),
+    sampled
+  };
+}
+
+// 분석 대상 데이터셋 테이블 사이의 조인 키 후보 (점수 높은 순)
+// 컬럼 타입과 고유 값 수는 저장된 프로필을 사용하고, 겹치는 값은 테이블에서 직접 비교
+export function detectJoinCandidates(scope: AnalysisScope): JoinCandidate[] {
+  const tables = scope.datasets.flatMap(dataset =>
+    getDatasetProfile(dataset.fileId, dataset.tables).map(profile => ({
+      tableName: profile.tableName,
+      columns: profile.columns
+        .filter(column => KEY_TYPES.includes(column.type))
+        .map((column): KeyColumn => {
+          const nonNullCount = column.rowCount - column.nullCount;
+          return {
+            profile: column,
+            ref: {
+              fileId: dataset.fileId,
+              dataset: dataset.name,
+              sheet: profile.name,
+              tableName: profile.tableName,
+              column: column.column,
+              label: column.original,
+              type: column.type,
+              distinctCount: column.distinctCount,
+              uniqueness: nonNullCount > 0 ? round(column.distinctCount / nonNullCount) : 0
+            }
+          };
+        })
+    }))
+  );
+
+  const candidates: JoinCandidate[] = [];
+  for (let i = 0; i < tables.length; i++) {
+    for (let j = i + 1; j < tables.length; j++) {
+      for (const left of tables[i].columns) {
+        for (const right of tables[j].columns) {
+          const candidate = evaluatePair(left, right);
+          if (!candidate) continue;
+
+          const confirmed = scope.relationships.some(relationship =>
+            (relationship.leftTable === left.ref.tableName && relationship.leftColumn === left.ref.column
+              && relationship.rightTable === right.ref.tableName && relationship.rightColumn === right.ref.column)
+            || (relationship.leftTable === right.ref.tableName && relationship.leftColumn === right.ref.column
+              && relationship.rightTable === left.ref.tableName && relationship.rightColumn === left.ref.column)
+          );
+          candidates.push({ ...candidate, confirmed });
+        }
+      }
+    }
+  }
+
+  return candidates
+    .sort((a, b) => b.score - a.score || b.overlapCount - a.overlapCount)
+    .slice(0, MAX_CANDIDATES);
+}
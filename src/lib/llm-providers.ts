@@ -0,0 +1,74 @@
+import type { BaseChatModel } from '@langchain/core/language_models/chat_models';
+import type { Callbacks } from '@langchain/core/callbacks/manager';
+
+// 에이전트가 사용할 LLM 제공자 (LLM_PROVIDER 환경변수로 배포마다 선택)
+// gemini: Google Gemini, openai: OpenAI 호환 API (OPENAI_BASE_URL로 Ollama, llama.cpp 등 로컬 서버 사용 가능)
+// fake: 정해진 스크립트대로 응답하는 오프라인 개발/테스트용 모델
+export type LlmProvider = 'gemini' | 'openai' | 'fake';
+
+export const LLM_PROVIDERS: LlmProvider[] = ['gemini', 'openai', 'fake'];
+
+export interface ChatModelOptions {
+  temperature: number;
+  maxRetries: number;
+  callbacks?: Callbacks;
+  // fake 모델 스크립트의 {{이름}} 자리에 넣을 값 (fileId 등)
+  variables?: Record<string, string>;
+}
+
+// 환경변수에서 필수 설정값 가져오기
+const requireEnv = (name: string): string => {
+  const value = process.env[name]?.trim();
+  if (!value) {
+    throw new Error(`${name} 환경변수가 설정되지 않았습니다.`);
+  }
+  return value;
+};
+
+export function getLlmProvider(): LlmProvider {
+  const value = (process.env.LLM_PROVIDER || 'gemini').trim().toLowerCase();
+  if (LLM_PROVIDERS.includes(value as LlmProvider)) {
+    return value as LlmProvider;
+  }
+  console.warn(`[LLM] 알 수 없는 LLM_PROVIDER 값(${value}), gemini를 사용합니다.`);
+  return 'gemini';
+}
+
+// 설정된 제공자의 채팅 모델 생성 (도구 호출은 모든 제공자에서 bindTools로 같은 방식으로 동작)
+// 제공자 모듈은 선택된 것만 불러옴
+export async function createChatModel(options: ChatModelOptions): Promise<BaseChatModel> {
+  const { temperature, maxRetries, callbacks } = options;
+  const provider = getLlmProvider();
+
+  if (provider === 'openai') {
+    const { ChatOpenAI } = await import('@langchain/openai');
+    return new ChatOpenAI({
+      model: requireEnv('OPENAI_MODEL'),
+      // 로컬 서버는 키가 없어도 되지만 클라이언트가 빈 키를 허용하지 않음
+      apiKey: process.env.OPENAI_API_KEY || 'not-needed',
+      configuration: { baseURL: process.env.OPENAI_BASE_URL || undefined },
+      temperature,
+      maxRetries,
+      callbacks
+    });
+  }
+
+  if (provider === 'fake') {
+    const { DEFAULT_CHAT_SCRIPT, loadChatScript, ScriptedChatModel } = await import('./scripted-chat-model');
+    const scriptPath = process.env.FAKE_LLM_SCRIPT?.trim();
+    return new ScriptedChatModel({
+      steps: scriptPath ? loadChatScript(scriptPath) : DEFAULT_CHAT_SCRIPT,
+      variables: options.variables,
+      callbacks
+    });
+  }
+
+  const { ChatGoogleGenerativeAI } = await import('@langchain/google-genai');
+  return new ChatGoogleGenerativeAI({
+    model: requireEnv('GEMINI_MODEL'),
+    apiKey: process.env.GEMINI_API_KEY,
+    temperature,
+    maxRetries,
+    callbacks
+  });
+}
@@ -0,0 +1,284 @@
+import Database from 'better-sqlite3';
+
+// 메타데이터 데이터베이스 스키마 변경 단위 (version은 1부터 빠짐없이 증가)
+// 이미 배포된 마이그레이션은 수정하지 말고 새 번호로 추가
+export interface Migration {
+  version: number;
+  name: string;
+  up: (db: Database.Database) => void;
+}
+
+// 적용한 마이그레이션 기록 테이블
+const MIGRATIONS_TABLE = 'schema_migrations';
+
+// 컬럼이 없을 때만 추가 (마이그레이션 도입 전에 만들어진 데이터베이스 보충용)
+function ensureColumn(db: Database.Database, tableName: string, columnName: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info("${tableName}")`).all() as { name: string }[];
+  if (!columns.some(col => col.name === columnName)) {
+    db.exec(`ALTER TABLE "${tableName}" ADD COLUMN "${columnName}" ${definition}`);
+  }
+}
+
+export const MIGRATIONS: Migration[] = [
+  {
+    // 마이그레이션 도입 이전 스키마 (그 전에 만들어진 데이터베이스는 빠진 테이블/컬럼만 보충)
+    version: 1,
+    name: 'baseline',
+    up(db) {
+      // files 테이블 생성
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS files (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          displayName TEXT,
+          type TEXT NOT NULL,
+          size INTEGER NOT NULL,
+          uploadedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          columns TEXT NOT NULL,
+          columnCount INTEGER NOT NULL,
+          rowCount INTEGER NOT NULL,
+          columnMapping TEXT NOT NULL,
+          sheets TEXT
+        )
+      `);
+      // 표시 이름과 시트 정보는 처음 만든 files 테이블에 없던 컬럼
+      ensureColumn(db, 'files', 'displayName', 'TEXT');
+      ensureColumn(db, 'files', 'sheets', 'TEXT');
+      // 보관된 원본 파일 경로(uploads/ 기준)와 SHA-256 체크섬
+      ensureColumn(db, 'files', 'originalPath', 'TEXT');
+      ensureColumn(db, 'files', 'checksum', 'TEXT');
+      db.exec('CREATE INDEX IF NOT EXISTS idx_files_checksum ON files (checksum)');
+
+      // chat_history 테이블 생성
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS chat_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          fileId TEXT NOT NULL,
+          userMessage TEXT NOT NULL,
+          aiResponse TEXT NOT NULL,
+          timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE
+        )
+      `);
+      // 답변 당시의 데이터셋 버전
+      ensureColumn(db, 'chat_history', 'version', 'INTEGER');
+
+      // column_profiles 테이블 생성 (업로드 시 계산한 컬럼별 분포 정보)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS column_profiles (
+          fileId TEXT NOT NULL,
+          tableName TEXT NOT NULL,
+          columnName TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          type TEXT NOT NULL,
+          rowCount INTEGER NOT NULL,
+          nullCount INTEGER NOT NULL,
+          distinctCount INTEGER NOT NULL,
+          minValue,
+          maxValue,
+          mean REAL,
+          topValues TEXT NOT NULL,
+          histogram TEXT,
+          profiledAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (fileId, tableName, columnName),
+          FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE
+        )
+      `);
+
+      // dataset_versions 테이블 생성 (업로드/추가/교체/되돌리기마다 번호가 붙는 버전 기록)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS dataset_versions (
+          fileId TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          action TEXT NOT NULL,
+          sourceFileName TEXT,
+          baseVersion INTEGER,
+          rowCount INTEGER NOT NULL,
+          size INTEGER NOT NULL,
+          tables TEXT NOT NULL,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (fileId, version),
+          FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE
+        )
+      `);
+      // 추가/교체에 사용한 원본 파일
+      ensureColumn(db, 'dataset_versions', 'originalPath', 'TEXT');
+      ensureColumn(db, 'dataset_versions', 'checksum', 'TEXT');
+
+      // ingest_jobs 테이블 생성 (보관된 원본을 백그라운드에서 가져오는 작업과 진행 상태)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ingest_jobs (
+          id TEXT PRIMARY KEY,
+          fileId TEXT NOT NULL,
+          fileName TEXT NOT NULL,
+          fileType TEXT NOT NULL,
+          originalPath TEXT NOT NULL,
+          checksum TEXT NOT NULL,
+          options TEXT NOT NULL,
+          status TEXT NOT NULL,
+          rowsProcessed INTEGER NOT NULL DEFAULT 0,
+          bytesProcessed INTEGER NOT NULL DEFAULT 0,
+          totalBytes INTEGER NOT NULL,
+          error TEXT,
+          result TEXT,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          finishedAt DATETIME
+        )
+      `);
+
+      // ingest_rejections 테이블 생성 (가져올 때 타입 변환에 실패한 값 기록, 버전별)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS ingest_rejections (
+          fileId TEXT NOT NULL,
+          version INTEGER NOT NULL,
+          sheet TEXT NOT NULL,
+          rowNumber INTEGER NOT NULL,
+          columnName TEXT NOT NULL,
+          columnType TEXT NOT NULL,
+          value TEXT,
+          reason TEXT NOT NULL
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_ingest_rejections_file ON ingest_rejections (fileId, version)');
+
+      // dataset_indexes 테이블 생성 (데이터셋 컬럼에 만든 인덱스 정의, 새 버전을 만들 때 다시 생성)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS dataset_indexes (
+          name TEXT PRIMARY KEY,
+          fileId TEXT NOT NULL,
+          tableName TEXT NOT NULL,
+          columns TEXT NOT NULL,
+          origin TEXT NOT NULL,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // query_scan_stats 테이블 생성 (에이전트 쿼리에서 전체 스캔으로 처리된 필터/그룹 컬럼 집계)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS query_scan_stats (
+          fileId TEXT NOT NULL,
+          tableName TEXT NOT NULL,
+          columnName TEXT NOT NULL,
+          usage TEXT NOT NULL,
+          scanCount INTEGER NOT NULL DEFAULT 0,
+          lastQuery TEXT,
+          lastSeenAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          PRIMARY KEY (fileId, tableName, columnName, usage)
+        )
+      `);
+
+      // workspaces 테이블 생성 (여러 데이터셋을 묶어 함께 분석하는 단위)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS workspaces (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          description TEXT,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          updatedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+        )
+      `);
+
+      // workspace_datasets 테이블 생성 (워크스페이스에 속한 데이터셋)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS workspace_datasets (
+          workspaceId TEXT NOT NULL,
+          fileId TEXT NOT NULL,
+          position INTEGER NOT NULL,
+          PRIMARY KEY (workspaceId, fileId),
+          FOREIGN KEY (workspaceId) REFERENCES workspaces (id) ON DELETE CASCADE,
+          FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE
+        )
+      `);
+
+      // workspace_relationships 테이블 생성 (데이터셋 테이블 사이의 조인 키)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS workspace_relationships (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          workspaceId TEXT NOT NULL,
+          leftFileId TEXT NOT NULL,
+          leftTable TEXT NOT NULL,
+          leftColumn TEXT NOT NULL,
+          rightFileId TEXT NOT NULL,
+          rightTable TEXT NOT NULL,
+          rightColumn TEXT NOT NULL,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (workspaceId) REFERENCES workspaces (id) ON DELETE CASCADE
+        )
+      `);
+
+      // workspace_chat_history 테이블 생성 (워크스페이스 단위 대화 기록)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS workspace_chat_history (
+          id INTEGER PRIMARY KEY AUTOINCREMENT,
+          workspaceId TEXT NOT NULL,
+          userMessage TEXT NOT NULL,
+          aiResponse TEXT NOT NULL,
+          timestamp DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (workspaceId) REFERENCES workspaces (id) ON DELETE CASCADE
+        )
+      `);
+    }
+  },
+  {
+    version: 2,
+    name: 'derived_datasets',
+    up(db) {
+      // derived_datasets 테이블 생성 (원본 데이터셋의 SELECT 쿼리로 만든 뷰/파생 테이블 데이터셋의 계보)
+      db.exec(`
+        CREATE TABLE IF NOT EXISTS derived_datasets (
+          fileId TEXT PRIMARY KEY,
+          sourceFileId TEXT NOT NULL,
+          kind TEXT NOT NULL,
+          query TEXT NOT NULL,
+          sourceVersion INTEGER NOT NULL,
+          createdAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          refreshedAt DATETIME DEFAULT CURRENT_TIMESTAMP,
+          FOREIGN KEY (fileId) REFERENCES files (id) ON DELETE CASCADE
+        )
+      `);
+      db.exec('CREATE INDEX IF NOT EXISTS idx_derived_datasets_source ON derived_datasets (sourceFileId)');
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version;
+
+function ensureMigrationsTable(db: Database.Database): void {
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS ${MIGRATIONS_TABLE} (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      appliedAt DATETIME DEFAULT CURRENT_TIMESTAMP
+    )
+  `);
+}
+
+// 적용된 마지막 마이그레이션 번호 (아무것도 적용하지 않았으면 0)
+export function getSchemaVersion(db: Database.Database): number {
+  const row = db.prepare(`SELECT MAX(version) AS version FROM ${MIGRATIONS_TABLE}`).get() as { version: number | null };
+  return row.version || 0;
+}
+
+// 적용하지 않은 마이그레이션을 번호 순서대로 하나씩 트랜잭션 안에서 적용
+// 코드보다 새 스키마의 데이터베이스면 데이터를 망가뜨리지 않도록 시작을 거부
+export function runMigrations(db: Database.Database): void {
+  ensureMigrationsTable(db);
+  const current = getSchemaVersion(db);
+  if (current > LATEST_SCHEMA_VERSION) {
+    throw new Error(
+      `데이터베이스 스키마 버전(${current})이 이 애플리케이션이 아는 버전(${LATEST_SCHEMA_VERSION})보다 높습니다. 최신 버전의 애플리케이션으로 실행해주세요.`
+    );
+  }
+
+  for (const migration of MIGRATIONS.filter(item => item.version > current)) {
+    // 여러 프로세스가 동시에 시작해도 한 번만 적용되도록 쓰기 잠금을 잡은 뒤 다시 확인
+    db.transaction(() => {
+      const applied = db.prepare(`SELECT 1 FROM ${MIGRATIONS_TABLE} WHERE version = ?`).get(migration.version);
+      if (applied) return;
+      migration.up(db);
+      db.prepare(`INSERT INTO ${MIGRATIONS_TABLE} (version, name) VALUES (?, ?)`).run(migration.version, migration.name);
+      console.log(`[MIGRATION] ${migration.version}_${migration.name} 적용 완료`);
+    }).immediate();
+  }
+}
@@ -0,0 +1,181 @@
+import { db } from './database';
+import { DatasetTable } from './datasets';
+import { ColumnProfile, HistogramBin, TableProfile } from '@/types';
+
+// 자주 나오는 값 개수
+const TOP_VALUE_COUNT = 5;
+// 히스토그램 구간 수
+const HISTOGRAM_BINS = 10;
+
+const NUMERIC_TYPES = ['INTEGER', 'REAL', 'BOOLEAN'];
+
+function runQuery(query: string, params: unknown[] = []) {
+  const result = db.select(query, params);
+  if (!result.success || !result.data) {
+    throw new Error(result.error || '프로필 계산 실패');
+  }
+  return result.data;
+}
+
+// 숫자/날짜 컬럼의 구간별 빈도 (날짜는 julianday 기준으로 나누고 날짜 문자열로 표기)
+function computeHistogram(tableName: string, column: string, type: string): HistogramBin[] | null {
+  if (type !== 'INTEGER' && type !== 'REAL' && type !== 'DATE') return null;
+
+  const expression = type === 'DATE' ? `julianday("${column}")` : `"${column}"`;
+  const [range] = runQuery(
+    `SELECT MIN(x) AS minValue, MAX(x) AS maxValue, COUNT(x) AS count
+     FROM (SELECT ${expression} AS x FROM "${tableName}") WHERE typeof(x) IN ('integer', 'real')`
+  );
+  const min = range.minValue as number | null;
+  const max = range.maxValue as number | null;
+  if (min === null || max === null) return null;
+
+  const toLabel = (value: number) => type === 'DATE' ? julianToDate(value) : value;
+
+  if (min === max) {
+    return [{ start: toLabel(min), end: toLabel(max), count: range.count as number }];
+  }
+
+  const width = (max - min) / HISTOGRAM_BINS;
+  const rows = runQuery(
+    `SELECT MIN(CAST((x - ?) / ? AS INTEGER), ?) AS bin, COUNT(*) AS count
+     FROM (SELECT ${expression} AS x FROM "${tableName}") WHERE typeof(x) IN ('integer', 'real')
+     GROUP BY bin`,
+    [min, width, HISTOGRAM_BINS - 1]
+  );
+  const counts = new Map(rows.map(row => [row.bin as number, row.count as number]));
+
+  return Array.from({ length: HISTOGRAM_BINS }, (_, index) => ({
+    start: toLabel(min + width * index),
+    end: toLabel(index === HISTOGRAM_BINS - 1 ? max : min + width * (index + 1)),
+    count: counts.get(index) || 0
+  }));
+}
+
+function julianToDate(julian: number): string {
+  return new Date(Math.round((julian - 2440587.5) * 86400000)).toISOString().slice(0, 10);
+}
+
+// 테이블의 모든 컬럼 프로필 계산 (columnMapping: 원본 → 저장 컬럼명)
+export function profileTable(tableName: string, columnMapping: Record<string, string> = {}): ColumnProfile[] {
+  const originals = new Map(Object.entries(columnMapping).map(([original, column]) => [column, original]));
+  const tableInfo = runQuery(`PRAGMA table_info("${tableName}")`);
+  const [{ rowCount }] = runQuery(`SELECT COUNT(*) AS rowCount FROM "${tableName}"`);
+
+  return tableInfo.map(info => {
+    const column = info.name as string;
+    const type = ((info.type as string) || 'TEXT').toUpperCase();
+    const isNumeric = NUMERIC_TYPES.includes(type);
+
+    const [stats] = runQuery(
+      `SELECT COUNT("${column}") AS nonNullCount, COUNT(DISTINCT "${column}") AS distinctCount,
+        MIN("${column}") AS minValue, MAX("${column}") AS maxValue,
+        ${isNumeric ? `AVG("${column}")` : 'NULL'} AS mean
+       FROM "${tableName}"`
+    );
+
+    const topValues = runQuery(
+      `SELECT "${column}" AS value, COUNT(*) AS count FROM "${tableName}"
+       WHERE "${column}" IS NOT NULL GROUP BY "${column}" ORDER BY count DESC, value LIMIT ?`,
+      [TOP_VALUE_COUNT]
+    ).map(row => ({ value: row.value, count: row.count as number }));
+
+    return {
+      column,
+      original: originals.get(column) || column,
+      type,
+      rowCount: rowCount as number,
+      nullCount: (rowCount as number) - (stats.nonNullCount as number),
+      distinctCount: stats.distinctCount as number,
+      min: stats.minValue,
+      max: stats.maxValue,
+      mean: stats.mean as number | null,
+      topValues,
+      histogram: computeHistogram(tableName, column, type)
+    };
+  });
+}
+
+// 테이블 프로필 저장 (같은 테이블의 이전 프로필은 교체)
+export function saveTableProfile(fileId: string, tableName: string, profiles: ColumnProfile[]): void {
+  const result = db.transaction(() => {
+    db.execute('DELETE FROM column_profiles WHERE fileId = ? AND tableName = ?', [fileId, tableName]);
+    profiles.forEach((profile, position) => {
+      const insertResult = db.execute(
+        `INSERT INTO column_profiles
+          (fileId, tableName, columnName, position, type, rowCount, nullCount, distinctCount, minValue, maxValue, mean, topValues, histogram)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+        [
+          fileId,
+          tableName,
+          profile.column,
+          position,
+          profile.type,
+          profile.rowCount,
+          profile.nullCount,
+          profile.distinctCount,
+          profile.min,
+          profile.max,
+          profile.mean,
+          JSON.stringify(profile.topValues),
+          profile.histogram ? JSON.stringify(profile.histogram) : null
+        ]
+      );
+      if (!insertResult.success) {
+        throw new Error(insertResult.error);
+      }
+    });
+  });
+
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+// 데이터셋의 모든 테이블 프로필 계산 후 저장
+export function profileDataset(fileId: string, tables: DatasetTable[]): void {
+  for (const table of tables) {
+    saveTableProfile(fileId, table.tableName, profileTable(table.tableName, table.columnMapping));
+  }
+}
+
+// 저장된 프로필 조회 (프로필이 없는 테이블은 이 시점에 계산해 저장)
+export function getDatasetProfile(fileId: string, tables: DatasetTable[]): TableProfile[] {
+  return tables.map(table => {
+    const stored = runQuery(
+      'SELECT * FROM column_profiles WHERE fileId = ? AND tableName = ? ORDER BY position',
+      [fileId, table.tableName]
+    );
+
+    let columns: ColumnProfile[];
+    if (stored.length > 0) {
+      const originals = new Map(Object.entries(table.columnMapping).map(([original, column]) => [column, original]));
+      columns = stored.map(row => ({
+        column: row.columnName as string,
+        original: originals.get(row.columnName as string) || (row.columnName as string),
+        type: row.type as string,
+        rowCount: row.rowCount as number,
+        nullCount: row.nullCount as number,
+        distinctCount: row.distinctCount as number,
+        min: row.minValue,
+        max: row.maxValue,
+        mean: row.mean as number | null,
+        topValues: JSON.parse(row.topValues as string),
+        histogram: row.histogram ? JSON.parse(row.histogram as string) : null
+      }));
+    } else {
+      columns = profileTable(table.tableName, table.columnMapping);
+      saveTableProfile(fileId, table.tableName, columns);
+    }
+
+    return { name: table.name, tableName: table.tableName, rowCount: table.rowCount, columns };
+  });
+}
+
+// 데이터셋 프로필 삭제
+export function deleteDatasetProfile(fileId: string): void {
+  const result = db.execute('DELETE FROM column_profiles WHERE fileId = ?', [fileId]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
@@ -0,0 +1,191 @@
+import { ChildProcess, spawn } from 'child_process';
+import fs from 'fs';
+import path from 'path';
+import { DatabaseResult, DatabaseRow } from './database';
+
+// 분석 쿼리(에이전트가 작성한 SQL) 실행 제한
+export interface QueryLimits {
+  // 쿼리 하나의 최대 실행 시간 (넘으면 쿼리를 취소)
+  timeoutMs: number;
+  // 결과 최대 행 수
+  maxRows: number;
+  // 결과 최대 크기 (JSON 기준 바이트)
+  maxResultBytes: number;
+  // 쿼리 실행 프로세스가 쓸 수 있는 메모리 (MB, 넘으면 실행 프로세스를 종료)
+  memoryMb: number;
+}
+
+// 제한에 걸린 이유 (오류 메시지 선택용)
+export type QueryLimitReason = 'timeout' | 'rows' | 'bytes' | 'memory';
+
+// 실행 프로세스 스크립트 (빌드하지 않고 실행하는 CommonJS 모듈, standalone 빌드에는 next.config의 outputFileTracingIncludes로 포함)
+const WORKER_PATH = path.join(process.cwd(), 'src', 'lib', 'sandbox', 'query-worker.js');
+
+// 실행 프로세스 응답
+interface SandboxResponse {
+  id: number;
+  rows?: DatabaseRow[];
+  error?: string;
+  limit?: QueryLimitReason;
+}
+
+// 실행 프로세스 메모리 사용량을 확인하는 간격
+const MEMORY_CHECK_INTERVAL_MS = 200;
+// 시간 초과 후 실행 프로세스를 종료하기 전에 기다리는 시간
+const KILL_GRACE_MS = 1000;
+
+interface PendingQuery {
+  id: number;
+  resolve: (result: DatabaseResult) => void;
+}
+
+function readPositiveNumber(name: string, defaultValue: number): number {
+  const raw = process.env[name];
+  if (!raw) return defaultValue;
+  const value = Number(raw);
+  if (Number.isFinite(value) && value > 0) return value;
+  console.warn(`[QUERY] 잘못된 ${name} 값(${raw}), 기본값 ${defaultValue}을 사용합니다.`);
+  return defaultValue;
+}
+
+// 환경변수로 설정한 분석 쿼리 제한
+export function getQueryLimits(): QueryLimits {
+  return {
+    timeoutMs: readPositiveNumber('QUERY_TIMEOUT_MS', 30000),
+    maxRows: Math.floor(readPositiveNumber('QUERY_MAX_ROWS', 10000)),
+    maxResultBytes: Math.floor(readPositiveNumber('QUERY_MAX_RESULT_MB', 16) * 1024 * 1024),
+    memoryMb: Math.floor(readPositiveNumber('QUERY_MEMORY_MB', 512))
+  };
+}
+
+// 에이전트가 다른 쿼리를 시도할 수 있도록 어떤 제한에 걸렸는지와 대처 방법을 알려줌
+export function describeLimit(reason: QueryLimitReason, limits: QueryLimits): string {
+  switch (reason) {
+    case 'timeout':
+      return `쿼리 실행 시간이 ${limits.timeoutMs / 1000}초를 넘어 쿼리를 취소했습니다. 조인 조건이나 WHERE 조건을 추가하거나, 먼저 집계해 처리할 행 수를 줄인 쿼리로 다시 시도하세요.`;
+    case 'rows':
+      return `쿼리 결과가 ${limits.maxRows}행을 넘어 중단했습니다. GROUP BY로 집계하거나 LIMIT을 줄여 다시 시도하세요.`;
+    case 'bytes':
+      return `쿼리 결과가 ${Math.round(limits.maxResultBytes / 1024 / 1024)}MB를 넘어 중단했습니다. 필요한 컬럼만 선택하거나 LIMIT을 줄여 다시 시도하세요.`;
+    case 'memory':
+      return `쿼리가 사용할 수 있는 메모리(${limits.memoryMb}MB)를 넘어 중단했습니다. 정렬·DISTINCT·조인 대상 행을 줄인 쿼리로 다시 시도하세요.`;
+  }
+}
+
+let sandbox: ChildProcess | null = null;
+let current: PendingQuery | null = null;
+let nextId = 1;
+// 실행 프로세스는 쿼리를 하나씩 처리하므로 실행 시간은 앞선 쿼리가 끝난 뒤부터 잼
+let queue: Promise<unknown> = Promise.resolve();
+
+function startSandbox(limits: QueryLimits): ChildProcess {
+  const config = {
+    dbPath: path.join(process.cwd(), 'data', 'database.db'),
+    cacheKb: Math.floor(limits.memoryMb * 1024 / 4),
+    maxRows: limits.maxRows,
+    maxResultBytes: limits.maxResultBytes
+  };
+  const child = spawn(
+    process.execPath,
+    [`--max-old-space-size=${limits.memoryMb}`, WORKER_PATH, JSON.stringify(config)],
+    { cwd: process.cwd(), stdio: ['ignore', 'inherit', 'inherit', 'ipc'], serialization: 'advanced' }
+  );
+
+  child.on('message', (message: SandboxResponse) => {
+    if (!current || current.id !== message.id) return;
+    const { resolve } = current;
+    current = null;
+    if (message.limit) {
+      resolve({ success: false, error: describeLimit(message.limit, limits) });
+    } else if (message.error) {
+      resolve({ success: false, error: message.error });
+    } else {
+      resolve({ success: true, data: message.rows, rowCount: message.rows!.length });
+    }
+  });
+
+  // 실행 중에 프로세스가 끝남 (JS 힙 한도를 넘으면 V8이 abort)
+  child.on('exit', (code, signal) => {
+    if (sandbox === child) sandbox = null;
+    if (current && !child.killed) {
+      console.warn(`[QUERY] 쿼리 실행 프로세스 비정상 종료 (code ${code}, signal ${signal})`);
+      const { resolve } = current;
+      current = null;
+      resolve({
+        success: false,
+        error: signal === 'SIGABRT' || code === 134
+          ? describeLimit('memory', limits)
+          : `쿼리 실행 프로세스가 비정상 종료되었습니다 (code ${code}).`
+      });
+    }
+  });
+  child.on('error', error => {
+    console.error('[QUERY] 쿼리 실행 프로세스 오류:', error);
+    if (sandbox === child) sandbox = null;
+    if (current) {
+      const { resolve } = current;
+      current = null;
+      resolve({ success: false, error: `쿼리 실행 프로세스를 시작하지 못했습니다: ${error.message}` });
+    }
+  });
+  return child;
+}
+
+// 실행 프로세스의 상주 메모리 (better-sqlite3는 SQLite 메모리 통계를 끄고 빌드되어 heap limit을 쓸 수 없으므로 OS에서 읽음)
+// /proc가 없는 환경에서는 null (JS 힙 한도만 적용)
+function readProcessMemory(pid: number): number | null {
+  try {
+    const match = fs.readFileSync(`/proc/${pid}/status`, 'utf8').match(/^VmRSS:\s+(\d+)\s+kB/m);
+    return match ? Number(match[1]) * 1024 : null;
+  } catch {
+    return null;
+  }
+}
+
+function execute(sql: string, params: unknown[], rowLimit?: number): Promise<DatabaseResult> {
+  const limits = getQueryLimits();
+  if (!sandbox) {
+    sandbox = startSandbox(limits);
+  }
+  const child = sandbox;
+  const id = nextId++;
+
+  return new Promise<DatabaseResult>(resolve => {
+    // 실행 프로세스는 행을 읽을 때마다 실행 시간을 확인해 스스로 취소하지만, 행을 내보내기 전의 정렬/집계는 중간에 멈출 수 없음
+    // (better-sqlite3에는 sqlite3_interrupt/progress handler가 없음) → 프로세스를 종료하고 다음 쿼리에서 새로 띄움
+    // 실행 프로세스가 먼저 시간 초과를 알릴 수 있도록 조금 늦게 종료
+    const abort = (reason: QueryLimitReason) => {
+      if (current?.id !== id) return;
+      current = null;
+      clearTimeout(timer);
+      clearInterval(monitor);
+      console.warn(`[QUERY] 제한(${reason}) 초과로 쿼리 실행 프로세스 종료`);
+      child.kill('SIGKILL');
+      if (sandbox === child) sandbox = null;
+      resolve({ success: false, error: describeLimit(reason, limits) });
+    };
+    const timer = setTimeout(() => abort('timeout'), limits.timeoutMs + KILL_GRACE_MS);
+    const monitor = setInterval(() => {
+      const memory = child.pid ? readProcessMemory(child.pid) : null;
+      if (memory !== null && memory > limits.memoryMb * 1024 * 1024) abort('memory');
+    }, MEMORY_CHECK_INTERVAL_MS);
+
+    current = {
+      id,
+      resolve: result => {
+        clearTimeout(timer);
+        clearInterval(monitor);
+        resolve(result);
+      }
+    };
+    child.send({ id, sql, params, timeoutMs: limits.timeoutMs, rowLimit });
+  });
+}
+
+// 분석 쿼리를 별도 프로세스의 읽기 전용 연결에서 실행 (시간/결과 크기/메모리 제한)
+// 제한에 걸리면 실패 결과와 함께 다른 쿼리를 시도하는 방법을 알려줌 (rowLimit: 이 행 수까지만 읽고 중단)
+export function runSandboxedQuery(sql: string, params: unknown[] = [], rowLimit?: number): Promise<DatabaseResult> {
+  const run = queue.then(() => execute(sql, params, rowLimit));
+  queue = run.catch(() => undefined);
+  return run;
+}
@@ -1,10 +1,15 @@
-import { ChatGoogleGenerativeAI } from '@langchain/google-genai';
 import { createReactAgent } from '@langchain/langgraph/prebuilt';
 import { BaseCallbackHandler } from '@langchain/core/callbacks/base';
 import { db } from './database';
+import { listIndexes } from './indexes';
+import { AnalyticsBackend, getAnalyticsStore } from './analytics-store';
+import { getDatasetProfile } from './profiling';
 import { getRecentChatHistory, formatHistoryAsContext } from './chat-history';
 import { ReActStateManager } from './react-state';
 import { allReActTools } from './react-tools';
+import { getAnalysisScope, getScopeTables } from './workspaces';
+import { createChatModel } from './llm-providers';
+import { ColumnProfile, TableProfile } from '@/types';
 
 
 // LLM 호출 추적을 위한 콜백 핸들러
@@ -17,87 +22,153 @@ class ApiCallTracker extends BaseCallbackHandler {
   }
 }
 
-// 환경변수에서 모델명 가져오기
-const getGeminiModel = () => {
-  const modelName = process.env.GEMINI_MODEL;
-  if (!modelName) {
-    throw new Error('GEMINI_MODEL 환경변수가 설정되지 않았습니다.');
+// 프롬프트용 값 표기 (긴 텍스트는 잘라서 표시)
+const formatProfileValue = (value: unknown): string => {
+  if (value === null || value === undefined) return 'NULL';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : String(Number(value.toFixed(4)));
+  const text = String(value);
+  return text.length > 30 ? `${text.slice(0, 30)}…` : text;
+};
+
+// 컬럼 프로필을 한 줄 요약으로 포맷팅
+const formatColumnProfile = (profile: ColumnProfile): string => {
+  const parts = [
+    `결측 ${profile.nullCount}`,
+    `고유 ${profile.distinctCount}`
+  ];
+  if (profile.min !== null && profile.type !== 'TEXT') {
+    parts.push(`범위 ${formatProfileValue(profile.min)}~${formatProfileValue(profile.max)}`);
+  }
+  if (profile.mean !== null) {
+    parts.push(`평균 ${formatProfileValue(profile.mean)}`);
+  }
+  if (profile.topValues.length > 0 && profile.distinctCount < profile.rowCount) {
+    parts.push(`상위값 ${profile.topValues.map(top => `${formatProfileValue(top.value)}(${top.count})`).join(', ')}`);
+  }
+  if (profile.histogram) {
+    parts.push(`분포(범위 ${profile.histogram.length}등분) [${profile.histogram.map(bin => bin.count).join(', ')}]`);
   }
-  return modelName;
+  return `  - ${profile.column} (${profile.type}): ${parts.join(', ')}`;
 };
 
-// ReAct 에이전트 생성 (대폭 간소화)
+// 분석 저장소별 SQL 방언 안내 (execute_sql 쿼리가 실행되는 엔진 기준)
+const SQL_DIALECT_GUIDES: Record<AnalyticsBackend, string> = {
+  sqlite: `## SQLite 전용 문법 필수
+**통계 함수**: STDDEV(표본)/STDDEV_POP, VARIANCE(표본)/VAR_POP, MEDIAN, PERCENTILE_CONT(x, 0.9)/PERCENTILE_DISC(x, 0.9) (비율은 0~1), MODE, CORR(y, x), COVAR_SAMP(y, x)/COVAR_POP 바로 사용 가능 (직접 SQRT(AVG(x*x) - ...)로 계산하지 말 것)
+**정규식**: 컬럼 REGEXP '패턴' (JavaScript 정규식, 일치하면 1)
+**CTE/윈도 함수**: WITH ... SELECT, ROW_NUMBER/RANK/LAG/LEAD, 누적 SUM(...) OVER (PARTITION BY ... ORDER BY ...) 사용 가능 (통계 함수도 OVER와 함께 사용 가능)
+**허용**: COUNT, SUM, AVG, MIN, MAX, SUBSTR, LENGTH, CASE WHEN, || 연결, SQRT/LN/POWER 등 수학 함수
+**저장 형식**: DATE는 'YYYY-MM-DD'(시간 포함 시 'YYYY-MM-DD HH:MM:SS') 문자열, BOOLEAN은 1/0, 퍼센트 값은 비율(12.5% → 0.125), 통화·천 단위 구분자는 제거된 숫자
+**인덱스**: 데이터 구조의 [인덱스] 컬럼으로 WHERE 필터·GROUP BY를 하면 큰 데이터도 빠르게 조회됨 (컬럼에 함수를 씌우면 인덱스를 쓰지 못함)
+**중첩 데이터**: JSON/Parquet의 중첩 필드는 '상위_하위' 형태 컬럼으로 펼쳐지거나, 값이 {…} 또는 […]인 JSON 텍스트 컬럼으로 저장됨 → json_extract(컬럼, '$.키'), json_array_length(컬럼)로 조회`,
+  duckdb: `## DuckDB 문법 사용
+**컬럼명**: 항상 큰따옴표로 감싸기 ("At", "Year" 등 예약어와 겹치는 이름이 많음)
+**통계 함수**: MEDIAN, QUANTILE_CONT(x, 0.9), STDDEV_SAMP, VAR_SAMP, CORR, REGR_SLOPE 등 바로 사용 가능
+**윈도 함수**: ROW_NUMBER, RANK, LAG, LEAD, 누적 SUM(...) OVER (PARTITION BY ... ORDER BY ...), QUALIFY로 윈도 결과 필터
+**날짜**: DATE 컬럼은 DATE 타입(시간이 포함된 데이터는 TIMESTAMP) → date_trunc('month', 컬럼), strftime(컬럼, '%Y-%m'), datediff('day', 시작, 끝), 컬럼 - INTERVAL 7 DAY (julianday는 없음)
+**저장 형식**: BOOLEAN은 true/false, 정수끼리 나누어도 / 는 소수 결과(정수 몫은 //), 퍼센트 값은 비율(12.5% → 0.125), 통화·천 단위 구분자는 제거된 숫자
+**중첩 데이터**: JSON/Parquet의 중첩 필드는 '상위_하위' 형태 컬럼으로 펼쳐지거나, 값이 {…} 또는 […]인 JSON 텍스트 컬럼으로 저장됨 → json_extract_string(컬럼, '$.키'), json_array_length(컬럼)로 조회`
+};
+
+const formatTableProfile = (table: TableProfile): string =>
+  `- "${table.tableName}" (${table.rowCount}행)\n${table.columns.map(formatColumnProfile).join('\n')}`;
+
+// ReAct 에이전트 생성 (대폭 간소화, fileId가 워크스페이스 ID면 속한 데이터셋 전체가 분석 대상)
 export async function createEnhancedDataAnalysisAgent(fileId: string, _fileName: string) {
   try {
-    const modelName = getGeminiModel();
-    
-    // ChatGoogleGenerativeAI 초기화 (API 호출 추적 콜백 포함)
-    const model = new ChatGoogleGenerativeAI({
-      model: modelName,
-      apiKey: process.env.GEMINI_API_KEY,
+    // 설정된 제공자의 채팅 모델 초기화 (API 호출 추적 콜백 포함)
+    const model = await createChatModel({
       temperature: 0.1, // ReAct 논문: 일관성 있는 추론을 위해 낮은 temperature
       maxRetries: 1,
-      callbacks: [new ApiCallTracker()]
+      callbacks: [new ApiCallTracker()],
+      variables: { fileId }
     });
 
-    // 파일 메타데이터 조회 (컬럼 매핑 정보 포함)
-    const metadataResult = db.selectOne(
-      'SELECT columnMapping, columns FROM files WHERE id = ?',
-      [fileId]
-    );
-    
-    if (!metadataResult.success || !metadataResult.data?.[0]) {
+    // 분석 대상 테이블 조회 (워크스페이스면 속한 모든 데이터셋의 시트, 컬럼 매핑 정보 포함)
+    const scope = getAnalysisScope(fileId);
+
+    if (!scope) {
       throw new Error('파일을 찾을 수 없습니다');
     }
-    
-    const fileMetadata = metadataResult.data[0] as {
-      columnMapping: string;
-      columns: string;
-    };
-
-    // 컬럼 매핑 정보 파싱
-    const columnMapping = JSON.parse(fileMetadata.columnMapping || '{}');
-
-    // 컬럼 매핑 정보를 문자열로 포맷팅
-    const columnMappingInfo = Object.entries(columnMapping)
-      .map(([original, normalized]) => `- "${original}" → ${normalized}`)
+    const tables = getScopeTables(scope);
+    // 쿼리를 실행할 분석 저장소 (SQL 방언과 인덱스 안내가 달라짐)
+    const { backend } = await getAnalyticsStore();
+    const isWorkspace = scope.kind === 'workspace';
+    const datasetNames = new Map(scope.datasets.flatMap(dataset =>
+      dataset.tables.map(table => [table.tableName, dataset.name] as const)
+    ));
+
+    // 컬럼 매핑 정보를 문자열로 포맷팅 (시트가 여러 개면 시트별로 구분)
+    const columnMappingInfo = tables
+      .map(table => {
+        const mappingLines = Object.entries(table.columnMapping)
+          .map(([original, normalized]) => `- "${original}" → ${normalized}`)
+          .join('\n');
+        return tables.length > 1 ? `[${table.tableName}]\n${mappingLines}` : mappingLines;
+      })
       .join('\n');
 
     // 히스토리 컨텍스트 조회
-    const chatHistory = await getRecentChatHistory(fileId);
+    const chatHistory = await getRecentChatHistory(fileId, scope.kind);
     const historyContext = formatHistoryAsContext(chatHistory);
 
-    // 비용 절약: 스키마와 샘플 데이터 미리 조회
-    const tableName = `data_${fileId}`;
+    // 비용 절약: 스키마와 컬럼 프로필 미리 조회
     let schemaInfo = '';
-    let sampleDataInfo = '';
+    let profileInfo = '';
     
     try {
-      // 테이블 스키마 조회
-      const schemaResult = db.select(`PRAGMA table_info("${tableName}")`);
-      if (schemaResult.success && schemaResult.data) {
+      // 테이블 스키마 조회 (모든 시트, SQLite 저장소면 걸려 있는 인덱스 포함)
+      const indexes = backend === 'sqlite'
+        ? scope.datasets.flatMap(dataset => listIndexes(dataset.fileId, dataset.tables))
+        : [];
+      const schemaLines = tables.map(table => {
+        const schemaResult = db.select(`PRAGMA table_info("${table.tableName}")`);
+        if (!schemaResult.success || !schemaResult.data) return '';
         // eslint-disable-next-line @typescript-eslint/no-explicit-any
         const schema = schemaResult.data.map((col: any) => 
           `${col.name} (${col.type}${col.notnull ? ', NOT NULL' : ''})`
         ).join(', ');
-        schemaInfo = `\n**데이터 구조**: ${schema}`;
+        const tableIndexes = indexes.filter(index => index.tableName === table.tableName);
+        const indexInfo = tableIndexes.length > 0
+          ? ` [인덱스: ${tableIndexes.map(index => `(${index.columns.join(', ')})`).join(', ')}]`
+          : '';
+        const source = isWorkspace ? `데이터셋: ${datasetNames.get(table.tableName)}, 시트: ${table.name}` : `시트: ${table.name}`;
+        return tables.length > 1
+          ? `\n- "${table.tableName}" (${source}, ${table.rowCount}행): ${schema}${indexInfo}`
+          : `${schema}${indexInfo}`;
+      }).filter(Boolean);
+
+      if (schemaLines.length > 0) {
+        schemaInfo = `\n**데이터 구조**: ${schemaLines.join('')}`;
       }
       
-      // 샘플 데이터 조회 (5개 행)
-      const sampleResult = db.select(`SELECT * FROM "${tableName}" LIMIT 5`);
-      if (sampleResult.success && sampleResult.data && sampleResult.data.length > 0) {
-        const sampleCount = sampleResult.data.length;
-        const firstRow = sampleResult.data[0];
-        const samplePreview = Object.keys(firstRow).slice(0, 3).map(key => 
-          `${key}: ${firstRow[key]}`
-        ).join(', ');
-        sampleDataInfo = `\n**샘플 데이터** (${sampleCount}개 행): ${samplePreview}...`;
+      // 컬럼 프로필 (분포 정보를 미리 제공해 탐색용 도구 호출 절약)
+      const profileLines = scope.datasets
+        .flatMap(dataset => getDatasetProfile(dataset.fileId, dataset.tables))
+        .map(formatTableProfile);
+      if (profileLines.length > 0) {
+        profileInfo = `\n**컬럼 프로필**:\n${profileLines.join('\n')}`;
       }
     } catch (error) {
-      console.warn('스키마/샘플 데이터 조회 실패:', error);
+      console.warn('스키마/프로필 조회 실패:', error);
       // 실패해도 에이전트는 정상 작동 (도구로 나중에 조회 가능)
     }
 
+    const tableListInfo = tables.map(table => `"${table.tableName}"`).join(', ');
+    const multiTableGuide = isWorkspace
+      ? `\n- 이 워크스페이스는 ${scope.datasets.length}개 데이터셋(${tables.length}개 테이블)으로 구성됨: 질문에 필요한 테이블을 JOIN 또는 서브쿼리로 함께 사용`
+      : tables.length > 1
+        ? `\n- 이 데이터셋은 ${tables.length}개 시트로 구성됨: 필요하면 여러 테이블을 JOIN 또는 서브쿼리로 함께 사용`
+        : '';
+
+    // 워크스페이스에 지정된 조인 키 (컬럼이 없어진 조인 키는 제외)
+    const relationships = scope.relationships.filter(relationship => relationship.valid);
+    const relationshipInfo = relationships.length > 0
+      ? `\n**조인 키** (테이블을 연결할 때 이 컬럼을 사용):\n${relationships.map(relationship =>
+        `- "${relationship.leftTable}".${relationship.leftColumn} = "${relationship.rightTable}".${relationship.rightColumn}`
+      ).join('\n')}`
+      : '';
+
     // 체계적 사고와 딥 분석을 위한 시스템 프롬프트
     const systemPrompt = `당신은 세계 최고 수준의 데이터 사이언티스트입니다. 체계적 사고와 다층적 분석을 통해 데이터에서 깊은 인사이트를 발굴합니다.
 
@@ -115,7 +186,7 @@ export async function createEnhancedDataAnalysisAgent(fileId: string, _fileName:
 4. **맥락적 해석**: 수치를 넘어선 비즈니스/실무적 의미 도출
 5. **예측적 인사이트**: 현재 데이터에서 미래 트렌드 예측
 
-${historyContext}**분석 데이터: "data_${fileId}"**${schemaInfo}${sampleDataInfo}
+${historyContext}**분석 데이터: ${tableListInfo}**${schemaInfo}${relationshipInfo}${profileInfo}
 
 ## 내부 데이터 매핑 정보 (사용자에게 노출 금지):
 ${columnMappingInfo}
@@ -144,14 +215,12 @@ ${columnMappingInfo}
 - **예측력**: 현재 패턴에서 미래 기회와 리스크 도출
 - **완결성**: 의사결정자가 바로 행동할 수 있는 완전한 분석 제공
 
-## SQLite 전용 문법 필수
-**금지 함수**: STDEV, STDDEV, VAR_POP, VAR_SAMP, MEDIAN, PERCENTILE_CONT 등
-**대체 방법**: 표준편차 → SQRT(AVG(x*x) - AVG(x)*AVG(x)), 중앙값 → ORDER BY + LIMIT
-**허용**: COUNT, SUM, AVG, MIN, MAX, SUBSTR, LENGTH, CASE WHEN, || 연결
+${SQL_DIALECT_GUIDES[backend]}
 
 ## 기술적 제약 (시스템 내부용)
-- 모든 도구 호출시 fileId: "${fileId}" 사용
+- 모든 도구 호출시 fileId: "${fileId}" 사용${multiTableGuide}
 - 첫 ACTION은 반드시 plan_actions로 시작
+- save_derived_dataset은 사용자가 결과를 데이터셋으로 저장해 달라고 요청했거나 제안에 동의한 경우에만 사용 (그 외에는 저장을 제안만)
 - reasoning 파라미터에 명확한 THOUGHT 기록
 - 오류 발생시 상태 추적 및 자동 복구
 
@@ -1,6 +1,11 @@
 import { tool } from '@langchain/core/tools';
 import { z } from 'zod';
-import { db, DatabaseRow } from './database';
+import { DatabaseRow } from './database';
+import { listIndexes, recordQueryPlan } from './indexes';
+import { getAnalyticsStore } from './analytics-store';
+import { createDerivedDataset, getReadableTables, planDerivedDataset } from './derived-datasets';
+import { analyzeSqliteQuery } from './sql-validation';
+import { getAnalysisScope, getScopeTables } from './workspaces';
 import { ReActStateManager } from './react-state';
 import { 
   QueryResult, 
@@ -9,6 +14,7 @@ import {
   ExecuteSqlParams,
   GetTableSchemaParams,
   GetSampleDataParams,
+  SaveDerivedDatasetParams,
   ReflectOnResultsParams,
   SummarizeFindingsParams,
   ProgressData
@@ -175,50 +181,55 @@ export const executeSqlTool = tool(
         ReActStateManager.callReasoningCallback(reasoning);
       }
       
-      // 보안: SELECT 쿼리만 허용
-      const trimmedQuery = query.trim().toLowerCase();
-      if (!trimmedQuery.startsWith('select')) {
-        throw new Error('보안상 SELECT 쿼리만 허용됩니다.');
-      }
+      const store = await getAnalyticsStore();
 
-      // SQLite 비호환 문법 체크 (통계 함수 포함)
-      const sqliteIncompatible = [
-        'top ', 'first ', 'isnull(', 'charindex(', 'patindex(', 
-        'datediff(', 'concat(', 'row_number()', 'over(', 'pivot', 'unpivot',
-        'stdev(', 'stddev(', 'var_pop(', 'var_samp(', 'variance(',
-        'median(', 'percentile_cont(', 'percentile_disc('
-      ];
-      
-      const foundIncompatible = sqliteIncompatible.find(syntax => 
-        trimmedQuery.includes(syntax)
-      );
-      
-      if (foundIncompatible) {
-        throw new Error(`SQLite에서 지원하지 않는 함수입니다: ${foundIncompatible.toUpperCase()}. 기본 집계 함수(COUNT, SUM, AVG, MIN, MAX)나 수식으로 대체해주세요.`);
+      // 분석 대상 테이블 확인 (워크스페이스면 속한 모든 데이터셋의 테이블)
+      const scope = getAnalysisScope(fileId);
+      if (!scope) {
+        throw new Error('파일을 찾을 수 없습니다.');
       }
+      const scopeTables = getScopeTables(scope).map(table => table.tableName);
 
-      // 현재 파일의 테이블명 확인
-      const tableName = `data_${fileId}`;
-      
-      // 쿼리에서 테이블명 검증
-      const queryLower = query.toLowerCase();
-      if (!queryLower.includes(tableName.toLowerCase()) && 
-          !queryLower.includes(`"${tableName}"`.toLowerCase()) &&
-          !queryLower.includes(`'${tableName}'`.toLowerCase())) {
-        throw new Error(`현재 파일의 테이블(${tableName})에만 접근할 수 있습니다.`);
+      // 보안: 저장소의 SQL 파서로 읽기 전용 문장인지와 실제로 읽는 테이블 확인
+      // (CTE, 서브쿼리, 뷰 안에서 읽는 테이블까지 포함, 분석 대상 테이블을 하나 이상 사용하고 그 밖의 테이블은 사용하지 않음)
+      const cleanQuery = query.trim().replace(/;+$/, '');
+      const analysis = await store.analyzeQuery(cleanQuery);
+      if ('error' in analysis) {
+        // 다른 DB 문법을 쓴 것으로 보이면 대체 방법 안내 (거부 여부는 파서 결과로만 판단)
+        const lowerQuery = cleanQuery.toLowerCase();
+        const incompatible = store.unsupportedSyntax.filter(syntax => lowerQuery.includes(syntax));
+        const hint = incompatible.length > 0
+          ? ` ${store.dialectName}에서 지원하지 않는 문법일 수 있습니다: ${incompatible.map(syntax => syntax.replace(/[\s(]+$/, '').toUpperCase()).join(', ')}. ${store.dialectName} 함수나 수식으로 대체해주세요.`
+          : '';
+        throw new Error(`${analysis.error}${hint}`);
+      }
+      // 파생 데이터셋 뷰는 원본 테이블을 읽으므로 뷰가 읽는 테이블까지 허용
+      const readableTables = getReadableTables(scopeTables);
+      const outsideTables = analysis.tables.filter(name => !readableTables.includes(name));
+      if (outsideTables.length > 0 || analysis.tables.length === 0) {
+        throw new Error(`현재 분석 대상의 테이블(${scopeTables.join(', ')})에만 접근할 수 있습니다.`);
       }
 
-      // 쿼리 정제 및 제한
-      const cleanQuery = query.trim().replace(/;+$/, '');
-      const limitedQuery = cleanQuery.toLowerCase().includes('limit') ? cleanQuery : `${cleanQuery} LIMIT 1000`;
-      
-      const dbResult = db.select(limitedQuery);
+      const queriedTables = scope.datasets.flatMap(dataset => dataset.tables
+        .filter(table => analysis.tables.includes(table.tableName))
+        .map(table => ({ fileId: dataset.fileId, tableName: table.tableName })));
+      // 결과는 앞의 1000행까지만 읽음 (쿼리를 감싸지 않으므로 컬럼 이름은 쿼리가 선택한 그대로)
+      const dbResult = await store.query(cleanQuery, queriedTables, 1000);
       if (!dbResult.success) {
         ReActStateManager.incrementErrorCount();
         throw new Error(dbResult.error);
       }
       const result = dbResult.data || [];
 
+      // 인덱스 없이 전체 스캔한 필터/그룹 컬럼 기록 (SQLite 저장소만, 실패해도 쿼리 결과에는 영향 없음)
+      if (store.backend === 'sqlite') {
+        try {
+          scope.datasets.forEach(dataset => recordQueryPlan(dataset.fileId, cleanQuery));
+        } catch (planError) {
+          console.warn('[INDEX] 실행 계획 기록 실패:', planError);
+        }
+      }
+
       // ReAct 패턴: 관찰 기록
       const observation = `쿼리 실행 완료: ${result.length}개 항목 분석`;
       
@@ -251,7 +262,7 @@ export const executeSqlTool = tool(
     description: '현재 파일의 데이터에 대해 SELECT 쿼리를 실행합니다.',
     schema: z.object({
       query: z.string().describe('실행할 SQL SELECT 쿼리'),
-      fileId: z.string().describe('현재 분석 중인 파일의 ID'),
+      fileId: z.string().describe('현재 분석 중인 파일(또는 워크스페이스)의 ID'),
       reasoning: z.string().optional().describe('이 쿼리를 실행하는 이유나 가설')
     })
   }
@@ -269,29 +280,58 @@ export const getTableSchemaTool = tool(
         ReActStateManager.callReasoningCallback(reasoning);
       }
       
-      const tableName = `data_${fileId}`;
-      
-      const schemaResult = db.select(`PRAGMA table_info("${tableName}")`);
-      if (!schemaResult.success) {
-        ReActStateManager.incrementErrorCount();
-        throw new Error(schemaResult.error);
+      const scope = getAnalysisScope(fileId);
+      if (!scope) {
+        throw new Error('파일을 찾을 수 없습니다.');
       }
-      
-      const schema = schemaResult.data || [];
-      const formattedSchema = schema.map((col: DatabaseRow) => ({
-        name: col.name,
-        type: col.type,
-        nullable: !col.notnull,
-        defaultValue: col.dflt_value
-      }));
+      const tables = getScopeTables(scope);
+      
+      // 시트가 여러 개인 경우 모든 시트의 스키마를 함께 반환 (indexes: 컬럼이 포함된 인덱스의 컬럼 구성)
+      // 워크스페이스면 모든 데이터셋의 테이블과 지정된 조인 키를 함께 반환
+      // 컬럼 정보도 분석 저장소의 읽기 전용 연결에서 조회 (저장소 엔진이 보는 타입)
+      const store = await getAnalyticsStore();
+      const indexes = scope.datasets.flatMap(dataset => listIndexes(dataset.fileId, dataset.tables));
+      const formattedSchema: DatabaseRow[] = [];
+      for (const table of tables) {
+        const dataset = scope.datasets.find(dataset => dataset.tables.includes(table))!;
+        const schemaResult = await store.query(
+          `SELECT * FROM pragma_table_info('${table.tableName}')`,
+          [{ fileId: dataset.fileId, tableName: table.tableName }]
+        );
+        if (!schemaResult.success) {
+          ReActStateManager.incrementErrorCount();
+          throw new Error(schemaResult.error);
+        }
+        
+        for (const col of schemaResult.data || []) {
+          formattedSchema.push({
+            table: table.tableName,
+            ...(scope.kind === 'workspace' && { dataset: dataset.name }),
+            sheet: table.name,
+            name: col.name,
+            type: col.type,
+            nullable: !col.notnull,
+            defaultValue: col.dflt_value,
+            indexes: indexes
+              .filter(index => index.tableName === table.tableName && index.columns.includes(col.name as string))
+              .map(index => index.columns.join(', '))
+          });
+        }
+      }
+
+      const relationships = scope.relationships
+        .filter(relationship => relationship.valid)
+        .map(relationship => `"${relationship.leftTable}".${relationship.leftColumn} = "${relationship.rightTable}".${relationship.rightColumn}`);
 
       const observation = `데이터 구조 파악 완료: ${formattedSchema.length}개 필드 식별`;
       console.log(`[OBSERVATION] ${observation}`);
       
       return {
         success: true,
-        data: formattedSchema as unknown as DatabaseRow[],
-        message: `테이블의 스키마 정보를 조회했습니다. 총 ${formattedSchema.length}개의 컬럼이 있습니다.`,
+        data: formattedSchema,
+        message: `${tables.length}개 테이블의 스키마 정보를 조회했습니다. 총 ${formattedSchema.length}개의 컬럼이 있습니다.` +
+          (indexes.length > 0 ? ` 인덱스 ${indexes.length}개: ${indexes.map(index => `"${index.tableName}"(${index.columns.join(', ')})`).join(', ')}` : '') +
+          (relationships.length > 0 ? ` 조인 키: ${relationships.join(', ')}` : ''),
         reasoning: reasoning,
         observation: observation
       };
@@ -310,9 +350,9 @@ export const getTableSchemaTool = tool(
   },
   {
     name: 'get_table_schema',
-    description: '현재 파일의 테이블 스키마를 조회하여 데이터 구조를 파악합니다.',
+    description: '현재 파일의 테이블 스키마를 조회하여 데이터 구조를 파악합니다. Excel 파일은 모든 시트의 테이블이, 워크스페이스는 모든 데이터셋의 테이블과 조인 키가 함께 조회됩니다.',
     schema: z.object({
-      fileId: z.string().describe('현재 분석 중인 파일의 ID'),
+      fileId: z.string().describe('현재 분석 중인 파일(또는 워크스페이스)의 ID'),
       reasoning: z.string().optional().describe('스키마를 조회하는 이유')
     })
   }
@@ -320,7 +360,7 @@ export const getTableSchemaTool = tool(
 
 // 데이터 샘플 조회 도구 (ReAct 패턴 강화)
 export const getSampleDataTool = tool(
-  async ({ fileId, limit = 10, reasoning }: GetSampleDataParams): Promise<QueryResult> => {
+  async ({ fileId, tableName: requestedTable, limit = 10, reasoning }: GetSampleDataParams): Promise<QueryResult> => {
     try {
       const thoughtMessage = `[THOUGHT] ${reasoning || '데이터 샘플 확인 필요'}`;
       console.log(thoughtMessage);
@@ -330,10 +370,22 @@ export const getSampleDataTool = tool(
         ReActStateManager.callReasoningCallback(reasoning);
       }
       
-      const tableName = `data_${fileId}`;
-      const safeLimit = Math.min(limit, 50);
+      // 요청한 테이블이 분석 대상에 속하는지 확인 (기본값: 첫 번째 테이블)
+      const scope = getAnalysisScope(fileId);
+      const tables = scope ? getScopeTables(scope) : [];
+      const tableName = requestedTable || tables[0]?.tableName;
+      const dataset = scope?.datasets.find(dataset => dataset.tables.some(table => table.tableName === tableName));
+      if (!dataset) {
+        throw new Error(`현재 분석 대상의 테이블(${tables.map(table => table.tableName).join(', ')})에만 접근할 수 있습니다.`);
+      }
+      const safeLimit = Math.max(1, Math.min(Math.floor(limit) || 10, 50));
       
-      const sampleResult = db.select(`SELECT * FROM "${tableName}" LIMIT ?`, [safeLimit]);
+      // 다른 분석 쿼리와 같이 분석 저장소의 읽기 전용 연결에서 실행
+      const store = await getAnalyticsStore();
+      const sampleResult = await store.query(
+        `SELECT * FROM "${tableName}" LIMIT ${safeLimit}`,
+        [{ fileId: dataset.fileId, tableName: tableName! }]
+      );
       if (!sampleResult.success) {
         ReActStateManager.incrementErrorCount();
         throw new Error(sampleResult.error);
@@ -368,13 +420,94 @@ export const getSampleDataTool = tool(
     name: 'get_sample_data',
     description: '현재 파일의 테이블에서 샘플 데이터를 조회하여 실제 데이터 형태를 파악합니다.',
     schema: z.object({
-      fileId: z.string().describe('현재 분석 중인 파일의 ID'),
+      fileId: z.string().describe('현재 분석 중인 파일(또는 워크스페이스)의 ID'),
+      tableName: z.string().optional().describe('조회할 테이블명 (여러 시트가 있는 경우, 기본값: 첫 번째 시트)'),
       limit: z.number().optional().describe('조회할 샘플 데이터 개수 (기본값: 10)'),
       reasoning: z.string().optional().describe('샘플 데이터를 조회하는 이유')
     })
   }
 );
 
+// 파생 데이터셋 저장 도구 (사용자가 요청하거나 동의한 경우에만 쿼리를 새 데이터셋으로 저장)
+export const saveDerivedDatasetTool = tool(
+  async ({ fileId, name, query, kind = 'view', userConfirmed, reasoning }: SaveDerivedDatasetParams): Promise<QueryResult> => {
+    try {
+      console.log(`[THOUGHT] ${reasoning || '쿼리 결과를 데이터셋으로 저장'}`);
+      console.log(`[ACTION] Saving derived dataset for ${fileId}: ${name} (${kind})`);
+
+      if (reasoning) {
+        ReActStateManager.callReasoningCallback(reasoning, '분석 결과를 새 데이터셋으로 저장하고 있습니다.');
+      }
+
+      if (!userConfirmed) {
+        return {
+          success: false,
+          message: '사용자가 동의하지 않아 저장하지 않았습니다. 저장할지 먼저 물어보세요.',
+          reasoning: reasoning,
+          observation: '파생 데이터셋 저장 보류 - 사용자 동의 필요'
+        };
+      }
+
+      const plan = planDerivedDataset({ name, query, kind });
+      if ('error' in plan) {
+        throw new Error(plan.error);
+      }
+
+      // 쿼리가 읽는 테이블이 속한 데이터셋이 원본 (워크스페이스에서도 한 데이터셋만 사용 가능)
+      const scope = getAnalysisScope(fileId);
+      if (!scope) {
+        throw new Error('파일을 찾을 수 없습니다.');
+      }
+      const analysis = analyzeSqliteQuery(plan.query);
+      if ('error' in analysis) {
+        throw new Error(analysis.error);
+      }
+      const sources = scope.datasets.filter(dataset =>
+        getReadableTables(dataset.tables.map(table => table.tableName)).some(table => analysis.tables.includes(table))
+      );
+      if (sources.length !== 1) {
+        throw new Error('파생 데이터셋은 분석 대상 중 한 데이터셋의 테이블만 사용해 만들 수 있습니다.');
+      }
+
+      const created = createDerivedDataset(sources[0].fileId, plan);
+      const observation = `파생 데이터셋 저장 완료: ${plan.name} (${created.table.rowCount}행)`;
+      console.log(`[OBSERVATION] ${observation}`);
+
+      return {
+        success: true,
+        data: [{ fileId: created.fileId, name: plan.name, kind: plan.kind, rowCount: created.table.rowCount }],
+        rowCount: created.table.rowCount,
+        message: `'${plan.name}' 데이터셋을 저장했습니다. 파일 목록에서 일반 데이터셋처럼 분석할 수 있습니다.`,
+        reasoning: reasoning,
+        observation: observation
+      };
+    } catch (error) {
+      ReActStateManager.incrementErrorCount();
+      console.error('[ERROR] 파생 데이터셋 저장 오류:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error',
+        message: '파생 데이터셋 저장 중 오류가 발생했습니다.',
+        reasoning: reasoning,
+        observation: '파생 데이터셋 저장 실패 - 쿼리 확인 필요',
+        shouldReplan: ReActStateManager.shouldReplan()
+      };
+    }
+  },
+  {
+    name: 'save_derived_dataset',
+    description: 'SELECT 쿼리를 원본 데이터셋에 연결된 새 데이터셋(뷰 또는 결과 테이블)으로 저장합니다. 사용자가 저장을 요청했거나 동의한 경우에만 사용합니다.',
+    schema: z.object({
+      fileId: z.string().describe('현재 분석 중인 파일(또는 워크스페이스)의 ID'),
+      name: z.string().describe('저장할 데이터셋 이름 (예: "마진 컬럼을 추가한 주문", "2024년 데이터")'),
+      query: z.string().describe('저장할 SQL SELECT 쿼리 (LIMIT 없이 전체 결과)'),
+      kind: z.enum(['view', 'table']).optional().describe('view: 원본을 읽는 뷰(기본값), table: 결과를 저장한 테이블'),
+      userConfirmed: z.boolean().describe('사용자가 저장을 요청했거나 동의했는지'),
+      reasoning: z.string().optional().describe('저장하는 이유')
+    })
+  }
+);
+
 // 결과 검증 및 반성 도구 (ReAct 패턴 핵심)
 export const reflectOnResultsTool = tool(
   async ({ results, question, reasoning }: ReflectOnResultsParams): Promise<QueryResult> => {
@@ -521,6 +654,7 @@ export const allReActTools = [
   executeSqlTool,
   getTableSchemaTool,
   getSampleDataTool,
+  saveDerivedDatasetTool,
   reflectOnResultsTool,
   summarizeFindingsTool
 ]; 
\ No newline at end of file
@@ -0,0 +1,145 @@
+import { Readable } from 'stream';
+import { createInterface } from 'readline';
+import { parquetMetadata, parquetReadObjects } from 'hyparquet';
+import { compressors } from 'hyparquet-compressors';
+import { formatDate } from './type-inference';
+import type { DataRow } from './ingestion';
+import { NestedMode } from '@/types';
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+    && !(value instanceof Date) && !(value instanceof Uint8Array);
+}
+
+// JSON 텍스트로 직렬화 (BigInt/날짜도 표현 가능한 값으로)
+function toJsonText(value: unknown): string {
+  return JSON.stringify(value, (_key, item) => {
+    if (typeof item === 'bigint') return Number.isSafeInteger(Number(item)) ? Number(item) : item.toString();
+    return item;
+  });
+}
+
+// 스칼라 값을 저장 가능한 형태로 (Parquet의 BigInt/Date/바이너리 포함)
+function toScalar(value: unknown): unknown {
+  if (typeof value === 'bigint') {
+    return Number.isSafeInteger(Number(value)) ? Number(value) : value.toString();
+  }
+  if (value instanceof Date) {
+    if (isNaN(value.getTime())) return null;
+    const hasTime = value.getUTCHours() !== 0 || value.getUTCMinutes() !== 0 || value.getUTCSeconds() !== 0;
+    return formatDate(
+      value.getUTCFullYear(),
+      value.getUTCMonth() + 1,
+      value.getUTCDate(),
+      hasTime ? { h: value.getUTCHours(), m: value.getUTCMinutes(), s: value.getUTCSeconds() } : undefined
+    );
+  }
+  if (value instanceof Uint8Array) return Buffer.from(value).toString('base64');
+  return value;
+}
+
+// 레코드 하나를 컬럼 → 값 행으로 변환 (배열은 두 방식 모두 JSON 텍스트로 저장)
+export function flattenRecord(record: unknown, mode: NestedMode = 'flatten'): DataRow {
+  // 객체가 아닌 배열 원소는 value 컬럼 하나로
+  if (!isPlainObject(record)) {
+    return { value: Array.isArray(record) ? toJsonText(record) : toScalar(record) };
+  }
+
+  const row: DataRow = {};
+  const visit = (object: Record<string, unknown>, prefix: string) => {
+    Object.entries(object).forEach(([key, value]) => {
+      const column = prefix ? `${prefix}.${key}` : key;
+      if (isPlainObject(value)) {
+        if (mode === 'flatten' && Object.keys(value).length > 0) {
+          visit(value, column);
+        } else {
+          row[column] = toJsonText(value);
+        }
+      } else if (Array.isArray(value)) {
+        row[column] = toJsonText(value);
+      } else {
+        row[column] = toScalar(value);
+      }
+    });
+  };
+  visit(record, '');
+  return row;
+}
+
+// JSON 문서에서 레코드 배열 찾기 (최상위 배열, 또는 { "data": [...] } 처럼 감싼 첫 번째 배열)
+function findRecords(document: unknown): unknown[] {
+  if (Array.isArray(document)) return document;
+  if (isPlainObject(document)) {
+    const wrapped = Object.values(document).find(Array.isArray);
+    return wrapped || [document];
+  }
+  throw new Error('JSON 파일에서 레코드 배열을 찾을 수 없습니다.');
+}
+
+// JSON 배열 파일 파싱 (문서 전체가 있어야 해석 가능)
+export function* parseJsonRecords(buffer: Buffer, mode: NestedMode): Generator<DataRow> {
+  let document: unknown;
+  try {
+    document = JSON.parse(buffer.toString('utf-8').replace(/^\uFEFF/, ''));
+  } catch (error) {
+    throw new Error(`JSON 형식이 올바르지 않습니다: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  for (const record of findRecords(document)) {
+    yield flattenRecord(record, mode);
+  }
+}
+
+// 줄 단위 JSON(NDJSON/JSON Lines) 스트림 파싱 (빈 줄은 건너뜀)
+// allowPartialLastLine: 파일 앞부분만 받은 미리보기에서 잘린 마지막 줄은 무시
+export async function* parseNdjsonRecords(
+  source: Readable,
+  mode: NestedMode,
+  allowPartialLastLine = false
+): AsyncGenerator<DataRow> {
+  const lines = createInterface({ input: source, crlfDelay: Infinity });
+  let lineNumber = 0;
+  let pendingError: Error | null = null;
+
+  for await (const rawLine of lines) {
+    lineNumber++;
+    if (pendingError) throw pendingError;
+
+    const line = (lineNumber === 1 ? rawLine.replace(/^\uFEFF/, '') : rawLine).trim();
+    if (!line) continue;
+
+    let record: unknown;
+    try {
+      record = JSON.parse(line);
+    } catch (error) {
+      pendingError = new Error(
+        `${lineNumber}번째 줄의 JSON 형식이 올바르지 않습니다: ${error instanceof Error ? error.message : String(error)}`
+      );
+      continue;
+    }
+    yield flattenRecord(record, mode);
+  }
+
+  if (pendingError && !allowPartialLastLine) throw pendingError;
+}
+
+// Parquet 파일을 row group 단위로 읽어 행 반환 (파일 끝의 메타데이터가 필요해 전체를 받은 뒤 파싱)
+export async function* parseParquetRecords(buffer: Buffer, mode: NestedMode): AsyncGenerator<DataRow> {
+  const file = buffer.buffer.slice(buffer.byteOffset, buffer.byteOffset + buffer.byteLength) as ArrayBuffer;
+  let metadata;
+  try {
+    metadata = parquetMetadata(file);
+  } catch (error) {
+    throw new Error(`Parquet 형식이 올바르지 않습니다: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  let rowStart = 0;
+  for (const rowGroup of metadata.row_groups) {
+    const rowEnd = rowStart + Number(rowGroup.num_rows);
+    const records = await parquetReadObjects({ file, metadata, compressors, rowStart, rowEnd });
+    for (const record of records) {
+      yield flattenRecord(record, mode);
+    }
+    rowStart = rowEnd;
+  }
+}
@@ -0,0 +1,159 @@
+import { db, DatabaseRow } from './database';
+import { describeConversionFailure } from './type-inference';
+import { IngestRejection, RejectionSummary } from '@/types';
+
+// 변환 실패를 기록할 위치 (데이터셋, 이 업로드로 만들어질 버전, 시트)
+export interface RejectionTarget {
+  fileId: string;
+  version: number;
+  sheet: string;
+}
+
+// 검사할 컬럼 (original: 원본 컬럼명, name: 스테이징 테이블 컬럼명)
+export interface RejectionColumn {
+  original: string;
+  name: string;
+  type: string;
+}
+
+const EMPTY_SUMMARY: RejectionSummary = { count: 0, rows: 0 };
+
+// 스테이징 테이블의 원본 값을 검사하는 SQL 함수 등록
+let checkerRegistered = false;
+function ensureChecker(): void {
+  if (checkerRegistered) return;
+  db.defineFunction('conversion_failure', { deterministic: true }, (value, columnType) =>
+    describeConversionFailure(value, String(columnType))
+  );
+  checkerRegistered = true;
+}
+
+// 스테이징 테이블에서 확정된 타입으로 변환되지 않는 값을 찾아 기록하고 건수 반환
+// (스테이징 테이블은 원본 순서대로 채워지므로 rowid가 곧 데이터 행 번호)
+export function recordRejections(
+  target: RejectionTarget,
+  stagingTableName: string,
+  columns: RejectionColumn[]
+): RejectionSummary {
+  ensureChecker();
+
+  let count = 0;
+  for (const column of columns) {
+    if (column.type === 'TEXT') continue;
+    const result = db.execute(
+      `INSERT INTO ingest_rejections (fileId, version, sheet, rowNumber, columnName, columnType, value, reason)
+       SELECT ?, ?, ?, rowNumber, ?, ?, value, reason
+       FROM (
+         SELECT rowid AS rowNumber, "${column.name}" AS value, conversion_failure("${column.name}", ?) AS reason
+         FROM "${stagingTableName}"
+       )
+       WHERE reason IS NOT NULL
+       ORDER BY rowNumber`,
+      [target.fileId, target.version, target.sheet, column.original, column.type, column.type]
+    );
+    if (!result.success) {
+      throw new Error(result.error);
+    }
+    count += result.changes || 0;
+  }
+
+  if (count === 0) return EMPTY_SUMMARY;
+  const rowsResult = db.selectOne(
+    'SELECT COUNT(DISTINCT rowNumber) AS rowCount FROM ingest_rejections WHERE fileId = ? AND version = ? AND sheet = ?',
+    [target.fileId, target.version, target.sheet]
+  );
+  if (!rowsResult.success) {
+    throw new Error(rowsResult.error);
+  }
+  return { count, rows: rowsResult.data![0].rowCount as number };
+}
+
+// 실패한 행 비율이 허용치를 넘으면 가져오기 중단 (maxErrorRate: 0~1, null이면 제한 없음)
+export function checkErrorRate(summary: RejectionSummary, rowCount: number, maxErrorRate: number | null | undefined): void {
+  if (maxErrorRate === null || maxErrorRate === undefined || rowCount === 0) return;
+  const errorRate = summary.rows / rowCount;
+  if (errorRate > maxErrorRate) {
+    throw new Error(
+      `변환에 실패한 행이 ${summary.rows.toLocaleString()}개(${(errorRate * 100).toFixed(1)}%)로 ` +
+      `허용 비율 ${(maxErrorRate * 100).toFixed(1)}%를 넘어 가져오기를 중단했습니다.`
+    );
+  }
+}
+
+// 시트별 건수 합계
+export function mergeRejectionSummaries(summaries: RejectionSummary[]): RejectionSummary {
+  return summaries.reduce(
+    (total, summary) => ({ count: total.count + summary.count, rows: total.rows + summary.rows }),
+    EMPTY_SUMMARY
+  );
+}
+
+function toRejection(row: DatabaseRow): IngestRejection {
+  return {
+    sheet: row.sheet as string,
+    rowNumber: row.rowNumber as number,
+    column: row.columnName as string,
+    columnType: row.columnType as string,
+    value: row.value === null ? null : String(row.value),
+    reason: row.reason as string
+  };
+}
+
+// 버전의 변환 실패 건수
+export function getRejectionSummary(fileId: string, version: number): RejectionSummary {
+  const result = db.selectOne(
+    `SELECT COUNT(*) AS count, COUNT(DISTINCT sheet || ':' || rowNumber) AS rowCount
+     FROM ingest_rejections WHERE fileId = ? AND version = ?`,
+    [fileId, version]
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  const row = result.data![0];
+  return { count: row.count as number, rows: row.rowCount as number };
+}
+
+// 버전의 변환 실패 목록 (시트, 행, 컬럼 순서, limit을 생략하면 전체)
+export function listRejections(
+  fileId: string,
+  version: number,
+  { limit, offset = 0 }: { limit?: number; offset?: number } = {}
+): IngestRejection[] {
+  const result = db.select(
+    `SELECT * FROM ingest_rejections WHERE fileId = ? AND version = ?
+     ORDER BY sheet, rowNumber, rowid
+     ${limit !== undefined ? 'LIMIT ? OFFSET ?' : ''}`,
+    limit !== undefined ? [fileId, version, limit, offset] : [fileId, version]
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!.map(toRejection);
+}
+
+// 변환 실패 기록 삭제 (version을 생략하면 데이터셋 전체)
+export function deleteRejections(fileId: string, version?: number): void {
+  const result = version === undefined
+    ? db.execute('DELETE FROM ingest_rejections WHERE fileId = ?', [fileId])
+    : db.execute('DELETE FROM ingest_rejections WHERE fileId = ? AND version = ?', [fileId, version]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+function escapeCsvField(value: string | number | null): string {
+  if (value === null) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+// 변환 실패 목록을 CSV로 변환 (엑셀에서 한글이 깨지지 않도록 BOM 포함)
+export function rejectionsToCsv(rejections: IngestRejection[]): string {
+  const header = ['sheet', 'row', 'column', 'type', 'value', 'reason'];
+  const lines = rejections.map(rejection =>
+    [rejection.sheet, rejection.rowNumber, rejection.column, rejection.columnType, rejection.value, rejection.reason]
+      .map(escapeCsvField)
+      .join(',')
+  );
+  return '\uFEFF' + [header.join(','), ...lines].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,53 @@
+/* eslint-disable @typescript-eslint/no-require-imports -- 빌드 없이 node로 직접 실행하는 CommonJS 스크립트 */
+// 분석 쿼리 실행 프로세스 (query-sandbox.ts가 별도 node 프로세스로 띄움)
+// 메인 프로세스와 같은 파일을 읽기 전용으로 열고, 페이지 캐시는 메모리 한도의 1/4로 제한, 메인 연결과 같은 SQL 함수 등록
+// 한도를 넘은 결과를 모두 받지 않도록 실행 중에 행 수, 크기, 실행 시간을 검사
+const Database = require('better-sqlite3');
+const { registerSqlFunctions } = require('./sql-functions');
+
+const config = JSON.parse(process.argv[2]);
+const db = new Database(config.dbPath, { readonly: true, fileMustExist: true });
+db.pragma('query_only = ON');
+db.pragma('cache_size = -' + config.cacheKb);
+registerSqlFunctions(db);
+
+process.on('message', ({ id, sql, params, timeoutMs, rowLimit }) => {
+  // better-sqlite3는 progress handler와 sqlite3_interrupt를 제공하지 않으므로 행을 읽을 때마다 실행 시간을 확인해 중단
+  // (행을 내보내기 전에 오래 걸리는 정렬/집계는 메인 프로세스가 시간 초과 시 이 프로세스를 종료)
+  const deadline = Date.now() + timeoutMs;
+  try {
+    const stmt = db.prepare(sql);
+    if (!stmt.reader || !stmt.readonly) {
+      process.send({ id, error: '보안상 SELECT 쿼리만 허용됩니다.' });
+      return;
+    }
+    const rows = [];
+    let bytes = 0;
+    for (const row of stmt.iterate(...params)) {
+      if (Date.now() > deadline) {
+        process.send({ id, limit: 'timeout' });
+        return;
+      }
+      // 요청한 행 수를 다 읽었으면 나머지 행은 읽지 않고 중단 (최대 행 수 제한 오류가 아님)
+      if (rowLimit !== undefined && rows.length >= rowLimit) break;
+      bytes += JSON.stringify(row, (key, value) => typeof value === 'bigint' ? value.toString() : value).length;
+      if (rows.length >= config.maxRows) {
+        process.send({ id, limit: 'rows' });
+        return;
+      }
+      if (bytes > config.maxResultBytes) {
+        process.send({ id, limit: 'bytes' });
+        return;
+      }
+      rows.push(row);
+    }
+    process.send({ id, rows });
+  } catch (error) {
+    if (error && error.code === 'SQLITE_NOMEM') {
+      process.send({ id, limit: 'memory' });
+    } else {
+      process.send({ id, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+});
+process.on('disconnect', () => process.exit(0));
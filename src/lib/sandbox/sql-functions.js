@@ -0,0 +1,219 @@
+// 분석 쿼리에서 쓰는 통계/정규식 SQL 함수 (메인 연결과 쿼리 실행 프로세스 연결에 같은 정의를 등록)
+// 쿼리 실행 프로세스가 빌드 없이 require할 수 있도록 CommonJS JS 모듈로 둠
+// 집계 함수는 NULL과 숫자가 아닌 값을 무시하고, inverse가 있어 윈도 함수(OVER)로도 쓸 수 있음
+
+/**
+ * @typedef {{ n: number, mean: number, m2: number }} MomentState 평균/분산을 한 번에 누적 (Welford)
+ * @typedef {{ n: number, meanX: number, meanY: number, m2x: number, m2y: number, c: number }} CoMomentState 두 컬럼의 평균/분산/공분산 누적
+ * @typedef {{ values: number[], p: number | null }} ValuesState 값을 모두 모아 계산하는 집계 (p: 백분위 비율)
+ */
+
+/** @param {unknown} value */
+const toNumber = value => typeof value === 'bigint' ? Number(value) : value;
+
+/** @param {unknown} x @returns {x is number} */
+const isFiniteNumber = x => typeof x === 'number' && Number.isFinite(x);
+
+/** @returns {MomentState} */
+const momentStart = () => ({ n: 0, mean: 0, m2: 0 });
+
+/** @param {MomentState} state @param {unknown} value */
+const momentStep = (state, value) => {
+  const x = toNumber(value);
+  if (!isFiniteNumber(x)) return state;
+  state.n += 1;
+  const delta = x - state.mean;
+  state.mean += delta / state.n;
+  state.m2 += delta * (x - state.mean);
+  return state;
+};
+
+/** @param {MomentState} state @param {unknown} value */
+const momentInverse = (state, value) => {
+  const x = toNumber(value);
+  if (!isFiniteNumber(x)) return state;
+  if (state.n <= 1) return momentStart();
+  const previousMean = (state.n * state.mean - x) / (state.n - 1);
+  state.m2 = Math.max(0, state.m2 - (x - previousMean) * (x - state.mean));
+  state.mean = previousMean;
+  state.n -= 1;
+  return state;
+};
+
+/** @returns {CoMomentState} */
+const coMomentStart = () => ({ n: 0, meanX: 0, meanY: 0, m2x: 0, m2y: 0, c: 0 });
+
+// 인자 순서는 표준 SQL과 같이 (y, x)
+/** @param {CoMomentState} state @param {unknown} yValue @param {unknown} xValue */
+const coMomentStep = (state, yValue, xValue) => {
+  const y = toNumber(yValue);
+  const x = toNumber(xValue);
+  if (!isFiniteNumber(x) || !isFiniteNumber(y)) return state;
+  state.n += 1;
+  const dx = x - state.meanX;
+  const dy = y - state.meanY;
+  state.meanX += dx / state.n;
+  state.meanY += dy / state.n;
+  state.m2x += dx * (x - state.meanX);
+  state.m2y += dy * (y - state.meanY);
+  state.c += dx * (y - state.meanY);
+  return state;
+};
+
+/** @param {CoMomentState} state @param {unknown} yValue @param {unknown} xValue */
+const coMomentInverse = (state, yValue, xValue) => {
+  const y = toNumber(yValue);
+  const x = toNumber(xValue);
+  if (!isFiniteNumber(x) || !isFiniteNumber(y)) return state;
+  if (state.n <= 1) return coMomentStart();
+  const previousMeanX = (state.n * state.meanX - x) / (state.n - 1);
+  const previousMeanY = (state.n * state.meanY - y) / (state.n - 1);
+  state.m2x = Math.max(0, state.m2x - (x - previousMeanX) * (x - state.meanX));
+  state.m2y = Math.max(0, state.m2y - (y - previousMeanY) * (y - state.meanY));
+  state.c -= (x - previousMeanX) * (y - state.meanY);
+  state.meanX = previousMeanX;
+  state.meanY = previousMeanY;
+  state.n -= 1;
+  return state;
+};
+
+/** @returns {ValuesState} */
+const valuesStart = () => ({ values: [], p: null });
+
+/** @param {ValuesState} state @param {unknown} value */
+const valuesStep = (state, value) => {
+  const x = toNumber(value);
+  if (isFiniteNumber(x)) state.values.push(x);
+  return state;
+};
+
+/** @param {ValuesState} state @param {unknown} value */
+const valuesInverse = (state, value) => {
+  const index = state.values.indexOf(/** @type {number} */ (toNumber(value)));
+  if (index !== -1) state.values.splice(index, 1);
+  return state;
+};
+
+// 백분위 집계: 두 번째 인자는 0~1 사이 비율 (0.9 → 90번째 백분위)
+/** @param {ValuesState} state @param {unknown} value @param {unknown} p */
+const percentileStep = (state, value, p) => {
+  if (p === null) return state;
+  const ratio = Number(p);
+  if (!Number.isFinite(ratio) || ratio < 0 || ratio > 1) {
+    throw new Error('백분위 비율은 0에서 1 사이의 숫자여야 합니다 (예: 0.9).');
+  }
+  state.p = ratio;
+  return valuesStep(state, value);
+};
+
+// 정렬한 값 사이를 선형 보간
+/** @param {ValuesState} state */
+const continuousPercentile = state => {
+  if (state.values.length === 0) return null;
+  const sorted = [...state.values].sort((a, b) => a - b);
+  const position = (sorted.length - 1) * (state.p === null ? 0.5 : state.p);
+  const lower = Math.floor(position);
+  const upper = Math.ceil(position);
+  return sorted[lower] + (sorted[upper] - sorted[lower]) * (position - lower);
+};
+
+// 누적 비율이 처음으로 p 이상이 되는 실제 값
+/** @param {ValuesState} state */
+const discretePercentile = state => {
+  if (state.values.length === 0) return null;
+  const sorted = [...state.values].sort((a, b) => a - b);
+  const ratio = state.p === null ? 0.5 : state.p;
+  return sorted[Math.max(0, Math.ceil(ratio * sorted.length) - 1)];
+};
+
+// 최빈값 (빈도가 같으면 작은 값, 숫자가 아닌 값도 포함)
+/** @returns {Map<unknown, number>} */
+const modeStart = () => new Map();
+
+/** @param {Map<unknown, number>} counts @param {unknown} value */
+const modeStep = (counts, value) => {
+  if (value !== null && value !== undefined) counts.set(value, (counts.get(value) || 0) + 1);
+  return counts;
+};
+
+/** @param {Map<unknown, number>} counts @param {unknown} value */
+const modeInverse = (counts, value) => {
+  const count = counts.get(value);
+  if (count === undefined) return counts;
+  if (count <= 1) counts.delete(value);
+  else counts.set(value, count - 1);
+  return counts;
+};
+
+/** @param {Map<unknown, number>} counts */
+const modeResult = counts => {
+  /** @type {unknown} */
+  let best = null;
+  let bestCount = 0;
+  counts.forEach((count, value) => {
+    if (count > bestCount || (count === bestCount && /** @type {number} */ (value) < /** @type {number} */ (best))) {
+      best = value;
+      bestCount = count;
+    }
+  });
+  return best;
+};
+
+/** @param {MomentState} state */
+const sampleVariance = state => state.n < 2 ? null : state.m2 / (state.n - 1);
+/** @param {MomentState} state */
+const populationVariance = state => state.n < 1 ? null : state.m2 / state.n;
+/** @param {MomentState} state */
+const sampleStddev = state => state.n < 2 ? null : Math.sqrt(state.m2 / (state.n - 1));
+/** @param {MomentState} state */
+const populationStddev = state => state.n < 1 ? null : Math.sqrt(state.m2 / state.n);
+
+/** @param {(state: MomentState) => number | null} result */
+const moment = result => ({ start: momentStart, step: momentStep, inverse: momentInverse, result });
+
+/** @param {(state: CoMomentState) => number | null} result */
+const coMoment = result => ({ start: coMomentStart, step: coMomentStep, inverse: coMomentInverse, result });
+
+// 이름별 집계 함수 (표준 SQL/다른 DB에서 쓰는 별칭 포함, 인자 수는 step의 매개변수 수 - 1로 정해짐)
+const AGGREGATES = {
+  stddev: moment(sampleStddev),
+  stdev: moment(sampleStddev),
+  stddev_samp: moment(sampleStddev),
+  stddev_pop: moment(populationStddev),
+  variance: moment(sampleVariance),
+  var_samp: moment(sampleVariance),
+  var_pop: moment(populationVariance),
+  median: { start: valuesStart, step: valuesStep, inverse: valuesInverse, result: continuousPercentile },
+  percentile: { start: valuesStart, step: percentileStep, inverse: valuesInverse, result: continuousPercentile },
+  percentile_cont: { start: valuesStart, step: percentileStep, inverse: valuesInverse, result: continuousPercentile },
+  percentile_disc: { start: valuesStart, step: percentileStep, inverse: valuesInverse, result: discretePercentile },
+  mode: { start: modeStart, step: modeStep, inverse: modeInverse, result: modeResult },
+  corr: coMoment(state => state.n < 2 || state.m2x === 0 || state.m2y === 0 ? null : state.c / Math.sqrt(state.m2x * state.m2y)),
+  covar_samp: coMoment(state => state.n < 2 ? null : state.c / (state.n - 1)),
+  covar_pop: coMoment(state => state.n < 1 ? null : state.c / state.n)
+};
+
+// 스칼라 함수 (인자 수는 매개변수 수로 정해짐)
+const SCALARS = {
+  // x REGEXP 'pattern' → regexp('pattern', x), 일치하면 1
+  /** @param {unknown} pattern @param {unknown} value */
+  regexp: (pattern, value) => {
+    if (pattern === null || value === null) return null;
+    return new RegExp(String(pattern)).test(String(value)) ? 1 : 0;
+  }
+};
+
+/**
+ * 연결에 함수 등록 (같은 이름이면 덮어씀)
+ * @param {import('better-sqlite3').Database} target
+ */
+function registerSqlFunctions(target) {
+  for (const [name, definition] of Object.entries(AGGREGATES)) {
+    target.aggregate(name, /** @type {import('better-sqlite3').AggregateOptions} */ ({ ...definition, deterministic: true }));
+  }
+  for (const [name, fn] of Object.entries(SCALARS)) {
+    target.function(name, { deterministic: true }, /** @type {(...params: unknown[]) => unknown} */ (fn));
+  }
+}
+
+module.exports = { registerSqlFunctions };
@@ -0,0 +1,209 @@
+import { db } from './database';
+import { DatasetTable, getDatasetTables } from './datasets';
+import { getColumnTypes, updateDatasetMetadata } from './dataset-update';
+import { renameIndexColumns, restoreIndexes } from './indexes';
+import { ensureConverter } from './ingestion';
+import { profileDataset } from './profiling';
+import { recordRejections } from './rejections';
+import { archiveCurrentTables, copyTable, getCurrentVersion, getVersionTableName, recordVersion } from './versions';
+import { renameRelationshipColumns } from './workspaces';
+import { normalizeColumnNames } from '@/shared/lib/utils';
+import { COLUMN_TYPES, ColumnSchemaEdit, RejectionSummary, SheetSchema } from '@/types';
+
+// 수정 후 컬럼 하나의 구성 (source: 보관 테이블에서 읽을 컬럼, retype: 값을 새 타입으로 변환)
+export interface PlannedColumn {
+  label: string;
+  name: string;
+  type: string;
+  source: string;
+  retype: boolean;
+}
+
+export interface SchemaEditResult {
+  version: number;
+  sheet: SheetSchema;
+  rejections: RejectionSummary;
+}
+
+function run(query: string, params: unknown[] = []): void {
+  const result = db.execute(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+function toSheetSchema(table: DatasetTable, types: Record<string, string>): SheetSchema {
+  return {
+    name: table.name,
+    tableName: table.tableName,
+    rowCount: table.rowCount,
+    columns: table.columns.map(label => {
+      const name = table.columnMapping[label];
+      return { label, name, type: types[name] || 'TEXT' };
+    })
+  };
+}
+
+// 데이터셋의 시트별 컬럼 구성 (표시 이름, 저장 컬럼명, 선언 타입)
+export function getDatasetSchema(tables: DatasetTable[]): SheetSchema[] {
+  return tables.map(table => toSheetSchema(table, getColumnTypes(table.tableName)));
+}
+
+// 수정 내용을 검사하고 수정 후 컬럼 구성을 만듦 (잘못된 요청이면 오류 메시지)
+export function planSchemaEdits(
+  table: DatasetTable,
+  types: Record<string, string>,
+  edits: ColumnSchemaEdit[]
+): PlannedColumn[] | { error: string } {
+  if (!Array.isArray(edits) || edits.length === 0) {
+    return { error: '수정할 컬럼이 없습니다.' };
+  }
+
+  const labelsByName = new Map(table.columns.map(label => [table.columnMapping[label], label]));
+  const editsByName = new Map<string, ColumnSchemaEdit>();
+  for (const edit of edits) {
+    if (!edit || typeof edit.column !== 'string' || !labelsByName.has(edit.column)) {
+      return { error: `컬럼을 찾을 수 없습니다: ${edit?.column}` };
+    }
+    if (editsByName.has(edit.column)) {
+      return { error: `같은 컬럼을 두 번 수정할 수 없습니다: ${edit.column}` };
+    }
+    if (edit.type !== undefined && !COLUMN_TYPES.includes(edit.type)) {
+      return { error: `지원되지 않는 컬럼 타입입니다: ${edit.type}` };
+    }
+    if (edit.name !== undefined && (typeof edit.name !== 'string' || !edit.name.trim())) {
+      return { error: '컬럼명은 비워둘 수 없습니다.' };
+    }
+    if (edit.label !== undefined && (typeof edit.label !== 'string' || !edit.label.trim())) {
+      return { error: '표시 이름은 비워둘 수 없습니다.' };
+    }
+    editsByName.set(edit.column, edit);
+  }
+
+  const planned: PlannedColumn[] = [];
+  for (const label of table.columns) {
+    const column = table.columnMapping[label];
+    const edit = editsByName.get(column);
+    if (edit?.drop) continue;
+
+    // 새 컬럼명도 업로드 때와 같은 정규화 규칙을 거침
+    const name = edit?.name !== undefined ? normalizeColumnNames([edit.name]).normalizedColumns[0] : column;
+    const type = edit?.type || types[column] || 'TEXT';
+    planned.push({
+      label: edit?.label !== undefined ? edit.label.trim() : label,
+      name,
+      type,
+      source: column,
+      retype: type !== (types[column] || 'TEXT')
+    });
+  }
+
+  if (planned.length === 0) {
+    return { error: '모든 컬럼을 삭제할 수는 없습니다.' };
+  }
+
+  // SQLite 컬럼명은 대소문자를 구분하지 않음
+  const names = new Set<string>();
+  const labels = new Set<string>();
+  for (const column of planned) {
+    if (names.has(column.name.toLowerCase())) {
+      return { error: `이미 있는 컬럼명입니다: ${column.name}` };
+    }
+    if (labels.has(column.label)) {
+      return { error: `이미 있는 표시 이름입니다: ${column.label}` };
+    }
+    names.add(column.name.toLowerCase());
+    labels.add(column.label);
+  }
+
+  return planned;
+}
+
+// 수정 전 저장 컬럼명 → 수정 후 저장 컬럼명 (삭제한 컬럼은 null)
+export function getColumnRenames(table: DatasetTable, planned: PlannedColumn[]): Record<string, string | null> {
+  return Object.fromEntries(
+    Object.values(table.columnMapping).map(column => [column, planned.find(c => c.source === column)?.name ?? null])
+  );
+}
+
+// 시트 하나의 컬럼 수정 반영: 현재 데이터를 이전 버전으로 보관하고 수정한 테이블을 새 버전으로 만듦
+// (타입을 바꾼 컬럼은 값을 다시 변환하고, 변환에 실패한 값은 새 버전의 변환 실패 기록에 남김)
+export function applySchemaEdits(fileId: string, sheetName: string, planned: PlannedColumn[]): SchemaEditResult {
+  const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [fileId]);
+  if (!fileResult.success || !fileResult.data?.[0]) {
+    throw new Error('파일을 찾을 수 없습니다.');
+  }
+  const fileData = fileResult.data[0];
+  const tables = getDatasetTables(fileData);
+  const target = tables.find(table => table.name === sheetName);
+  if (!target) {
+    throw new Error(`시트를 찾을 수 없습니다: ${sheetName}`);
+  }
+
+  const previousVersion = getCurrentVersion(fileId);
+  const nextVersion = previousVersion + 1;
+  ensureConverter();
+
+  const result = db.transaction(() => {
+    archiveCurrentTables(tables, previousVersion);
+    const archiveTableName = getVersionTableName(target.tableName, previousVersion);
+
+    const rejections = recordRejections(
+      { fileId, version: nextVersion, sheet: target.name },
+      archiveTableName,
+      planned.filter(column => column.retype).map(column => ({ original: column.label, name: column.source, type: column.type }))
+    );
+
+    run(`CREATE TABLE "${target.tableName}" (${planned.map(column => `"${column.name}" ${column.type}`).join(', ')})`);
+    run(
+      `INSERT INTO "${target.tableName}" (${planned.map(column => `"${column.name}"`).join(', ')})
+       SELECT ${planned.map(column => column.retype ? `convert_value("${column.source}", '${column.type}')` : `"${column.source}"`).join(', ')}
+       FROM "${archiveTableName}" ORDER BY rowid`
+    );
+
+    const edited: DatasetTable = {
+      ...target,
+      columns: planned.map(column => column.label),
+      columnMapping: Object.fromEntries(planned.map(column => [column.label, column.name]))
+    };
+
+    // 수정하지 않은 시트는 보관본에서 그대로 복원
+    const nextTables = tables.map(table => {
+      if (table.tableName === target.tableName) return edited;
+      copyTable(getVersionTableName(table.tableName, previousVersion), table.tableName);
+      return table;
+    });
+
+    // 이름을 바꾼 컬럼의 인덱스는 새 이름으로 다시 만들고, 삭제한 컬럼의 인덱스는 정리
+    const renames = getColumnRenames(target, planned);
+    renameIndexColumns(fileId, target.tableName, renames);
+    // 워크스페이스 조인 키도 바뀐 컬럼명을 따라감
+    renameRelationshipColumns(target.tableName, renames);
+    restoreIndexes(fileId, nextTables);
+    updateDatasetMetadata(fileId, nextTables, !!fileData.sheets, fileData.size as number);
+    const version = recordVersion(fileId, {
+      action: 'schema',
+      baseVersion: previousVersion,
+      tables: nextTables,
+      size: fileData.size as number
+    });
+    return { version, edited, rejections };
+  });
+
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  const { version, edited, rejections } = result.result!;
+
+  try {
+    profileDataset(fileId, [edited]);
+  } catch (profileError) {
+    console.error('[SCHEMA] 컬럼 프로필 계산 실패:', profileError);
+  }
+
+  return {
+    version,
+    sheet: toSheetSchema(edited, Object.fromEntries(planned.map(column => [column.name, column.type]))),
+    rejections
+  };
+}
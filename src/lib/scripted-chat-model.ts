@@ -0,0 +1,124 @@
+import fs from 'fs';
+import { BaseChatModel, BaseChatModelParams, BindToolsInput } from '@langchain/core/language_models/chat_models';
+import { AIMessage, BaseMessage, isAIMessage, isToolMessage } from '@langchain/core/messages';
+import { ChatResult } from '@langchain/core/outputs';
+
+// 스크립트 한 단계: 에이전트가 모델을 호출할 때마다 순서대로 돌려줄 응답
+// 문자열 안의 {{이름}}은 변수(fileId 등)와 직전 도구 결과({{lastToolResult}})로 바뀜
+export interface ChatScriptStep {
+  content?: string;
+  toolCalls?: { name: string; args: Record<string, unknown> }[];
+}
+
+// 스크립트를 지정하지 않았을 때: 샘플 데이터를 한 번 조회한 뒤 그 결과를 그대로 답변
+export const DEFAULT_CHAT_SCRIPT: ChatScriptStep[] = [
+  {
+    toolCalls: [{
+      name: 'get_sample_data',
+      args: { fileId: '{{fileId}}', limit: 5, reasoning: '오프라인 모델: 샘플 데이터 조회' }
+    }]
+  },
+  {
+    content: '## 오프라인 응답\n\n실제 LLM 없이 정해진 스크립트로 만든 응답입니다.\n\n```json\n{{lastToolResult}}\n```'
+  }
+];
+
+interface ScriptedChatModelFields extends BaseChatModelParams {
+  steps: ChatScriptStep[];
+  variables?: Record<string, string>;
+  // bindTools로 받은 도구 이름 (스크립트가 없는 도구를 부르면 오류)
+  toolNames?: string[];
+}
+
+// JSON 스크립트 파일 읽기 (단계 배열)
+export function loadChatScript(filePath: string): ChatScriptStep[] {
+  let steps: unknown;
+  try {
+    steps = JSON.parse(fs.readFileSync(filePath, 'utf-8'));
+  } catch (error) {
+    throw new Error(`LLM 스크립트 파일을 읽을 수 없습니다: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (!Array.isArray(steps) || steps.length === 0) {
+    throw new Error('LLM 스크립트는 응답 단계의 배열이어야 합니다.');
+  }
+  steps.forEach((step, index) => {
+    const valid = typeof step === 'object' && step !== null
+      && (step.content === undefined || typeof step.content === 'string')
+      && (step.toolCalls === undefined || (Array.isArray(step.toolCalls) && step.toolCalls.every(
+        (call: unknown) => typeof call === 'object' && call !== null
+          && typeof (call as { name?: unknown }).name === 'string'
+          && typeof (call as { args?: unknown }).args === 'object'
+      )));
+    if (!valid) {
+      throw new Error(`LLM 스크립트 ${index + 1}번째 단계는 content 문자열 또는 toolCalls({ name, args }) 배열이어야 합니다.`);
+    }
+  });
+  return steps as ChatScriptStep[];
+}
+
+// 정해진 응답을 순서대로 돌려주는 모델 (오프라인 개발/테스트용)
+// 상태를 두지 않고 대화에 이미 있는 AI 응답 수로 단계를 고르므로, 같은 대화에는 항상 같은 응답을 돌려줌
+export class ScriptedChatModel extends BaseChatModel {
+  private steps: ChatScriptStep[];
+  private variables: Record<string, string>;
+  private toolNames?: string[];
+
+  constructor(fields: ScriptedChatModelFields) {
+    super(fields);
+    this.steps = fields.steps;
+    this.variables = fields.variables || {};
+    this.toolNames = fields.toolNames;
+  }
+
+  _llmType(): string {
+    return 'scripted';
+  }
+
+  bindTools(tools: BindToolsInput[]) {
+    const toolNames = tools.map(tool => ('name' in tool ? String(tool.name) : ''));
+    return new ScriptedChatModel({
+      steps: this.steps,
+      variables: this.variables,
+      toolNames,
+      callbacks: this.callbacks
+    });
+  }
+
+  async _generate(messages: BaseMessage[]): Promise<ChatResult> {
+    const stepIndex = messages.filter(message => isAIMessage(message)).length;
+    const step: ChatScriptStep = this.steps[stepIndex] || { content: '스크립트의 응답을 모두 사용했습니다.' };
+
+    const lastToolMessage = [...messages].reverse().find(message => isToolMessage(message));
+    const variables: Record<string, string> = {
+      ...this.variables,
+      lastToolResult: lastToolMessage
+        ? (typeof lastToolMessage.content === 'string' ? lastToolMessage.content : JSON.stringify(lastToolMessage.content))
+        : ''
+    };
+    const fill = (value: unknown): unknown => {
+      if (typeof value === 'string') {
+        return value.replace(/\{\{(\w+)\}\}/g, (match, key: string) => variables[key] ?? match);
+      }
+      if (Array.isArray(value)) return value.map(fill);
+      if (value && typeof value === 'object') {
+        return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, fill(item)]));
+      }
+      return value;
+    };
+
+    const toolCalls = (step.toolCalls || []).map((call, index) => {
+      if (this.toolNames && !this.toolNames.includes(call.name)) {
+        throw new Error(`LLM 스크립트의 도구(${call.name})가 에이전트 도구 목록에 없습니다.`);
+      }
+      return {
+        id: `scripted-${stepIndex}-${index}`,
+        name: call.name,
+        args: fill(call.args) as Record<string, unknown>,
+        type: 'tool_call' as const
+      };
+    });
+    const content = fill(step.content || '') as string;
+    const message = new AIMessage({ content, tool_calls: toolCalls });
+    return { generations: [{ text: content, message }] };
+  }
+}
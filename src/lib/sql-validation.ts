@@ -0,0 +1,81 @@
+import { db, DatabaseRow } from './database';
+
+// 분석 쿼리 검사 결과 (tables: 쿼리가 실제로 읽는 데이터베이스 테이블)
+export interface QueryAnalysis {
+  tables: string[];
+}
+
+// 읽기 전용 쿼리로 시작할 수 있는 키워드
+const READ_KEYWORDS = ['select', 'with', 'values'];
+// 쿼리에서 쓸 수 있는 가상 테이블 함수 (pragma_*, dbstat 등 데이터베이스 구조를 읽는 함수는 제외)
+const ALLOWED_VIRTUAL_TABLES = ['json_each', 'json_tree'];
+// 데이터베이스 파일에 쓰거나 스키마를 바꿀 때만 나오는 실행 단계 (Insert 등은 정렬/DISTINCT용 임시 테이블에도 쓰이므로 제외)
+const WRITE_OPCODES = ['OpenWrite', 'VUpdate', 'CreateBtree', 'Destroy', 'ParseSchema', 'DropTable', 'DropIndex', 'DropTrigger'];
+
+// 문자열 리터럴과 주석을 지운 쿼리 (키워드/함수 이름 확인용)
+function stripLiteralsAndComments(sql: string): string {
+  return sql
+    .replace(/'(?:[^']|'')*'/g, "''")
+    .replace(/--[^\n]*/g, ' ')
+    .replace(/\/\*[\s\S]*?(\*\/|$)/g, ' ');
+}
+
+function selectAll(query: string, params: unknown[] = []): DatabaseRow[] {
+  const result = db.select(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!;
+}
+
+// SQLite 분석 쿼리 검사
+// 쿼리를 직접 파싱하지 않고 SQLite가 컴파일한 실행 단계(EXPLAIN)를 읽어, 쓰기가 없는지와 열어서 읽는 테이블을 확인
+// (CTE, 서브쿼리, 뷰, 윈도 함수 등 SQLite가 실행할 수 있는 문법은 모두 허용되고 뷰는 원본 테이블로 펼쳐짐)
+export function analyzeSqliteQuery(sql: string): QueryAnalysis | { error: string } {
+  const visible = stripLiteralsAndComments(sql);
+  const keyword = visible.trim().replace(/^\(+\s*/, '').split(/[\s(]/)[0].toLowerCase();
+  if (!READ_KEYWORDS.includes(keyword)) {
+    return { error: '보안상 SELECT 쿼리(WITH로 시작하는 쿼리 포함)만 허용됩니다.' };
+  }
+
+  // 여러 문장을 이어 붙이면 prepare 단계에서 실패함
+  const explained = db.select(`EXPLAIN ${sql}`);
+  if (!explained.success) {
+    return { error: explained.error || '쿼리를 해석하지 못했습니다.' };
+  }
+  const steps = explained.data!;
+
+  if (steps.some(step => WRITE_OPCODES.includes(step.opcode as string)
+    || (step.opcode === 'Transaction' && (step.p2 as number) !== 0))) {
+    return { error: '보안상 데이터를 바꾸지 않는 SELECT 쿼리만 허용됩니다.' };
+  }
+
+  // 가상 테이블은 실행 단계에 이름이 남지 않으므로 쿼리에 쓴 함수 이름으로 확인
+  const virtualOpens = steps.filter(step => step.opcode === 'VOpen').length;
+  if (virtualOpens > 0) {
+    const functionNames = [...visible.matchAll(/([\w"]+)\s*\(/g)].map(match => match[1].replace(/"/g, '').toLowerCase());
+    const allowedCalls = functionNames.filter(name => ALLOWED_VIRTUAL_TABLES.includes(name)).length;
+    if (functionNames.some(name => name.startsWith('pragma_') || name === 'dbstat') || virtualOpens > allowedCalls) {
+      return { error: `테이블 함수는 ${ALLOWED_VIRTUAL_TABLES.join(', ')}만 사용할 수 있습니다.` };
+    }
+  }
+
+  // 읽는 B-tree(테이블 또는 인덱스)의 루트 페이지 → 테이블 이름 (1번 페이지는 sqlite_schema)
+  const reads = steps.filter(step => step.opcode === 'OpenRead');
+  if (reads.some(step => (step.p3 as number) !== 0)) {
+    return { error: '임시 테이블이나 연결된 다른 데이터베이스는 조회할 수 없습니다.' };
+  }
+  const tablesByRootPage = new Map<number, string>([[1, 'sqlite_schema']]);
+  selectAll(`SELECT tbl_name, rootpage FROM sqlite_schema WHERE type IN ('table', 'index') AND rootpage > 0`)
+    .forEach(row => tablesByRootPage.set(row.rootpage as number, row.tbl_name as string));
+
+  const tables = new Set<string>();
+  for (const step of reads) {
+    const tableName = tablesByRootPage.get(step.p2 as number);
+    if (!tableName) {
+      return { error: '쿼리가 읽는 테이블을 확인하지 못했습니다.' };
+    }
+    tables.add(tableName);
+  }
+  return { tables: [...tables] };
+}
@@ -0,0 +1,252 @@
+import { ColumnType } from '@/types';
+
+// 값이 없음을 뜻하는 표기 (대소문자 무시)
+const NULL_MARKERS = new Set(['', 'n/a', 'na', '#n/a', 'null', 'none', 'nan', '-', '--', '?', '없음', '해당없음']);
+
+const TRUE_VALUES = new Set(['true', 't', 'yes', 'y', '예', '참']);
+const FALSE_VALUES = new Set(['false', 'f', 'no', 'n', '아니오', '거짓']);
+
+// 통화 기호/단위 (앞 또는 뒤)
+const CURRENCY_PREFIX = /^[₩$€£¥]|^(krw|usd|eur|jpy)\s*/i;
+const CURRENCY_SUFFIX = /\s*(원|달러|엔|krw|usd|eur|jpy)$/i;
+
+export function isNullMarker(value: unknown): boolean {
+  if (value === null || value === undefined) return true;
+  if (typeof value !== 'string') return false;
+  return NULL_MARKERS.has(value.trim().toLowerCase());
+}
+
+// 숫자 해석: 천 단위 구분자, 통화 기호, 퍼센트(비율로 변환), 회계식 음수 (1,234) 지원
+export function parseNumber(value: unknown): number | null {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value !== 'string') return null;
+
+  let text = value.trim();
+  let negative = false;
+
+  if (/^\(.*\)$/.test(text)) {
+    negative = true;
+    text = text.slice(1, -1).trim();
+  }
+  if (text.startsWith('-') || text.startsWith('+')) {
+    negative = negative !== text.startsWith('-');
+    text = text.slice(1).trim();
+  }
+
+  text = text.replace(CURRENCY_PREFIX, '').replace(CURRENCY_SUFFIX, '').trim();
+  if (text.startsWith('-')) {
+    negative = !negative;
+    text = text.slice(1);
+  }
+
+  const isPercent = text.endsWith('%');
+  if (isPercent) text = text.slice(0, -1).trim();
+
+  // 천 단위 구분자는 3자리 묶음일 때만 허용 (1,5 같은 소수점 쉼표는 숫자로 보지 않음)
+  if (text.includes(',')) {
+    if (!/^\d{1,3}(,\d{3})+(\.\d+)?$/.test(text)) return null;
+    text = text.replace(/,/g, '');
+  }
+
+  if (!/^(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(text)) return null;
+
+  // 0으로 시작하는 코드값(우편번호, 사번 등)은 숫자로 보지 않음
+  if (/^0\d/.test(text)) return null;
+
+  let result = Number(text);
+  if (!Number.isFinite(result)) return null;
+  if (isPercent) result = result / 100;
+  return negative ? -result : result;
+}
+
+export function parseBoolean(value: unknown): boolean | null {
+  if (typeof value === 'boolean') return value;
+  if (typeof value !== 'string') return null;
+  const text = value.trim().toLowerCase();
+  if (TRUE_VALUES.has(text)) return true;
+  if (FALSE_VALUES.has(text)) return false;
+  return null;
+}
+
+function pad(value: number): string {
+  return String(value).padStart(2, '0');
+}
+
+// 날짜 구성요소를 'YYYY-MM-DD[ HH:MM:SS]' 형식으로 변환 (존재하지 않는 날짜는 null)
+export function formatDate(year: number, month: number, day: number, time?: { h: number; m: number; s: number }): string | null {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  if (time && (time.h > 23 || time.m > 59 || time.s > 59)) return null;
+
+  const datePart = `${year}-${pad(month)}-${pad(day)}`;
+  return time ? `${datePart} ${pad(time.h)}:${pad(time.m)}:${pad(time.s)}` : datePart;
+}
+
+// 시간 부분 해석 (오전/오후 표기 포함)
+function parseTime(text: string): { h: number; m: number; s: number } | null | undefined {
+  const trimmed = text.trim().replace(/^T/, '');
+  if (!trimmed) return undefined;
+
+  const match = trimmed.match(/^(오전|오후|am|pm)?\s*(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(am|pm|z|[+-]\d{2}:?\d{2})?$/i);
+  if (!match) return null;
+
+  let hour = Number(match[2]);
+  const meridiem = (match[1] || match[5] || '').toLowerCase();
+  if ((meridiem === '오후' || meridiem === 'pm') && hour < 12) hour += 12;
+  if ((meridiem === '오전' || meridiem === 'am') && hour === 12) hour = 0;
+
+  return { h: hour, m: Number(match[3]), s: Number(match[4] || 0) };
+}
+
+// 날짜 해석: ISO/구분자 형식, YYYYMMDD, 한국어(2024년 3월 1일, 2024. 3. 1.), 월/일/년 형식
+// 결과는 SQLite 날짜 함수가 다룰 수 있는 'YYYY-MM-DD' 또는 'YYYY-MM-DD HH:MM:SS'
+export function parseDate(value: unknown): string | null {
+  if (typeof value !== 'string') return null;
+
+  const text = value.trim();
+  let match: RegExpMatchArray | null;
+  let year: number, month: number, day: number;
+  let rest = '';
+
+  if ((match = text.match(/^(\d{4})\s*년\s*(\d{1,2})\s*월\s*(\d{1,2})\s*일(.*)$/))) {
+    [year, month, day, rest] = [Number(match[1]), Number(match[2]), Number(match[3]), match[4]];
+  } else if ((match = text.match(/^(\d{4})\.\s*(\d{1,2})\.\s*(\d{1,2})\.?(.*)$/))) {
+    [year, month, day, rest] = [Number(match[1]), Number(match[2]), Number(match[3]), match[4]];
+  } else if ((match = text.match(/^(\d{4})[-\/](\d{1,2})[-\/](\d{1,2})(.*)$/))) {
+    [year, month, day, rest] = [Number(match[1]), Number(match[2]), Number(match[3]), match[4]];
+  } else if ((match = text.match(/^(\d{4})(\d{2})(\d{2})$/))) {
+    [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+  } else if ((match = text.match(/^(\d{1,2})[-\/](\d{1,2})[-\/](\d{4})(.*)$/))) {
+    // 월/일/년 (첫 값이 12보다 크면 일/월/년)
+    const first = Number(match[1]);
+    const second = Number(match[2]);
+    [month, day] = first > 12 ? [second, first] : [first, second];
+    [year, rest] = [Number(match[3]), match[4]];
+  } else {
+    return null;
+  }
+
+  const time = parseTime(rest);
+  if (time === null) return null;
+  return formatDate(year, month, day, time);
+}
+
+// 컬럼 값을 하나씩 관찰하며 전체 컬럼에 맞는 타입을 추론
+export function createTypeObserver() {
+  let nonNullCount = 0;
+  let isAllBoolean = true;
+  let isAllInteger = true;
+  let isAllReal = true;
+  let isAllDate = true;
+
+  return {
+    observe(value: unknown) {
+      if (isNullMarker(value)) return;
+      nonNullCount++;
+
+      if (isAllBoolean && parseBoolean(value) === null) isAllBoolean = false;
+
+      if (isAllInteger || isAllReal) {
+        const numberValue = parseNumber(value);
+        if (numberValue === null) {
+          isAllInteger = false;
+          isAllReal = false;
+        } else if (!Number.isSafeInteger(numberValue)) {
+          isAllInteger = false;
+          // 안전한 범위를 넘는 정수(19자리 ID 등)는 REAL로 저장하면 자릿수를 잃으므로 TEXT로 둠
+          if (Number.isInteger(numberValue)) isAllReal = false;
+        }
+      }
+
+      if (isAllDate && parseDate(value) === null) isAllDate = false;
+    },
+
+    // 타입 결정 우선순위: BOOLEAN > DATE > INTEGER > REAL > TEXT (섞여 있으면 TEXT)
+    // 숫자이면서 날짜인 값은 YYYYMMDD뿐이므로, 모든 값이 실제 달력 날짜인 8자리 숫자 컬럼은 DATE
+    result(): ColumnType {
+      if (nonNullCount === 0) return 'TEXT';
+      if (isAllBoolean) return 'BOOLEAN';
+      if (isAllDate) return 'DATE';
+      if (isAllInteger) return 'INTEGER';
+      if (isAllReal) return 'REAL';
+      return 'TEXT';
+    }
+  };
+}
+
+// 데이터 타입 추론 함수
+export function inferColumnType(values: unknown[]): ColumnType {
+  const observer = createTypeObserver();
+  values.forEach(value => observer.observe(value));
+  return observer.result();
+}
+
+// 이미 숫자로 저장된 값을 다시 해석할 때 (컬럼 타입을 INTEGER에서 BOOLEAN/DATE로 바꾸는 경우)
+// 1/0은 참/거짓으로, 20240301 같은 숫자는 문자열로 바꿔 날짜로 해석 (타입 추론에서는 1/0을 숫자로 봄)
+function parseStoredBoolean(value: unknown): boolean | null {
+  if (typeof value === 'number') return value === 1 ? true : value === 0 ? false : null;
+  return parseBoolean(value);
+}
+
+function parseStoredDate(value: unknown): string | null {
+  return parseDate(typeof value === 'number' ? String(value) : value);
+}
+
+// 추론된 타입에 맞게 값 변환 (변환할 수 없는 값은 null, 텍스트는 원본 유지)
+export function convertValue(value: unknown, columnType: string): unknown {
+  if (value === null || value === undefined || value === '') return null;
+
+  switch (columnType) {
+    case 'BOOLEAN': {
+      if (isNullMarker(value)) return null;
+      const boolValue = parseStoredBoolean(value);
+      return boolValue === null ? null : boolValue ? 1 : 0;
+    }
+    case 'INTEGER': {
+      if (isNullMarker(value)) return null;
+      const intValue = parseNumber(value);
+      return intValue === null ? null : Math.trunc(intValue);
+    }
+    case 'REAL': {
+      if (isNullMarker(value)) return null;
+      return parseNumber(value);
+    }
+    case 'DATE': {
+      if (isNullMarker(value)) return null;
+      return parseStoredDate(value) ?? String(value).trim();
+    }
+    default:
+      return toStorableValue(value);
+  }
+}
+
+// convertValue가 값을 잃거나 바꿔 저장하는 경우 그 이유 (문제없이 변환되면 null)
+export function describeConversionFailure(value: unknown, columnType: string): string | null {
+  if (isNullMarker(value)) return null;
+
+  switch (columnType) {
+    case 'BOOLEAN':
+      return parseStoredBoolean(value) === null ? '참/거짓 값으로 해석할 수 없어 NULL로 저장됨' : null;
+    case 'INTEGER': {
+      const intValue = parseNumber(value);
+      if (intValue === null) return '숫자로 해석할 수 없어 NULL로 저장됨';
+      return Number.isInteger(intValue) ? null : '정수가 아니어서 소수점 이하가 버려짐';
+    }
+    case 'REAL':
+      return parseNumber(value) === null ? '숫자로 해석할 수 없어 NULL로 저장됨' : null;
+    case 'DATE':
+      return parseStoredDate(value) === null ? '날짜로 해석할 수 없어 원본 텍스트로 저장됨' : null;
+    default:
+      return null;
+  }
+}
+
+// SQLite에 바인딩할 수 있는 형태로 원본 값 변환 (문자열은 공백 정리)
+export function toStorableValue(value: unknown): string | number | null {
+  if (value === null || value === undefined) return null;
+  if (typeof value === 'number') return value;
+  if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+  return String(value).trim();
+}
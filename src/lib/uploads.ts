@@ -0,0 +1,105 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { Readable, Transform } from 'stream';
+import { pipeline } from 'stream/promises';
+import { db } from './database';
+
+// 업로드 원본 파일 보관 위치 (docker-compose의 uploads 볼륨)
+const UPLOADS_DIR = path.join(process.cwd(), 'uploads');
+
+// 보관된 원본 파일 (relativePath: uploads/ 기준 경로)
+export interface StoredUpload {
+  relativePath: string;
+  absolutePath: string;
+  size: number;
+  checksum: string;
+}
+
+// 같은 내용으로 이미 만들어진 데이터셋
+export interface DuplicateDataset {
+  id: string;
+  name: string;
+  displayName: string | null;
+  uploadedAt: string;
+}
+
+function resolveStoredPath(relativePath: string): string {
+  const absolutePath = path.resolve(UPLOADS_DIR, relativePath);
+  if (!absolutePath.startsWith(UPLOADS_DIR + path.sep)) {
+    throw new Error(`잘못된 원본 파일 경로입니다: ${relativePath}`);
+  }
+  return absolutePath;
+}
+
+// 업로드 스트림을 uploads/<fileId>/<storedName><확장자>로 저장하면서 SHA-256 계산
+// (임시 파일에 다 쓴 뒤 이름을 바꾸므로 중간에 실패하면 원본이 남지 않음)
+export async function saveUploadedFile(
+  source: Readable,
+  fileId: string,
+  fileName: string,
+  storedName = 'original'
+): Promise<StoredUpload> {
+  const relativePath = path.join(fileId, `${storedName}${path.extname(fileName).toLowerCase()}`);
+  const absolutePath = resolveStoredPath(relativePath);
+  const tempPath = `${absolutePath}.part`;
+  await fs.promises.mkdir(path.dirname(absolutePath), { recursive: true });
+
+  const hash = createHash('sha256');
+  let size = 0;
+  try {
+    await pipeline(
+      source,
+      new Transform({
+        transform(chunk: Buffer, _encoding, callback) {
+          hash.update(chunk);
+          size += chunk.length;
+          callback(null, chunk);
+        }
+      }),
+      fs.createWriteStream(tempPath)
+    );
+    await fs.promises.rename(tempPath, absolutePath);
+  } catch (error) {
+    await fs.promises.rm(tempPath, { force: true });
+    throw error;
+  }
+
+  return { relativePath, absolutePath, size, checksum: hash.digest('hex') };
+}
+
+// 보관된 원본 파일 읽기 스트림 (파일이 없으면 null)
+export function openStoredFile(relativePath: string): { stream: Readable; size: number } | null {
+  const absolutePath = resolveStoredPath(relativePath);
+  if (!fs.existsSync(absolutePath)) return null;
+  return { stream: fs.createReadStream(absolutePath), size: fs.statSync(absolutePath).size };
+}
+
+// 보관된 원본 파일 하나 삭제 (업로드 실패 또는 반영하지 않은 갱신 업로드)
+export async function deleteStoredFile(relativePath: string): Promise<void> {
+  await fs.promises.rm(resolveStoredPath(relativePath), { force: true });
+}
+
+// 데이터셋의 모든 원본 파일 삭제
+export async function deleteStoredFiles(fileId: string): Promise<void> {
+  await fs.promises.rm(resolveStoredPath(fileId), { recursive: true, force: true });
+}
+
+// 같은 체크섬으로 먼저 업로드된 데이터셋 찾기
+export function findDatasetByChecksum(checksum: string): DuplicateDataset | null {
+  const result = db.selectOne(
+    'SELECT id, name, displayName, uploadedAt FROM files WHERE checksum = ? ORDER BY uploadedAt LIMIT 1',
+    [checksum]
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  const row = result.data?.[0];
+  if (!row) return null;
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    displayName: (row.displayName as string) || null,
+    uploadedAt: row.uploadedAt as string
+  };
+}
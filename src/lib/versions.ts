@@ -0,0 +1,326 @@
+import { db, DatabaseRow } from './database';
+import { DatasetTable, getDatasetTables } from './datasets';
+import { getColumnTypes, updateDatasetMetadata } from './dataset-update';
+import { restoreIndexes } from './indexes';
+
+// 버전을 만든 작업 (최초 업로드, 행 추가, 데이터 교체, 이전 버전으로 되돌리기, 컬럼 수정, 파생 데이터셋 생성/새로 고침)
+export type VersionAction = 'upload' | 'append' | 'replace' | 'rollback' | 'schema' | 'derive' | 'refresh';
+
+export interface DatasetVersion {
+  version: number;
+  action: VersionAction;
+  sourceFileName: string | null;
+  baseVersion: number | null;  // 되돌리기/컬럼 수정의 기준 버전
+  rowCount: number;
+  size: number;
+  tables: DatasetTable[];
+  originalPath: string | null;  // 이 버전을 만든 원본 파일 (uploads/ 기준)
+  checksum: string | null;
+  createdAt: string;
+}
+
+// 컬럼 단위 집계 (버전 비교용)
+export interface ColumnAggregate {
+  count: number;
+  nullCount: number;
+  distinctCount: number;
+  min: unknown;
+  max: unknown;
+  mean: number | null;
+  sum: number | null;
+}
+
+export interface TableDiff {
+  name: string;
+  tableName: string;
+  status: 'added' | 'removed' | 'changed';
+  columnsAdded: string[];
+  columnsRemoved: string[];
+  typeChanges: { column: string; from: string; to: string }[];
+  rowCount: { from: number; to: number };
+  rowsAdded: number;
+  rowsRemoved: number;
+  aggregates: { column: string; original: string; from: ColumnAggregate; to: ColumnAggregate }[];
+}
+
+const NUMERIC_TYPES = ['INTEGER', 'REAL', 'BOOLEAN'];
+
+// 이전 버전 데이터를 보관하는 테이블명 (현재 버전은 기본 테이블명 사용)
+export function getVersionTableName(tableName: string, version: number): string {
+  return `${tableName}__v${version}`;
+}
+
+function run(query: string, params: unknown[] = []): void {
+  const result = db.execute(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+function toVersion(row: DatabaseRow): DatasetVersion {
+  return {
+    version: row.version as number,
+    action: row.action as VersionAction,
+    sourceFileName: (row.sourceFileName as string) || null,
+    baseVersion: (row.baseVersion as number) ?? null,
+    rowCount: row.rowCount as number,
+    size: row.size as number,
+    tables: JSON.parse(row.tables as string),
+    originalPath: (row.originalPath as string) || null,
+    checksum: (row.checksum as string) || null,
+    createdAt: row.createdAt as string
+  };
+}
+
+// 버전 기록이 없는 데이터셋(버전 관리 이전 업로드)은 현재 상태를 1번 버전으로 기록
+function ensureInitialVersion(fileId: string): void {
+  const existing = db.selectOne('SELECT version FROM dataset_versions WHERE fileId = ? LIMIT 1', [fileId]);
+  if (!existing.success) {
+    throw new Error(existing.error);
+  }
+  if (existing.data!.length > 0) return;
+
+  const fileResult = db.selectOne('SELECT * FROM files WHERE id = ?', [fileId]);
+  if (!fileResult.success || !fileResult.data?.[0]) {
+    throw new Error('파일을 찾을 수 없습니다.');
+  }
+  const file = fileResult.data[0];
+  recordVersion(fileId, {
+    action: 'upload',
+    sourceFileName: file.name as string,
+    tables: getDatasetTables(file),
+    size: file.size as number,
+    originalPath: (file.originalPath as string) || null,
+    checksum: (file.checksum as string) || null,
+    createdAt: file.uploadedAt as string
+  });
+}
+
+// 새 버전 기록 (번호는 마지막 버전 + 1)
+export function recordVersion(
+  fileId: string,
+  entry: {
+    action: VersionAction;
+    sourceFileName?: string | null;
+    baseVersion?: number | null;
+    tables: DatasetTable[];
+    size: number;
+    originalPath?: string | null;
+    checksum?: string | null;
+    createdAt?: string;
+  }
+): number {
+  const last = db.selectOne('SELECT MAX(version) AS version FROM dataset_versions WHERE fileId = ?', [fileId]);
+  if (!last.success) {
+    throw new Error(last.error);
+  }
+  const version = ((last.data![0].version as number) || 0) + 1;
+
+  run(
+    `INSERT INTO dataset_versions
+       (fileId, version, action, sourceFileName, baseVersion, rowCount, size, tables, originalPath, checksum, createdAt)
+     VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+    [
+      fileId,
+      version,
+      entry.action,
+      entry.sourceFileName ?? null,
+      entry.baseVersion ?? null,
+      entry.tables[0]?.rowCount || 0,
+      entry.size,
+      JSON.stringify(entry.tables),
+      entry.originalPath ?? null,
+      entry.checksum ?? null,
+      entry.createdAt || new Date().toISOString()
+    ]
+  );
+  return version;
+}
+
+// 버전 목록 (최신 버전이 현재 데이터)
+export function listVersions(fileId: string): DatasetVersion[] {
+  ensureInitialVersion(fileId);
+  const result = db.select('SELECT * FROM dataset_versions WHERE fileId = ? ORDER BY version DESC', [fileId]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!.map(toVersion);
+}
+
+export function getVersion(fileId: string, version: number): DatasetVersion | null {
+  ensureInitialVersion(fileId);
+  const result = db.selectOne('SELECT * FROM dataset_versions WHERE fileId = ? AND version = ?', [fileId, version]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data![0] ? toVersion(result.data![0]) : null;
+}
+
+export function getCurrentVersion(fileId: string): number {
+  ensureInitialVersion(fileId);
+  const result = db.selectOne('SELECT MAX(version) AS version FROM dataset_versions WHERE fileId = ?', [fileId]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data![0].version as number;
+}
+
+// 버전 데이터가 실제로 저장된 테이블 목록
+function getVersionStorage(fileId: string, version: DatasetVersion): DatasetTable[] {
+  const current = getCurrentVersion(fileId);
+  return version.tables.map(table => ({
+    ...table,
+    tableName: version.version === current ? table.tableName : getVersionTableName(table.tableName, version.version)
+  }));
+}
+
+// 선언 타입을 유지한 채 테이블 복사
+export function copyTable(sourceTableName: string, targetTableName: string): void {
+  const types = getColumnTypes(sourceTableName);
+  const columns = Object.keys(types).map(column => `"${column}"`);
+  run(`DROP TABLE IF EXISTS "${targetTableName}"`);
+  run(`CREATE TABLE "${targetTableName}" (${Object.entries(types).map(([column, type]) => `"${column}" ${type}`).join(', ')})`);
+  run(`INSERT INTO "${targetTableName}" (${columns.join(', ')}) SELECT ${columns.join(', ')} FROM "${sourceTableName}"`);
+}
+
+// 현재 테이블들을 버전 보관 테이블로 옮김 (호출한 쪽에서 새 현재 테이블을 만들어야 함)
+export function archiveCurrentTables(tables: DatasetTable[], version: number): void {
+  tables.forEach(table => {
+    const archiveTableName = getVersionTableName(table.tableName, version);
+    run(`DROP TABLE IF EXISTS "${archiveTableName}"`);
+    run(`ALTER TABLE "${table.tableName}" RENAME TO "${archiveTableName}"`);
+  });
+}
+
+// 지정한 버전의 데이터로 되돌림 (현재 데이터는 보관되고 되돌린 결과가 새 버전이 됨)
+export function rollbackToVersion(fileId: string, version: number): DatasetVersion {
+  const current = getCurrentVersion(fileId);
+  const target = getVersion(fileId, version);
+  if (!target) {
+    throw new Error(`버전 ${version}을 찾을 수 없습니다.`);
+  }
+  if (version === current) {
+    throw new Error('이미 현재 버전입니다.');
+  }
+
+  const currentVersion = getVersion(fileId, current)!;
+  const fileResult = db.selectOne('SELECT sheets FROM files WHERE id = ?', [fileId]);
+  if (!fileResult.success || !fileResult.data?.[0]) {
+    throw new Error('파일을 찾을 수 없습니다.');
+  }
+
+  const result = db.transaction(() => {
+    archiveCurrentTables(currentVersion.tables, current);
+    target.tables.forEach(table => copyTable(getVersionTableName(table.tableName, version), table.tableName));
+    restoreIndexes(fileId, target.tables);
+    updateDatasetMetadata(fileId, target.tables, !!fileResult.data![0].sheets, target.size);
+    return recordVersion(fileId, {
+      action: 'rollback',
+      sourceFileName: target.sourceFileName,
+      baseVersion: version,
+      tables: target.tables,
+      size: target.size,
+      originalPath: target.originalPath,
+      checksum: target.checksum
+    });
+  });
+
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return getVersion(fileId, result.result!)!;
+}
+
+// 데이터셋의 모든 이전 버전 테이블과 버전 기록 삭제
+export function deleteVersions(fileId: string): void {
+  const current = getCurrentVersion(fileId);
+  listVersions(fileId)
+    .filter(version => version.version !== current)
+    .forEach(version => version.tables.forEach(table => {
+      db.dropTable(getVersionTableName(table.tableName, version.version));
+    }));
+  run('DELETE FROM dataset_versions WHERE fileId = ?', [fileId]);
+}
+
+function aggregateColumn(tableName: string, column: string, type: string): ColumnAggregate {
+  const isNumeric = NUMERIC_TYPES.includes(type);
+  const result = db.selectOne(
+    `SELECT COUNT(*) AS total, COUNT("${column}") AS count, COUNT(DISTINCT "${column}") AS distinctCount,
+      MIN("${column}") AS minValue, MAX("${column}") AS maxValue,
+      ${isNumeric ? `AVG("${column}")` : 'NULL'} AS mean, ${isNumeric ? `SUM("${column}")` : 'NULL'} AS sum
+     FROM "${tableName}"`
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  const row = result.data![0];
+  return {
+    count: row.count as number,
+    nullCount: (row.total as number) - (row.count as number),
+    distinctCount: row.distinctCount as number,
+    min: row.minValue,
+    max: row.maxValue,
+    mean: row.mean as number | null,
+    sum: row.sum as number | null
+  };
+}
+
+// 한쪽에만 있는 행 수 (공통 컬럼 기준, 중복 행은 하나로 셈)
+function countRowsOnlyIn(tableName: string, otherTableName: string, columns: string[]): number {
+  if (columns.length === 0) return 0;
+  const columnList = columns.map(column => `"${column}"`).join(', ');
+  const result = db.selectOne(
+    `SELECT COUNT(*) AS count FROM (SELECT ${columnList} FROM "${tableName}" EXCEPT SELECT ${columnList} FROM "${otherTableName}")`
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data![0].count as number;
+}
+
+// 두 버전 비교: 시트별 스키마 변경, 추가/삭제된 행 수, 컬럼별 집계 변화
+export function diffVersions(fileId: string, fromVersion: number, toVersion: number): TableDiff[] {
+  const from = getVersion(fileId, fromVersion);
+  const to = getVersion(fileId, toVersion);
+  if (!from || !to) {
+    throw new Error(`버전 ${!from ? fromVersion : toVersion}을 찾을 수 없습니다.`);
+  }
+
+  const fromTables = getVersionStorage(fileId, from);
+  const toTables = getVersionStorage(fileId, to);
+  const baseNames = Array.from(new Set([...from.tables, ...to.tables].map(table => table.tableName)));
+
+  return baseNames.map(baseName => {
+    const fromIndex = from.tables.findIndex(table => table.tableName === baseName);
+    const toIndex = to.tables.findIndex(table => table.tableName === baseName);
+    const fromTable = fromTables[fromIndex];
+    const toTable = toTables[toIndex];
+    const fromTypes = fromTable ? getColumnTypes(fromTable.tableName) : {};
+    const toTypes = toTable ? getColumnTypes(toTable.tableName) : {};
+    const commonColumns = Object.keys(toTypes).filter(column => column in fromTypes);
+    const originals = new Map(Object.entries({ ...fromTable?.columnMapping, ...toTable?.columnMapping })
+      .map(([original, column]) => [column, original]));
+
+    return {
+      name: (toTable || fromTable).name,
+      tableName: baseName,
+      status: !fromTable ? 'added' : !toTable ? 'removed' : 'changed',
+      columnsAdded: Object.keys(toTypes).filter(column => !(column in fromTypes)),
+      columnsRemoved: Object.keys(fromTypes).filter(column => !(column in toTypes)),
+      typeChanges: commonColumns
+        .filter(column => fromTypes[column] !== toTypes[column])
+        .map(column => ({ column, from: fromTypes[column], to: toTypes[column] })),
+      rowCount: { from: fromTable?.rowCount || 0, to: toTable?.rowCount || 0 },
+      rowsAdded: !toTable ? 0 : !fromTable ? toTable.rowCount : countRowsOnlyIn(toTable.tableName, fromTable.tableName, commonColumns),
+      rowsRemoved: !fromTable ? 0 : !toTable ? fromTable.rowCount : countRowsOnlyIn(fromTable.tableName, toTable.tableName, commonColumns),
+      aggregates: fromTable && toTable
+        ? commonColumns.map(column => ({
+          column,
+          original: originals.get(column) || column,
+          from: aggregateColumn(fromTable.tableName, column, fromTypes[column]),
+          to: aggregateColumn(toTable.tableName, column, toTypes[column])
+        }))
+        : []
+    };
+  });
+}
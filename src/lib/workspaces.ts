@@ -0,0 +1,335 @@
+import { db, DatabaseRow } from './database';
+import { DatasetTable, getDatasetTables } from './datasets';
+import { getDatasetSchema } from './schema-edit';
+import { generateId } from '@/shared/lib/utils';
+import { ChatScope, Workspace, WorkspaceDataset, WorkspaceRelationship, WorkspaceSummary } from '@/types';
+
+// 에이전트 분석 대상: 데이터셋 하나 또는 워크스페이스에 속한 모든 데이터셋
+export interface AnalysisScope {
+  kind: ChatScope;
+  id: string;
+  name: string;
+  datasets: { fileId: string; name: string; tables: DatasetTable[] }[];
+  relationships: WorkspaceRelationship[];
+}
+
+// 워크스페이스 생성/수정 요청을 검사한 결과 (수정 시 지정하지 않은 항목은 undefined)
+export interface WorkspacePlan {
+  name?: string;
+  description?: string | null;
+  fileIds?: string[];
+}
+
+// 조인 키 한쪽 (tableName: 데이터셋 테이블명, column: 저장 컬럼명)
+export interface RelationshipEnd {
+  fileId: string;
+  tableName: string;
+  column: string;
+}
+
+function run(query: string, params: unknown[] = []): void {
+  const result = db.execute(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+}
+
+function selectAll(query: string, params: unknown[] = []): DatabaseRow[] {
+  const result = db.select(query, params);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.data!;
+}
+
+const getDatasetName = (file: DatabaseRow) => (file.displayName as string) || (file.name as string);
+
+function toSummary(row: DatabaseRow): WorkspaceSummary {
+  return {
+    id: row.id as string,
+    name: row.name as string,
+    description: (row.description as string) || null,
+    datasetCount: (row.datasetCount as number) || 0,
+    createdAt: row.createdAt as string,
+    updatedAt: row.updatedAt as string
+  };
+}
+
+// 워크스페이스에 속한 데이터셋의 files 행 (추가한 순서대로)
+function getMemberFiles(workspaceId: string): DatabaseRow[] {
+  return selectAll(
+    `SELECT f.* FROM workspace_datasets w JOIN files f ON f.id = w.fileId
+     WHERE w.workspaceId = ? ORDER BY w.position`,
+    [workspaceId]
+  );
+}
+
+function listRelationships(workspaceId: string, tables: DatasetTable[]): WorkspaceRelationship[] {
+  const columnsByTable = new Map(tables.map(table => [table.tableName, Object.values(table.columnMapping)]));
+  return selectAll('SELECT * FROM workspace_relationships WHERE workspaceId = ? ORDER BY id', [workspaceId])
+    .map(row => ({
+      id: row.id as number,
+      leftFileId: row.leftFileId as string,
+      leftTable: row.leftTable as string,
+      leftColumn: row.leftColumn as string,
+      rightFileId: row.rightFileId as string,
+      rightTable: row.rightTable as string,
+      rightColumn: row.rightColumn as string,
+      valid: !!columnsByTable.get(row.leftTable as string)?.includes(row.leftColumn as string)
+        && !!columnsByTable.get(row.rightTable as string)?.includes(row.rightColumn as string),
+      createdAt: row.createdAt as string
+    }));
+}
+
+export function listWorkspaces(): WorkspaceSummary[] {
+  return selectAll(
+    `SELECT w.*, (SELECT COUNT(*) FROM workspace_datasets d WHERE d.workspaceId = w.id) AS datasetCount
+     FROM workspaces w ORDER BY w.updatedAt DESC`
+  ).map(toSummary);
+}
+
+// 워크스페이스 상세 (데이터셋별 시트 컬럼 구성과 조인 키 포함)
+export function getWorkspace(id: string): Workspace | null {
+  const rows = selectAll(
+    `SELECT w.*, (SELECT COUNT(*) FROM workspace_datasets d WHERE d.workspaceId = w.id) AS datasetCount
+     FROM workspaces w WHERE w.id = ?`,
+    [id]
+  );
+  if (!rows[0]) return null;
+
+  const files = getMemberFiles(id);
+  const datasets: WorkspaceDataset[] = files.map(file => ({
+    fileId: file.id as string,
+    name: getDatasetName(file),
+    rowCount: file.rowCount as number,
+    sheets: getDatasetSchema(getDatasetTables(file))
+  }));
+
+  return {
+    ...toSummary(rows[0]),
+    datasets,
+    relationships: listRelationships(id, files.flatMap(file => getDatasetTables(file)))
+  };
+}
+
+// 생성/수정 요청 검사 (partial: 수정 요청이면 빠진 항목은 그대로 둠)
+export function planWorkspace(
+  input: { name?: unknown; description?: unknown; fileIds?: unknown },
+  partial = false
+): WorkspacePlan | { error: string } {
+  const plan: WorkspacePlan = {};
+
+  if (input.name !== undefined || !partial) {
+    if (typeof input.name !== 'string' || !input.name.trim()) {
+      return { error: '워크스페이스 이름을 입력해주세요.' };
+    }
+    plan.name = input.name.trim();
+  }
+
+  if (input.description !== undefined && input.description !== null) {
+    if (typeof input.description !== 'string') {
+      return { error: '설명은 문자열이어야 합니다.' };
+    }
+    plan.description = input.description.trim() || null;
+  } else if (input.description === null) {
+    plan.description = null;
+  }
+
+  if (input.fileIds !== undefined || !partial) {
+    if (!Array.isArray(input.fileIds) || input.fileIds.length === 0) {
+      return { error: '워크스페이스에 넣을 데이터셋을 하나 이상 선택해주세요.' };
+    }
+    const fileIds: string[] = [];
+    for (const fileId of input.fileIds) {
+      if (typeof fileId !== 'string') {
+        return { error: `데이터셋 ID가 올바르지 않습니다: ${fileId}` };
+      }
+      if (fileIds.includes(fileId)) continue;
+      const fileResult = db.selectOne('SELECT id FROM files WHERE id = ?', [fileId]);
+      if (!fileResult.success || !fileResult.data?.[0]) {
+        return { error: `데이터셋을 찾을 수 없습니다: ${fileId}` };
+      }
+      fileIds.push(fileId);
+    }
+    plan.fileIds = fileIds;
+  }
+
+  return plan;
+}
+
+function setMembers(workspaceId: string, fileIds: string[]): void {
+  run('DELETE FROM workspace_datasets WHERE workspaceId = ?', [workspaceId]);
+  fileIds.forEach((fileId, position) => {
+    run('INSERT INTO workspace_datasets (workspaceId, fileId, position) VALUES (?, ?, ?)', [workspaceId, fileId, position]);
+  });
+  // 빠진 데이터셋에 걸린 조인 키는 정리
+  const placeholders = fileIds.map(() => '?').join(', ');
+  run(
+    `DELETE FROM workspace_relationships WHERE workspaceId = ?
+     AND (leftFileId NOT IN (${placeholders}) OR rightFileId NOT IN (${placeholders}))`,
+    [workspaceId, ...fileIds, ...fileIds]
+  );
+}
+
+export function createWorkspace(plan: WorkspacePlan): Workspace {
+  const id = generateId();
+  const result = db.transaction(() => {
+    run('INSERT INTO workspaces (id, name, description) VALUES (?, ?, ?)', [id, plan.name, plan.description ?? null]);
+    setMembers(id, plan.fileIds || []);
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  console.log(`[WORKSPACE] 워크스페이스 생성: ${id} (데이터셋 ${plan.fileIds?.length || 0}개)`);
+  return getWorkspace(id)!;
+}
+
+// 이름/설명/데이터셋 구성 수정 (없는 워크스페이스면 null)
+export function updateWorkspace(id: string, plan: WorkspacePlan): Workspace | null {
+  const existing = db.selectOne('SELECT id FROM workspaces WHERE id = ?', [id]);
+  if (!existing.success || !existing.data?.[0]) return null;
+
+  const result = db.transaction(() => {
+    if (plan.name !== undefined) run('UPDATE workspaces SET name = ? WHERE id = ?', [plan.name, id]);
+    if (plan.description !== undefined) run('UPDATE workspaces SET description = ? WHERE id = ?', [plan.description, id]);
+    if (plan.fileIds !== undefined) setMembers(id, plan.fileIds);
+    run('UPDATE workspaces SET updatedAt = CURRENT_TIMESTAMP WHERE id = ?', [id]);
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return getWorkspace(id);
+}
+
+// 워크스페이스 삭제 (데이터셋은 그대로 두고 구성, 조인 키, 대화 기록만 삭제)
+export function deleteWorkspace(id: string): boolean {
+  const result = db.transaction(() => {
+    run('DELETE FROM workspace_chat_history WHERE workspaceId = ?', [id]);
+    run('DELETE FROM workspace_relationships WHERE workspaceId = ?', [id]);
+    run('DELETE FROM workspace_datasets WHERE workspaceId = ?', [id]);
+    const deleteResult = db.execute('DELETE FROM workspaces WHERE id = ?', [id]);
+    if (!deleteResult.success) {
+      throw new Error(deleteResult.error);
+    }
+    return (deleteResult.changes || 0) > 0;
+  });
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  if (result.result) {
+    console.log(`[WORKSPACE] 워크스페이스 삭제: ${id}`);
+  }
+  return !!result.result;
+}
+
+// 조인 키 한쪽 확인 (테이블은 워크스페이스 데이터셋의 테이블, 컬럼은 저장 컬럼명이나 원본 컬럼명)
+function resolveRelationshipEnd(workspace: Workspace, tableName: unknown, column: unknown): RelationshipEnd | { error: string } {
+  for (const dataset of workspace.datasets) {
+    const sheet = dataset.sheets.find(candidate => candidate.tableName === tableName);
+    if (!sheet) continue;
+    const match = sheet.columns.find(col => col.name === column) || sheet.columns.find(col => col.label === column);
+    if (!match) {
+      return { error: `컬럼을 찾을 수 없습니다: ${column}` };
+    }
+    return { fileId: dataset.fileId, tableName: sheet.tableName, column: match.name };
+  }
+  return { error: `워크스페이스에 없는 테이블입니다: ${tableName}` };
+}
+
+// 조인 키 요청 검사 (같은 테이블끼리 또는 이미 있는 조인 키면 오류 메시지)
+export function planRelationship(
+  workspace: Workspace,
+  input: { leftTable?: unknown; leftColumn?: unknown; rightTable?: unknown; rightColumn?: unknown }
+): { left: RelationshipEnd; right: RelationshipEnd } | { error: string } {
+  const left = resolveRelationshipEnd(workspace, input.leftTable, input.leftColumn);
+  if ('error' in left) return left;
+  const right = resolveRelationshipEnd(workspace, input.rightTable, input.rightColumn);
+  if ('error' in right) return right;
+
+  if (left.tableName === right.tableName) {
+    return { error: '서로 다른 테이블 사이에만 조인 키를 지정할 수 있습니다.' };
+  }
+  const duplicate = workspace.relationships.some(relationship =>
+    (relationship.leftTable === left.tableName && relationship.leftColumn === left.column
+      && relationship.rightTable === right.tableName && relationship.rightColumn === right.column)
+    || (relationship.leftTable === right.tableName && relationship.leftColumn === right.column
+      && relationship.rightTable === left.tableName && relationship.rightColumn === left.column)
+  );
+  if (duplicate) {
+    return { error: '이미 지정한 조인 키입니다.' };
+  }
+  return { left, right };
+}
+
+export function addRelationship(workspaceId: string, left: RelationshipEnd, right: RelationshipEnd): WorkspaceRelationship {
+  const result = db.execute(
+    `INSERT INTO workspace_relationships
+       (workspaceId, leftFileId, leftTable, leftColumn, rightFileId, rightTable, rightColumn)
+     VALUES (?, ?, ?, ?, ?, ?, ?)`,
+    [workspaceId, left.fileId, left.tableName, left.column, right.fileId, right.tableName, right.column]
+  );
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  run('UPDATE workspaces SET updatedAt = CURRENT_TIMESTAMP WHERE id = ?', [workspaceId]);
+  return getWorkspace(workspaceId)!.relationships.find(relationship => relationship.id === result.lastInsertRowid)!;
+}
+
+export function deleteRelationship(workspaceId: string, relationshipId: number): boolean {
+  const result = db.execute('DELETE FROM workspace_relationships WHERE workspaceId = ? AND id = ?', [workspaceId, relationshipId]);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return (result.changes || 0) > 0;
+}
+
+// 컬럼 이름 변경을 조인 키에 반영 (삭제한 컬럼의 조인 키는 남겨 두고 valid: false로 표시, 호출한 쪽의 트랜잭션 안에서 실행)
+export function renameRelationshipColumns(tableName: string, renames: Record<string, string | null>): void {
+  Object.entries(renames).forEach(([column, renamed]) => {
+    if (renamed === null || renamed === column) return;
+    run('UPDATE workspace_relationships SET leftColumn = ? WHERE leftTable = ? AND leftColumn = ?', [renamed, tableName, column]);
+    run('UPDATE workspace_relationships SET rightColumn = ? WHERE rightTable = ? AND rightColumn = ?', [renamed, tableName, column]);
+  });
+}
+
+// 데이터셋 삭제 시 워크스페이스 구성과 조인 키에서 제외 (호출한 쪽의 트랜잭션 안에서 실행)
+export function removeDatasetFromWorkspaces(fileId: string): void {
+  run('DELETE FROM workspace_relationships WHERE leftFileId = ? OR rightFileId = ?', [fileId, fileId]);
+  run('DELETE FROM workspace_datasets WHERE fileId = ?', [fileId]);
+}
+
+// 에이전트 분석 대상 조회 (ID가 워크스페이스면 속한 모든 데이터셋, 아니면 해당 데이터셋)
+export function getAnalysisScope(id: string): AnalysisScope | null {
+  const workspace = db.selectOne('SELECT id, name FROM workspaces WHERE id = ?', [id]);
+  if (workspace.success && workspace.data?.[0]) {
+    const files = getMemberFiles(id);
+    const datasets = files.map(file => ({
+      fileId: file.id as string,
+      name: getDatasetName(file),
+      tables: getDatasetTables(file)
+    }));
+    return {
+      kind: 'workspace',
+      id,
+      name: workspace.data[0].name as string,
+      datasets,
+      relationships: listRelationships(id, datasets.flatMap(dataset => dataset.tables))
+    };
+  }
+
+  const file = db.selectOne('SELECT * FROM files WHERE id = ?', [id]);
+  if (!file.success || !file.data?.[0]) return null;
+  const name = getDatasetName(file.data[0]);
+  return {
+    kind: 'file',
+    id,
+    name,
+    datasets: [{ fileId: id, name, tables: getDatasetTables(file.data[0]) }],
+    relationships: []
+  };
+}
+
+// 분석 대상에 속한 모든 테이블
+export function getScopeTables(scope: AnalysisScope): DatasetTable[] {
+  return scope.datasets.flatMap(dataset => dataset.tables);
+}
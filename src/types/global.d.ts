@@ -1,6 +1,8 @@
 declare module 'iconv-lite' {
   export function decode(buffer: Buffer, encoding: string): string;
   export function encode(str: string, encoding: string): Buffer;
+  export function encodingExists(encoding: string): boolean;
+  export function decodeStream(encoding: string): NodeJS.ReadWriteStream;
 }
 
 declare module 'jschardet' {
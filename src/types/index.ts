@@ -60,10 +60,20 @@ export interface GetTableSchemaParams {
 
 export interface GetSampleDataParams {
   fileId: string;
+  tableName?: string;
   limit?: number;
   reasoning?: string;
 }
 
+export interface SaveDerivedDatasetParams {
+  fileId: string;
+  name: string;
+  query: string;
+  kind?: DerivedKind;
+  userConfirmed: boolean;
+  reasoning?: string;
+}
+
 export interface ReflectOnResultsParams {
   results: string;
   question: string;
@@ -100,6 +110,53 @@ export interface FileUploadResult {
   error?: string;
 }
 
+// 데이터셋 테이블 컬럼 타입 (SQLite 선언 타입, BOOLEAN은 0/1로 저장)
+export type ColumnType = 'BOOLEAN' | 'INTEGER' | 'REAL' | 'DATE' | 'TEXT';
+
+export const COLUMN_TYPES: ColumnType[] = ['BOOLEAN', 'INTEGER', 'REAL', 'DATE', 'TEXT'];
+
+// 업로드 시 컬럼별 사용자 지정값 (원본 컬럼명 기준)
+export interface ColumnOverride {
+  original: string;
+  name?: string;
+  type?: ColumnType;
+  drop?: boolean;
+}
+
+// 시트 이름(CSV는 파일명) → 컬럼 지정값 목록
+export type SchemaOverrides = Record<string, ColumnOverride[]>;
+
+// 업로드 후 컬럼 수정 (column: 현재 저장 컬럼명, label: 원본 컬럼명으로 표시되는 이름)
+export interface ColumnSchemaEdit {
+  column: string;
+  name?: string;
+  label?: string;
+  type?: ColumnType;
+  drop?: boolean;
+}
+
+// 저장된 시트(테이블)의 컬럼 구성
+export interface SheetSchema {
+  name: string;
+  tableName: string;
+  rowCount: number;
+  columns: { label: string; name: string; type: string }[];
+}
+
+// 업로드 미리보기: 컬럼별 추론 결과
+export interface ColumnPreview {
+  original: string;
+  name: string;
+  type: ColumnType;
+}
+
+// 업로드 미리보기: 시트(테이블) 단위 결과
+export interface SheetPreview {
+  name: string;
+  columns: ColumnPreview[];
+  rows: Record<string, unknown>[];
+}
+
 export interface AnalysisRequest {
   query: string;
   fileId: string;
@@ -111,4 +168,269 @@ export interface AnalysisResponse {
   result?: string;
   error?: string;
   reasoning?: string[];
-} 
\ No newline at end of file
+} 
+// 컬럼 프로필: 히스토그램 구간 (DATE는 날짜 문자열 경계)
+export interface HistogramBin {
+  start: number | string;
+  end: number | string;
+  count: number;
+}
+
+// 컬럼 프로필: 업로드 시 계산해 저장하는 컬럼별 분포 정보
+export interface ColumnProfile {
+  column: string;
+  original: string;
+  type: string;
+  rowCount: number;
+  nullCount: number;
+  distinctCount: number;
+  min: unknown;
+  max: unknown;
+  mean: number | null;
+  topValues: { value: unknown; count: number }[];
+  histogram: HistogramBin[] | null;
+}
+
+// 데이터셋 테이블(시트) 단위 프로필
+export interface TableProfile {
+  name: string;
+  tableName: string;
+  rowCount: number;
+  columns: ColumnProfile[];
+}
+
+// 기존 데이터셋 대상 업로드 방식 (append: 행 추가, replace: 데이터 교체)
+export type DatasetUpdateMode = 'append' | 'replace';
+
+export const DATASET_UPDATE_MODES: DatasetUpdateMode[] = ['append', 'replace'];
+
+// JSON/Parquet 중첩 객체 저장 방식
+// flatten: 하위 키를 점으로 이은 컬럼으로 펼침 (user.address.city)
+// json: 최상위 키만 컬럼으로 두고 중첩 값은 JSON 텍스트로 저장 (json_extract로 조회)
+export type NestedMode = 'flatten' | 'json';
+
+export const NESTED_MODES: NestedMode[] = ['flatten', 'json'];
+
+// 업로드 가져오기 작업 상태 (queued → parsing → inserting → done | failed)
+export type IngestJobStatus = 'queued' | 'parsing' | 'inserting' | 'done' | 'failed';
+
+export const ACTIVE_INGEST_JOB_STATUSES: IngestJobStatus[] = ['queued', 'parsing', 'inserting'];
+
+// 가져올 때 타입 변환에 실패한 값 (rowNumber: 시트의 데이터 행 번호, 1부터 시작)
+export interface IngestRejection {
+  sheet: string;
+  rowNumber: number;
+  column: string;
+  columnType: string;
+  value: string | null;
+  reason: string;
+}
+
+// 변환 실패 건수 (count: 실패한 값 수, rows: 실패한 값이 하나라도 있는 행 수)
+export interface RejectionSummary {
+  count: number;
+  rows: number;
+}
+
+// 완료된 가져오기 작업이 만든 데이터셋 요약
+export interface IngestJobResult {
+  file: {
+    id: string;
+    name: string;
+    type: string;
+    size: number;
+    uploadedAt: string;
+    columns: string[];
+    columnCount: number;
+    rowCount: number;
+    columnMapping: Record<string, string>;
+    checksum: string;
+    sheets: { name: string; rowCount: number; columnCount: number }[];
+  };
+  rejections: RejectionSummary;
+  dialect?: {
+    encoding: string;
+    delimiter: string;
+    quote: string;
+    headerRow: number;
+    hasHeader: boolean;
+  };
+}
+
+// 기존 데이터셋 갱신 작업의 결과 (changes: 시트별 스키마 대조 결과)
+// requiresConfirmation이면 타입 충돌로 반영하지 않고 끝난 것이므로 확인 후 &confirm=true 로 다시 업로드
+export interface DatasetUpdateJobResult {
+  mode: DatasetUpdateMode;
+  changes: SchemaReconciliation[];
+  requiresConfirmation?: boolean;
+  version?: number;
+  file?: {
+    id: string;
+    name: string;
+    displayName: string | null;
+    size: number;
+    columns: string[];
+    columnCount: number;
+    rowCount: number;
+    columnMapping: Record<string, string>;
+    sheets: { name: string; rowCount: number; columnCount: number }[];
+  };
+  rejections?: RejectionSummary;
+}
+
+// 가져오기 작업 (mode: 기존 데이터셋 갱신이면 append/replace, 새 데이터셋이면 null)
+export interface IngestJob {
+  id: string;
+  fileId: string;
+  fileName: string;
+  mode: DatasetUpdateMode | null;
+  status: IngestJobStatus;
+  rowsProcessed: number;
+  bytesProcessed: number;
+  totalBytes: number;
+  error: string | null;
+  result: IngestJobResult | DatasetUpdateJobResult | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+// 스키마 대조 결과의 컬럼 (original: 원본 컬럼명, column: 저장 컬럼명)
+export interface ColumnChange {
+  original: string;
+  column: string;
+  type: string;
+}
+
+// 기존 컬럼과 새 데이터의 타입이 호환되지 않는 경우
+export interface ColumnTypeConflict {
+  original: string;
+  column: string;
+  existingType: string;
+  incomingType: string;
+  resolvedType: string;
+}
+
+// 시트(테이블) 단위 스키마 대조 결과
+export interface SchemaReconciliation {
+  sheet: string;
+  tableName: string;
+  added: ColumnChange[];
+  missing: ColumnChange[];
+  conflicts: ColumnTypeConflict[];
+}
+
+// 인덱스를 만든 방식 (manual: API로 생성, auto: 반복된 전체 스캔을 보고 자동 생성)
+export type IndexOrigin = 'manual' | 'auto';
+
+// 데이터셋 테이블(시트)에 걸린 인덱스
+export interface DatasetIndex {
+  name: string;
+  sheet: string;
+  tableName: string;
+  columns: string[];
+  origin: IndexOrigin;
+  createdAt: string | null;
+}
+
+// 에이전트 쿼리가 전체 스캔으로 처리한 필터(WHERE)/그룹(GROUP BY) 컬럼
+export type ScanUsage = 'filter' | 'group';
+
+// 전체 스캔이 반복된 컬럼에 대한 인덱스 제안
+export interface IndexSuggestion {
+  sheet: string;
+  tableName: string;
+  column: string;
+  usage: ScanUsage[];
+  scanCount: number;
+  lastQuery: string | null;
+  lastSeenAt: string;
+}
+
+// 대화와 에이전트 분석의 대상 (데이터셋 하나 또는 워크스페이스)
+export type ChatScope = 'file' | 'workspace';
+
+// 워크스페이스에 속한 데이터셋 (sheets: 시트별 컬럼 구성)
+export interface WorkspaceDataset {
+  fileId: string;
+  name: string;
+  rowCount: number;
+  sheets: SheetSchema[];
+}
+
+// 두 데이터셋 테이블 사이의 조인 키 (valid: 양쪽 컬럼이 아직 있는지)
+export interface WorkspaceRelationship {
+  id: number;
+  leftFileId: string;
+  leftTable: string;
+  leftColumn: string;
+  rightFileId: string;
+  rightTable: string;
+  rightColumn: string;
+  valid: boolean;
+  createdAt: string;
+}
+
+// 워크스페이스 목록 항목
+export interface WorkspaceSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  datasetCount: number;
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface Workspace extends WorkspaceSummary {
+  datasets: WorkspaceDataset[];
+  relationships: WorkspaceRelationship[];
+}
+
+// 조인했을 때 행 대응 관계 (왼쪽 기준, one: 키 값이 중복 없이 한 번씩만 나옴)
+export type JoinCardinality = 'one-to-one' | 'one-to-many' | 'many-to-one' | 'many-to-many';
+
+// 조인 키 후보의 한쪽 컬럼 (uniqueness: 고유 값 수 / 비어 있지 않은 값 수)
+export interface JoinCandidateColumn {
+  fileId: string;
+  dataset: string;
+  sheet: string;
+  tableName: string;
+  column: string;
+  label: string;
+  type: string;
+  distinctCount: number;
+  uniqueness: number;
+}
+
+// 자동 감지한 조인 키 후보
+// leftContainment: 왼쪽 고유 값 중 오른쪽에도 있는 비율 (rightContainment는 반대 방향)
+// sampled: 고유 값이 많아 일부만 비교한 추정치인지, confirmed: 이미 조인 키로 지정했는지
+export interface JoinCandidate {
+  left: JoinCandidateColumn;
+  right: JoinCandidateColumn;
+  nameSimilarity: number;
+  overlapCount: number;
+  leftContainment: number;
+  rightContainment: number;
+  cardinality: JoinCardinality;
+  score: number;
+  sampled: boolean;
+  confirmed: boolean;
+}
+
+// 파생 데이터셋 저장 방식 (view: 원본 테이블을 읽는 SQLite 뷰, table: 쿼리 결과를 저장한 테이블)
+export type DerivedKind = 'view' | 'table';
+
+// 파생 데이터셋의 계보 (sourceVersion: 마지막으로 만들 때 기준이 된 원본 버전, stale: 그 뒤로 원본이 바뀜)
+// 원본이 삭제되었으면 sourceName과 currentSourceVersion은 null
+export interface DatasetLineage {
+  sourceFileId: string;
+  sourceName: string | null;
+  kind: DerivedKind;
+  query: string;
+  sourceVersion: number;
+  currentSourceVersion: number | null;
+  stale: boolean;
+  createdAt: string;
+  refreshedAt: string;
+}